@@ -0,0 +1,221 @@
+import '@vitest/web-worker';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ChallengeEngine } from './ChallengeEngine';
+import { Challenge, ChallengeStatus, ConditionGoal } from './types';
+import { GameController } from '../core/GameController';
+import { createMockController, sonicPhysics } from '../testing';
+import { loadDataJson, registerGameData } from '../data/parser';
+
+// Sonic's variables without any save states, so attempts start from a snapshot
+registerGameData({
+  gameName: 'SonicWithoutStates-Genesis',
+  data: loadDataJson('SonicTheHedgehog2-Genesis'),
+});
+
+const pastX200: ConditionGoal = { type: 'condition', variable: 'x', op: 'greater-than', reference: 200 };
+
+const moveRight: Challenge = {
+  id: 'test-move-right',
+  lessonNumber: 1,
+  name: 'Move right',
+  description: '',
+  game: 'SonicTheHedgehog2-Genesis',
+  goal: pastX200,
+  maxFrames: 300,
+  hints: [],
+  starterCode: '',
+  concepts: ['sequences'],
+};
+
+describe('ChallengeEngine result classification', () => {
+  let controller: GameController;
+  let engine: ChallengeEngine;
+  let statuses: ChallengeStatus[];
+
+  let startState: Uint8Array;
+
+  const run = (code: string, overrides: Partial<Challenge> = {}) =>
+    engine.runChallenge({ ...moveRight, ...overrides }, code, {
+      typeCheck: true,
+      startState,
+      onStatusChange: (status) => statuses.push(status),
+    });
+
+  beforeEach(async () => {
+    controller = await createMockController({ physics: sonicPhysics });
+    startState = controller.saveState();
+    engine = new ChallengeEngine(controller);
+    statuses = [];
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it('succeeds on the frame the goal is first met', async () => {
+    const result = await run(`game.press('right');\nawait game.stepFrames(200);`);
+    expect(result.success).toBe(true);
+    expect(result.framesUsed).toBeGreaterThan(0);
+    expect(result.framesUsed).toBeLessThan(200);
+    expect(result.message).toBe(`Goal achieved in ${result.framesUsed} frames!`);
+    expect(statuses).toEqual(['running', 'success']);
+  });
+
+  it('fails when the code finishes without meeting the goal', async () => {
+    const result = await run(`await game.stepFrames(10);`);
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Code completed but goal was not achieved.');
+    expect(result.framesUsed).toBe(10);
+    expect(engine.getStatus()).toBe('failure');
+  });
+
+  it('names the subgoal that can no longer be met', async () => {
+    const result = await run(`game.press('right');\nawait game.stepFrames(100);`, {
+      goal: { type: 'within', frames: 20, goal: pastX200 },
+    });
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Goal failed: Within 20 frames');
+    expect(engine.getStatus()).toBe('failure');
+  });
+
+  it('reports compile errors without running the code', async () => {
+    const result = await run(`game.presss('right');`);
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/^Compile error: /);
+    expect(result.framesUsed).toBe(0);
+    expect(engine.getStatus()).toBe('error');
+  });
+
+  it('reports runtime errors with the line that threw', async () => {
+    const result = await run(`await game.step();\nthrow new Error('boom');`);
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Error: boom');
+    expect(result.errorLine).toBe(2);
+    expect(engine.getStatus()).toBe('error');
+  });
+
+  it('reports a frame step that fails as an error', async () => {
+    // One step settles the start state, then the code's first step runs
+    const step = controller.step.bind(controller);
+    vi.spyOn(controller, 'step')
+      .mockImplementationOnce(step)
+      .mockImplementationOnce(step)
+      .mockRejectedValueOnce(new Error('runFrames timeout - frame did not advance'));
+
+    const result = await run(`await game.stepFrames(10);`);
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Error: runFrames timeout - frame did not advance');
+    expect(result.framesUsed).toBe(1);
+    expect(engine.getStatus()).toBe('error');
+  });
+
+  it('times out when the code runs out of frames', async () => {
+    const result = await run(`while (true) {\n  await game.step();\n}`, { maxFrames: 60 });
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Timeout: Goal not achieved within 60 frames.');
+    expect(result.framesUsed).toBe(60);
+    expect(engine.getStatus()).toBe('timeout');
+  });
+
+  it('succeeds when the goal was met before running out of frames', async () => {
+    const result = await run(`game.press('right');\nwhile (true) {\n  await game.step();\n}`);
+    expect(result.success).toBe(true);
+    expect(engine.getStatus()).toBe('success');
+  });
+
+  it('keeps reporting goal progress after the goal is met', async () => {
+    const pastX400: ConditionGoal = { ...pastX200, reference: 400 };
+    const result = await run(`game.press('right');\nawait game.stepFrames(200);`, {
+      goal: { type: 'any', goals: [pastX200, pastX400] },
+    });
+    expect(result.success).toBe(true);
+    expect(result.finalState.x).toBeGreaterThan(400);
+    expect(result.goalProgress?.children?.map(child => child.status)).toEqual(['met', 'met']);
+  });
+
+  it('fails a met goal when the code breaks the requirements', async () => {
+    const result = await run(`game.press('right');\nawait game.stepFrames(200);`, {
+      requirements: { required: ['while-loop'] },
+    });
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/^Goal reached, but your code doesn't meet the requirements: /);
+    expect(result.codeCheck?.passed).toBe(false);
+    expect(engine.getStatus()).toBe('failure');
+  });
+
+  it('does not count a variable that is only logged as used', async () => {
+    const logged = await run(`let targetX = 200;\ngame.press('right');\nawait game.stepFrames(200);\nconsole.log(targetX);`, {
+      requirements: { required: ['variable'] },
+    });
+    expect(logged.codeCheck?.failures.map(failure => failure.rule)).toEqual(['required']);
+
+    const used = await run(`let targetX = 200;\ngame.press('right');\nwhile (game.getVariable('x') <= targetX) {\n  await game.step();\n}`, {
+      requirements: { required: ['variable'] },
+    });
+    expect(used.success).toBe(true);
+  });
+});
+
+describe('ChallengeEngine start state', () => {
+  it('restores a snapshot of the first attempt before each later one', async () => {
+    const controller = await createMockController({ physics: sonicPhysics });
+    const engine = new ChallengeEngine(controller);
+    const challenge: Challenge = { ...moveRight, game: 'SonicWithoutStates-Genesis' };
+    const code = `game.press('right');\nawait game.stepFrames(50);`;
+
+    try {
+      const first = await engine.runChallenge(challenge, code);
+      const second = await engine.runChallenge(challenge, code);
+      expect(second.finalState.x).toBe(first.finalState.x);
+
+      expect(await engine.restoreStartState(challenge)).toBe(true);
+      expect(controller.getVariable('x')).toBe(64);
+    } finally {
+      engine.destroy();
+    }
+  });
+});
+
+describe('ChallengeEngine setup', () => {
+  let controller: GameController;
+  let engine: ChallengeEngine;
+  let startState: Uint8Array;
+
+  beforeEach(async () => {
+    controller = await createMockController({ physics: sonicPhysics });
+    startState = controller.saveState();
+    engine = new ChallengeEngine(controller);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it('writes setup values after loading the start state', async () => {
+    const result = await engine.runChallenge(
+      { ...moveRight, setup: { x: 1000, rings: 50 } },
+      `await game.step();`,
+      { startState }
+    );
+    expect(result.success).toBe(true);
+    expect(result.finalState.rings).toBe(50);
+  });
+
+  it('runs a setup function with the controller', async () => {
+    const result = await engine.runChallenge(
+      { ...moveRight, setup: (controller) => controller.setVariable('lives', 1) },
+      `await game.step();`,
+      { startState }
+    );
+    expect(result.finalState.lives).toBe(1);
+  });
+
+  it('applies setup again when restoring the start state', async () => {
+    const challenge: Challenge = { ...moveRight, game: 'SonicWithoutStates-Genesis', setup: { rings: 7 } };
+    await engine.runChallenge(challenge, `await game.stepFrames(5);`);
+    controller.setVariable('rings', 0);
+
+    expect(await engine.restoreStartState(challenge)).toBe(true);
+    expect(controller.getVariable('rings')).toBe(7);
+  });
+});
@@ -2,19 +2,28 @@
  * ChallengeEngine - Orchestrator for challenge execution
  *
  * Manages the full lifecycle of running a challenge:
- * - Load initial state
- * - Execute student code via CodeSandbox
- * - Check goal conditions
+ * - Load the challenge's start state and apply its setup, so every attempt
+ *   starts identically
+ * - Execute student code via CodeSandbox, recording inputs
+ * - Check goal conditions on every frame
+ * - Optionally record a per-frame timeline of every variable
  * - Return results
  */
 
 import { GameController } from '../core/GameController';
 import { CodeSandbox, ExecutionOptions } from '../sandbox/CodeSandbox';
 import { LogEntry } from '../sandbox/types';
+import { generateGameApiDeclarations } from '../sandbox/declarations';
+import { isGameAvailable, loadDataJson } from '../data/parser';
+import { getDefaultState, loadState } from '../data/stateLoader';
+import { GameState } from '../core/MemoryReader';
+import { StateTimeline, createTimeline, recordTimelineSample } from './timeline';
+import { GoalEvaluator, findFailedGoal } from './goals';
 import {
   Challenge,
   ChallengeResult,
   ChallengeStatus,
+  GoalProgress,
 } from './types';
 
 /**
@@ -24,14 +33,35 @@ export interface ChallengeRunOptions {
   /** Callback for console output from student code */
   onLog?: (entry: LogEntry) => void;
 
-  /** Callback for each frame step */
+  /** Callback for each frame step, with the game state after it */
   onStep?: (frameNumber: number, state: Record<string, number>) => void;
 
+  /** Callback when the status of the goal or any subgoal changes */
+  onGoalProgress?: (progress: GoalProgress) => void;
+
+  /** Callback when the student code line waiting on a frame changes */
+  onLineChange?: (line: number | null) => void;
+
   /** Callback for status changes */
   onStatusChange?: (status: ChallengeStatus) => void;
 
   /** Additional frame delay for visualization (ms) */
   frameDelay?: number;
+
+  /** Type-check student code before running it */
+  typeCheck?: boolean;
+
+  /** Read every variable on every frame into result.timeline */
+  recordTimeline?: boolean;
+
+  /** End the run on the frame the goal is first met */
+  stopOnGoal?: boolean;
+
+  /**
+   * State to start from instead of the challenge's own (e.g., for a mock
+   * core, which can't load real save states)
+   */
+  startState?: Uint8Array;
 }
 
 /**
@@ -43,6 +73,8 @@ export class ChallengeEngine {
   private currentChallenge: Challenge | null = null;
   private status: ChallengeStatus = 'idle';
   private statusCallback?: (status: ChallengeStatus) => void;
+  private stateCache: Map<string, Uint8Array> = new Map();
+  private startSnapshots: Map<string, Uint8Array> = new Map();
 
   constructor(controller: GameController, sandbox?: CodeSandbox) {
     this.controller = controller;
@@ -86,9 +118,12 @@ export class ChallengeEngine {
       // Load game data for variable access
       this.controller.loadGameData(challenge.game);
 
-      // Load initial state if provided
-      if (challenge.initialState) {
-        this.controller.loadState(challenge.initialState);
+      // Start every attempt from the same frame, so attempts are
+      // reproducible and don't continue from where the last one ended
+      const startState = options.startState ?? await this.getStartState(challenge);
+      if (startState) {
+        this.controller.releaseAll();
+        this.controller.loadState(startState);
         // Allow state to settle
         await this.controller.step();
       }
@@ -96,7 +131,7 @@ export class ChallengeEngine {
       // Discover RAM base address for memory reads (skip if already discovered)
       if (!this.controller.isMemoryDiscovered) {
         try {
-          await this.controller.discoverMemory('genesis');
+          await this.controller.discoverMemory();
           console.log('[ChallengeEngine] Memory discovery successful');
         } catch (e) {
           console.warn('[ChallengeEngine] Memory discovery failed:', e);
@@ -106,47 +141,67 @@ export class ChallengeEngine {
         console.log('[ChallengeEngine] Memory already discovered, skipping');
       }
 
+      await this.applySetup(challenge);
+
       // Note: Don't pause here - stepFrame handles pause/resume internally
       // Pausing before step causes frame advancement to fail
 
-      // Track goal achievement
-      let goalMet = false;
-      let goalFrame = 0;
+      // Track the student code line currently waiting on a frame
+      let currentLine: number | null = null;
 
-      // Create execution options with goal checking
-      // Note: Goal checking is disabled for now since memory addresses are incorrect
+      // Frames stepped so far in this run
+      let runFrame = 0;
+      const timeline = options.recordTimeline ? createTimeline() : undefined;
+      if (timeline) {
+        this.recordSample(timeline, runFrame);
+      }
+
+      // The sandbox checks the goal against the state it reads for the
+      // worker on every frame, so checking costs no extra memory reads
+      const evaluator = new GoalEvaluator(challenge.goal, challenge.goalDescription);
       const execOptions: ExecutionOptions = {
         maxFrames: challenge.maxFrames,
+        typeCheck: options.typeCheck,
+        requirements: challenge.requirements,
+        goal: (state) => {
+          const met = evaluator.update(state);
+          if (evaluator.statusChanged) {
+            options.onGoalProgress?.(evaluator.getProgress());
+          }
+          return met;
+        },
+        stopOnGoal: options.stopOnGoal,
         onLog: options.onLog,
-        onStep: (frameNumber) => {
-          // Only check goal every 10 frames to reduce overhead
-          if (frameNumber % 10 === 0) {
-            try {
-              const state = this.controller.getState();
-              options.onStep?.(frameNumber, state);
-
-              // Check goal condition
-              if (!goalMet && challenge.goal(state)) {
-                goalMet = true;
-                goalFrame = frameNumber;
-              }
-            } catch (e) {
-              // Ignore state reading errors
-              console.warn('Error reading game state:', e);
-            }
+        onStep: (frameNumber, state, line) => {
+          if (line !== undefined && line !== currentLine) {
+            currentLine = line;
+            options.onLineChange?.(line);
           }
+
+          runFrame++;
+          if (timeline) {
+            recordTimelineSample(timeline, runFrame, state);
+          }
+          options.onStep?.(frameNumber, state);
         },
       };
 
       // Execute student code
       console.log('[ChallengeEngine] Starting code execution...');
+      // Record inputs so the run can be replayed
+      this.controller.startRecording(challenge.game);
       const execResult = await this.sandbox.execute(studentCode, execOptions);
+      const movie = this.controller.stopRecording();
       console.log('[ChallengeEngine] Execution complete:', {
         completed: execResult.completed,
         framesExecuted: execResult.framesExecuted,
         error: execResult.error,
       });
 
+      if (currentLine !== null) {
+        options.onLineChange?.(null);
+      }
+
       // Clean up after execution
       this.controller.releaseAll();
 
@@ -163,54 +218,102 @@ export class ChallengeEngine {
         // Ignore errors reading final state
       }
 
-      // Check goal one more time with final state
-      if (!goalMet && challenge.goal(finalState)) {
-        goalMet = true;
-        goalFrame = execResult.framesExecuted;
-      }
+      const goalProgress = evaluator.getProgress();
+      const { codeCheck } = execResult;
+
+      // Running out of frames stops the code with an error, but it's a
+      // timeout (or a success, if the goal was met along the way)
+      const outOfFrames = execResult.framesExecuted >= challenge.maxFrames;
 
       // Determine result
-      if (execResult.error) {
+      if (execResult.error && !outOfFrames) {
+        // Compile errors stop the code before it runs any frames
+        const compileFailed = execResult.diagnostics?.some(d => d.category === 'error');
         this.setStatus('error');
         return {
           success: false,
-          message: `Error: ${execResult.error}`,
+          message: compileFailed
+            ? `Compile error: ${execResult.error}`
+            : `Error: ${execResult.error}`,
           framesUsed: execResult.framesExecuted,
           finalState,
           error: execResult.error,
           errorStack: execResult.errorStack,
+          errorLine: execResult.errorLine,
+          diagnostics: execResult.diagnostics,
+          movie,
+          timeline,
+          goalProgress,
+          codeCheck,
+        };
+      }
+
+      // Reaching the goal with code that breaks the rules isn't a pass
+      if (execResult.goalFrame !== undefined && codeCheck && !codeCheck.passed) {
+        this.setStatus('failure');
+        return {
+          success: false,
+          message: `Goal reached, but your code doesn't meet the requirements: ` +
+            codeCheck.failures.map(failure => failure.message).join('; '),
+          framesUsed: execResult.goalFrame,
+          finalState,
+          movie,
+          timeline,
+          goalProgress,
+          codeCheck,
         };
       }
 
-      if (goalMet) {
+      if (execResult.goalFrame !== undefined) {
+        const goalFrame = execResult.goalFrame;
         this.setStatus('success');
         return {
           success: true,
           message: `Goal achieved in ${goalFrame} frames!`,
           framesUsed: goalFrame,
           finalState,
+          movie,
+          timeline,
+          goalProgress,
+          codeCheck,
         };
       }
 
-      if (execResult.framesExecuted >= challenge.maxFrames) {
+      if (outOfFrames) {
         this.setStatus('timeout');
         return {
           success: false,
           message: `Timeout: Goal not achieved within ${challenge.maxFrames} frames.`,
           framesUsed: execResult.framesExecuted,
           finalState,
+          movie,
+          timeline,
+          goalProgress,
+          codeCheck,
         };
       }
 
+      // Explain goals that can no longer be met (e.g., a life was lost)
+      const failedGoal = findFailedGoal(goalProgress);
+
       this.setStatus('failure');
       return {
         success: false,
-        message: 'Code completed but goal was not achieved.',
+        message: failedGoal
+          ? `Goal failed: ${failedGoal.label}`
+          : 'Code completed but goal was not achieved.',
         framesUsed: execResult.framesExecuted,
         finalState,
+        movie,
+        timeline,
+        goalProgress,
+        codeCheck,
       };
 
     } catch (error) {
+      if (this.controller.isRecording) {
+        this.controller.stopRecording();
+      }
       this.setStatus('error');
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
@@ -223,6 +326,90 @@ export class ChallengeEngine {
     }
   }
 
+  /**
+   * Get the game API declarations for a challenge's game, for editor
+   * autocomplete and type-checking
+   *
+   * @param challenge - The challenge definition
+   * @returns Declaration file contents
+   */
+  getApiDeclarations(challenge: Challenge): string {
+    const variableNames = isGameAvailable(challenge.game)
+      ? Object.keys(loadDataJson(challenge.game).info)
+      : [];
+    return generateGameApiDeclarations(variableNames);
+  }
+
+  /**
+   * Get the state a challenge starts from
+   *
+   * Uses challenge.initialState, else the named state (challenge.state or
+   * the game's default_state), fetched once and cached. Games without
+   * states start from a snapshot taken on the challenge's first call.
+   *
+   * @returns The state, or null if the core can't save states
+   * @throws If a named state can't be loaded
+   */
+  async getStartState(challenge: Challenge): Promise<Uint8Array | null> {
+    if (challenge.initialState) {
+      return challenge.initialState;
+    }
+
+    const stateName = challenge.state ?? getDefaultState(challenge.game);
+    if (!stateName) {
+      let snapshot = this.startSnapshots.get(challenge.id);
+      if (!snapshot && this.controller.getBridge().supportsStates()) {
+        snapshot = this.controller.saveState();
+        this.startSnapshots.set(challenge.id, snapshot);
+      }
+      return snapshot ?? null;
+    }
+
+    const key = `${challenge.game}/${stateName}`;
+    let state = this.stateCache.get(key);
+    if (!state) {
+      state = await loadState(challenge.game, stateName);
+      this.stateCache.set(key, state);
+      console.log(`[ChallengeEngine] Loaded state ${key} (${state.length} bytes)`);
+    }
+    return state;
+  }
+
+  /**
+   * Put the game back where a challenge starts, as before an attempt
+   *
+   * @returns Whether a start state was loaded
+   */
+  async restoreStartState(challenge: Challenge): Promise<boolean> {
+    const startState = await this.getStartState(challenge);
+    if (!startState) {
+      return false;
+    }
+    this.controller.releaseAll();
+    this.controller.loadState(startState);
+    await this.applySetup(challenge);
+    return true;
+  }
+
+  /**
+   * Apply a challenge's setup on top of its start state
+   *
+   * Skipped until the RAM base is discovered, since setup writes memory.
+   */
+  private async applySetup(challenge: Challenge): Promise<void> {
+    const { setup } = challenge;
+    if (!setup || !this.controller.isMemoryDiscovered) {
+      return;
+    }
+    if (typeof setup === 'function') {
+      await setup(this.controller);
+      return;
+    }
+    for (const [name, value] of Object.entries(setup)) {
+      this.controller.setVariable(name, value);
+    }
+  }
+
   /**
    * Stop the current challenge execution
    */
@@ -248,6 +435,19 @@ export class ChallengeEngine {
     this.sandbox.destroy();
   }
 
+  /**
+   * Read the current state into a timeline
+   */
+  private recordSample(timeline: StateTimeline, frame: number): void {
+    let state: GameState = {};
+    try {
+      state = this.controller.getState();
+    } catch {
+      // Unreadable variables are recorded as gaps
+    }
+    recordTimelineSample(timeline, frame, state);
+  }
+
   /**
    * Update status and notify callback
    */
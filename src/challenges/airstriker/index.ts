@@ -0,0 +1,37 @@
+/**
+ * Airstriker - Challenge Collection
+ *
+ * Educational challenges using Airstriker, a freely distributable Genesis
+ * homebrew shooter.
+ */
+
+import { Challenge } from '../types';
+import { registerChallenges } from '../registry';
+
+// Import individual lessons
+import { lesson06Score } from './lesson06-score';
+import { lesson07Survive } from './lesson07-survive';
+import { lesson08Weave } from './lesson08-weave';
+
+/**
+ * All Airstriker challenges
+ */
+export const airstrikerChallenges: Challenge[] = [
+  lesson06Score,
+  lesson07Survive,
+  lesson08Weave,
+];
+
+/**
+ * Register all Airstriker challenges with the registry
+ */
+export function registerAirstrikerChallenges(): void {
+  registerChallenges(airstrikerChallenges);
+}
+
+// Export individual lessons for direct access
+export {
+  lesson06Score,
+  lesson07Survive,
+  lesson08Weave,
+};
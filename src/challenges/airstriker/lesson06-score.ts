@@ -0,0 +1,62 @@
+/**
+ * Lesson 6: Score Points
+ *
+ * Shoot down enemies until the score goes up by 30.
+ * Teaches: while loops, comparing against a value saved at the start
+ */
+
+import { Challenge } from '../types';
+
+export const lesson06Score: Challenge = {
+  id: 'airstriker-lesson-06-score',
+  lessonNumber: 6,
+  name: 'Score Points',
+  description: `
+Welcome to **Airstriker**! You fly a fighter ship, and the 'b' button fires.
+
+Your goal is to score **30 points** by shooting down enemies. You don't know
+exactly when the enemies will arrive, so keep firing with a **while loop**
+until the score is high enough:
+\`\`\`javascript
+const target = game.getVariable('score') + 30;
+while (game.getVariable('score') < target) {
+  // fire, then wait a little
+}
+\`\`\`
+
+Saving the target in a variable first means it works whatever the score
+was when you started.
+`,
+  game: 'Airstriker-Genesis',
+  goal: {
+    type: 'condition',
+    variable: 'score',
+    op: 'greater-or-equal',
+    reference: 30,
+    measurement: 'start-delta',
+    label: 'Score 30 points',
+  },
+  goalDescription: 'Score 30 points using a while loop',
+  requirements: {
+    required: ['while-loop'],
+  },
+  maxFrames: 900,
+  hints: [
+    'game.tap("b") fires one shot',
+    'Give each shot time to reach an enemy: wait with game.stepFrames(10) after each tap',
+    'Loop while game.getVariable("score") < target',
+  ],
+  starterCode: `// Shoot down enemies to score 30 points!
+// The 'b' button fires.
+
+await game.tap('b'); // One shot won't be enough...
+`,
+  concepts: ['while-loops', 'loops', 'variables'],
+  unit: 'Loops',
+  difficulty: 'beginner',
+  solution: `const target = game.getVariable('score') + 30;
+while (game.getVariable('score') < target) {
+  await game.tap('b');
+  await game.stepFrames(10);
+}`,
+};
@@ -0,0 +1,64 @@
+/**
+ * Lesson 7: Stay Alive
+ *
+ * Survive for 600 frames without losing a life.
+ * Teaches: for loops, repeating an action a fixed number of times
+ */
+
+import { Challenge } from '../types';
+
+export const lesson07Survive: Challenge = {
+  id: 'airstriker-lesson-07-survive',
+  lessonNumber: 7,
+  name: 'Stay Alive',
+  description: `
+Getting hit costs you a **life**. Your goal is to survive for
+**600 frames** (10 seconds) without losing one.
+
+Enemies you shoot down can't hit you, so keep firing. When you know how
+many times to repeat something, use a **for loop**:
+\`\`\`javascript
+for (let i = 0; i < 10; i++) {
+  // This code runs 10 times
+}
+\`\`\`
+
+Each time around your loop takes some frames. How many times do you need
+to go around to last 600 frames?
+`,
+  game: 'Airstriker-Genesis',
+  goal: {
+    type: 'all',
+    goals: [
+      {
+        type: 'never',
+        label: 'Never lose a life',
+        goal: { type: 'condition', variable: 'lives', op: 'negative', measurement: 'start-delta' },
+      },
+      { type: 'after', frames: 600, label: 'Survive 600 frames' },
+    ],
+  },
+  goalDescription: 'Survive 600 frames without losing a life, using a for loop',
+  requirements: {
+    required: ['for-loop'],
+  },
+  maxFrames: 900,
+  hints: [
+    'Fire with game.tap("b"), then wait with game.stepFrames(10)',
+    'game.tap() takes 1 frame, so one shot and a 10 frame wait is 11 frames',
+    '600 frames / 11 frames per loop is about 55 loops - go a few more to be safe',
+  ],
+  starterCode: `// Survive for 600 frames without losing a life.
+// Getting hit costs a life - keep shooting enemies down!
+
+await game.stepFrames(600); // Just waiting isn't safe...
+`,
+  concepts: ['for-loops', 'loops'],
+  unit: 'Loops',
+  prerequisites: ['airstriker-lesson-06-score'],
+  difficulty: 'beginner',
+  solution: `for (let i = 0; i < 60; i++) {
+  await game.tap('b');
+  await game.stepFrames(10);
+}`,
+};
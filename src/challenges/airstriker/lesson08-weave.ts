@@ -0,0 +1,92 @@
+/**
+ * Lesson 8: Weave and Score
+ *
+ * Weave up and down while firing, steering by scroll_counter, until the
+ * score goes up by 100.
+ * Teaches: if/else, choosing an action from the game state in a loop
+ */
+
+import { Challenge } from '../types';
+
+export const lesson08Weave: Challenge = {
+  id: 'airstriker-lesson-08-weave',
+  lessonNumber: 8,
+  name: 'Weave and Score',
+  description: `
+So far your ship has stayed where it started. This time, make it **weave**
+up and down while it keeps firing, and score **100 points** without losing
+a life.
+
+The game keeps count of the scrolling background in \`scroll_counter\`.
+It's a single byte, so it's always a number from 0 to 255. Use it as a
+clock to pick a direction:
+- While \`scroll_counter\` is **below 128**, fly **up**
+- Otherwise, fly **down**
+
+An **if/else** statement picks one of two actions:
+\`\`\`javascript
+if (game.getVariable('scroll_counter') < 128) {
+  // fly up
+} else {
+  // fly down
+}
+\`\`\`
+`,
+  game: 'Airstriker-Genesis',
+  goal: {
+    type: 'all',
+    goals: [
+      {
+        type: 'never',
+        label: 'Never lose a life',
+        goal: { type: 'condition', variable: 'lives', op: 'negative', measurement: 'start-delta' },
+      },
+      {
+        type: 'condition',
+        variable: 'score',
+        op: 'greater-or-equal',
+        reference: 100,
+        measurement: 'start-delta',
+        label: 'Score 100 points',
+      },
+    ],
+  },
+  goalDescription: 'Score 100 points without losing a life, weaving with if/else on scroll_counter',
+  requirements: {
+    required: ['conditional', 'loop'],
+    requiredIdentifiers: ['getVariable'],
+  },
+  maxFrames: 900,
+  hints: [
+    'game.press("up") keeps the ship moving up until you call game.release("up")',
+    'Release the opposite direction before pressing a new one',
+    'Put the if/else inside a loop like lesson 6\'s, before you fire',
+  ],
+  starterCode: `// Weave up and down while you fire, and score 100 points.
+// scroll_counter < 128: fly up
+// otherwise: fly down
+
+for (let i = 0; i < 80; i++) {
+  // Check scroll_counter here and pick a direction
+
+  await game.tap('b');
+  await game.stepFrames(10);
+}
+`,
+  concepts: ['conditionals', 'loops'],
+  unit: 'Conditionals',
+  prerequisites: ['airstriker-lesson-07-survive'],
+  difficulty: 'intermediate',
+  solution: `const target = game.getVariable('score') + 100;
+while (game.getVariable('score') < target) {
+  if (game.getVariable('scroll_counter') < 128) {
+    game.release('down');
+    game.press('up');
+  } else {
+    game.release('up');
+    game.press('down');
+  }
+  await game.tap('b');
+  await game.stepFrames(10);
+}`,
+};
@@ -0,0 +1,87 @@
+import '@vitest/web-worker';
+import { describe, it, expect } from 'vitest';
+import {
+  ChallengeDraft,
+  buildChallengeFromDraft,
+  createChallengeDraft,
+  getDraftGoal,
+  getDraftProblems,
+} from './authoring';
+import { exportChallengeFile, parseChallengeFile } from './challengeFile';
+import { createMockController, sonicPhysics } from '../testing';
+import { verifyChallenge } from './challengeHarness';
+
+function makeDraft(extra: Partial<ChallengeDraft> = {}): ChallengeDraft {
+  return {
+    ...createChallengeDraft('SonicTheHedgehog2-Genesis', 20),
+    id: 'draft-run',
+    name: 'Run',
+    description: 'Run **right**',
+    conditions: [{ variable: 'x', op: 'greater-than', reference: 200, measurement: 'absolute' }],
+    maxFrames: 300,
+    hints: ['Hold right', ''],
+    starterCode: `await game.hold('right', 10);`,
+    solution: `await game.hold('right', 120);`,
+    ...extra,
+  };
+}
+
+describe('challenge drafts', () => {
+  it('lists what is missing from a new draft', () => {
+    expect(getDraftProblems(createChallengeDraft('SonicTheHedgehog2-Genesis'))).toEqual([
+      'ID must be lowercase letters, digits and dashes (e.g., "sonic-extra-01")',
+      'Name is required',
+      'Description is required',
+      'Add at least one goal condition',
+      'A solution is required to test the challenge',
+    ]);
+  });
+
+  it('reports bad conditions', () => {
+    const draft = makeDraft({
+      conditions: [{ variable: '', op: 'equal', reference: NaN, measurement: 'absolute' }],
+    });
+    expect(getDraftProblems(draft)).toEqual([
+      'Goal condition 1: pick a variable',
+      'Goal condition 1: value must be a number',
+    ]);
+    expect(() => buildChallengeFromDraft(draft)).toThrow('Challenge draft is incomplete');
+  });
+
+  it('combines several conditions', () => {
+    const draft = makeDraft({
+      combine: 'any',
+      conditions: [
+        { variable: 'x', op: 'greater-than', reference: 200, measurement: 'absolute' },
+        { variable: 'y', op: 'less-than', reference: -50, measurement: 'start-delta' },
+      ],
+    });
+    expect(getDraftGoal(draft)).toEqual({
+      type: 'any',
+      goals: [
+        { type: 'condition', variable: 'x', op: 'greater-than', reference: 200, measurement: 'absolute' },
+        { type: 'condition', variable: 'y', op: 'less-than', reference: -50, measurement: 'start-delta' },
+      ],
+    });
+  });
+
+  it('builds a challenge that verifies from a captured state', async () => {
+    const controller = await createMockController({ physics: sonicPhysics });
+    controller.loadGameData('SonicTheHedgehog2-Genesis');
+    const challenge = buildChallengeFromDraft(makeDraft({ initialState: controller.saveState() }));
+    expect(challenge.hints).toEqual(['Hold right']);
+
+    const { problems } = await verifyChallenge(controller, challenge);
+    expect(problems).toEqual([]);
+  });
+
+  it('exports a package that loads back with its start state', () => {
+    const initialState = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    const challenge = buildChallengeFromDraft(makeDraft({ initialState }));
+    const text = exportChallengeFile([challenge]);
+    expect(JSON.parse(text).initialState).toBe('AAEC/f7/');
+
+    const [loaded] = parseChallengeFile(text, 'draft-run.json').challenges;
+    expect(loaded).toEqual(challenge);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Challenge Authoring - Build challenges from a form
+ *
+ * A ChallengeDraft holds what a teacher fills in on the authoring panel: a
+ * captured start state, goal conditions on the game's data.json variables,
+ * and the text of the challenge. buildChallengeFromDraft() turns it into a
+ * Challenge that runs like any other and can be exported as a challenge file.
+ */
+
+import { GameId, ScenarioOp } from '../data/types';
+import { Challenge, ConditionGoal, GoalMeasurement, GoalSpec, ProgrammingConcept } from './types';
+
+/**
+ * One goal condition picked on the authoring panel
+ */
+export interface DraftCondition {
+  /** Variable name from data.json */
+  variable: string;
+
+  op: ScenarioOp;
+
+  /** Number to compare against */
+  reference: number;
+
+  measurement: GoalMeasurement;
+}
+
+/**
+ * A challenge being written on the authoring panel
+ */
+export interface ChallengeDraft {
+  id: string;
+  name: string;
+  lessonNumber: number;
+  game: GameId;
+
+  /** Captured save state to start from (else the game's named state) */
+  initialState?: Uint8Array;
+
+  /** Markdown description */
+  description: string;
+
+  /** Goal conditions */
+  conditions: DraftCondition[];
+
+  /** Whether all conditions must hold on the same frame, or any one */
+  combine: 'all' | 'any';
+
+  maxFrames: number;
+  hints: string[];
+  starterCode: string;
+  solution: string;
+  concepts: ProgrammingConcept[];
+}
+
+/**
+ * Create an empty draft for a game
+ *
+ * @param game - Game the challenge is for
+ * @param lessonNumber - Lesson number to suggest (e.g., one past the last)
+ */
+export function createChallengeDraft(game: GameId, lessonNumber: number = 1): ChallengeDraft {
+  return {
+    id: '',
+    name: '',
+    lessonNumber,
+    game,
+    description: '',
+    conditions: [],
+    combine: 'all',
+    maxFrames: 600,
+    hints: [],
+    starterCode: '',
+    solution: '',
+    concepts: [],
+  };
+}
+
+/**
+ * Build the goal for a draft's conditions
+ */
+export function getDraftGoal(draft: ChallengeDraft): GoalSpec {
+  const goals = draft.conditions.map((condition): ConditionGoal => ({
+    type: 'condition',
+    variable: condition.variable,
+    op: condition.op,
+    reference: condition.reference,
+    measurement: condition.measurement,
+  }));
+  return goals.length === 1 ? goals[0] : { type: draft.combine, goals };
+}
+
+/**
+ * Find what still has to be filled in before a draft can be built
+ *
+ * @returns A description of each problem (empty if the draft is complete)
+ */
+export function getDraftProblems(draft: ChallengeDraft): string[] {
+  const problems: string[] = [];
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(draft.id)) {
+    problems.push('ID must be lowercase letters, digits and dashes (e.g., "sonic-extra-01")');
+  }
+  if (!draft.name.trim()) {
+    problems.push('Name is required');
+  }
+  if (!draft.description.trim()) {
+    problems.push('Description is required');
+  }
+  if (draft.conditions.length === 0) {
+    problems.push('Add at least one goal condition');
+  }
+  draft.conditions.forEach((condition, index) => {
+    if (!condition.variable) {
+      problems.push(`Goal condition ${index + 1}: pick a variable`);
+    }
+    if (!Number.isFinite(condition.reference)) {
+      problems.push(`Goal condition ${index + 1}: value must be a number`);
+    }
+  });
+  if (!Number.isInteger(draft.maxFrames) || draft.maxFrames < 1) {
+    problems.push('Max frames must be a positive whole number');
+  }
+  if (!draft.solution.trim()) {
+    problems.push('A solution is required to test the challenge');
+  }
+  return problems;
+}
+
+/**
+ * Build a Challenge from a complete draft
+ *
+ * Empty hints are dropped.
+ *
+ * @throws If the draft has problems (see getDraftProblems())
+ */
+export function buildChallengeFromDraft(draft: ChallengeDraft): Challenge {
+  const problems = getDraftProblems(draft);
+  if (problems.length > 0) {
+    throw new Error(`Challenge draft is incomplete:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+  }
+
+  return {
+    id: draft.id,
+    lessonNumber: draft.lessonNumber,
+    name: draft.name.trim(),
+    description: draft.description,
+    game: draft.game,
+    ...(draft.initialState ? { initialState: draft.initialState } : {}),
+    goal: getDraftGoal(draft),
+    maxFrames: draft.maxFrames,
+    hints: draft.hints.map(hint => hint.trim()).filter(hint => hint !== ''),
+    starterCode: draft.starterCode,
+    solution: draft.solution,
+    concepts: draft.concepts,
+  };
+}
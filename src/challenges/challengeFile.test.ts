@@ -0,0 +1,257 @@
+import '@vitest/web-worker';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  challengeToFile,
+  exportChallengeFile,
+  loadChallengesFromFile,
+  loadChallengesFromUrl,
+  parseChallengeFile,
+  scenarioDoneToGoal,
+} from './challengeFile';
+import { clearChallenges, getChallenge, getTrack } from './registry';
+import { createMockController, sonicPhysics } from '../testing';
+import { verifyChallenge } from './challengeHarness';
+
+const JUMP_YAML = `
+id: file-jump-high
+lessonNumber: 10
+name: Jump Higher
+game: SonicTheHedgehog2-Genesis
+state: EmeraldHillZone.Act1
+description: |
+  Make Sonic jump so his **y** goes below 300.
+goal:
+  variables:
+    y: { op: less-than, reference: 300 }
+maxFrames: 300
+hints:
+  - Hold the jump button longer
+starterCode: |
+  await game.tap('a');
+solution: |
+  await game.hold('a', 30);
+concepts: [sequences]
+`;
+
+const PACK_JSON = JSON.stringify({
+  challenges: [
+    {
+      id: 'file-run',
+      lessonNumber: 11,
+      name: 'Run',
+      description: 'Run right',
+      game: 'SonicTheHedgehog2-Genesis',
+      goal: {
+        type: 'within',
+        frames: 200,
+        goal: { type: 'condition', variable: 'x', op: 'greater-than', reference: 200 },
+      },
+      maxFrames: 300,
+      starterCode: '',
+    },
+    {
+      id: 'file-run-again',
+      lessonNumber: 12,
+      name: 'Run Again',
+      description: 'Run right again',
+      game: 'SonicTheHedgehog2-Genesis',
+      goal: { type: 'condition', variable: 'x', op: 'greater-than', reference: 400 },
+      maxFrames: 300,
+      starterCode: '',
+      prerequisites: ['file-run'],
+    },
+  ],
+  tracks: [{ id: 'class-week-1', name: 'Week 1', units: [{ name: 'Running', challengeIds: ['file-run', 'file-run-again'] }] }],
+});
+
+/** Error message from parsing a file */
+function parseError(text: string, source: string = 'test.yaml'): string {
+  try {
+    parseChallengeFile(text, source);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  throw new Error('Expected the file to be rejected');
+}
+
+describe('scenarioDoneToGoal', () => {
+  it('converts a single condition', () => {
+    expect(scenarioDoneToGoal({ variables: { x: { op: 'greater-than', reference: 500 } } })).toEqual({
+      type: 'condition', variable: 'x', op: 'greater-than', reference: 500, measurement: 'absolute',
+    });
+  });
+
+  it('follows Stable Retro defaults', () => {
+    expect(scenarioDoneToGoal({ variables: { lives: { delta: true }, level_end_bonus: {} } })).toEqual({
+      type: 'any',
+      goals: [
+        { type: 'condition', variable: 'lives', op: 'nonzero', measurement: 'delta' },
+        { type: 'condition', variable: 'level_end_bonus', op: 'nonzero', measurement: 'absolute' },
+      ],
+    });
+  });
+
+  it('combines with "all" when asked', () => {
+    const goal = scenarioDoneToGoal({ condition: 'all', variables: { x: {}, y: {} } });
+    expect(goal.type).toBe('all');
+  });
+});
+
+describe('parseChallengeFile', () => {
+  it('reads a YAML challenge', () => {
+    const { challenges, tracks } = parseChallengeFile(JUMP_YAML, 'jump.yaml');
+    expect(tracks).toEqual([]);
+    expect(challenges).toHaveLength(1);
+    expect(challenges[0]).toMatchObject({
+      id: 'file-jump-high',
+      state: 'EmeraldHillZone.Act1',
+      description: 'Make Sonic jump so his **y** goes below 300.\n',
+      goal: { type: 'condition', variable: 'y', op: 'less-than', reference: 300 },
+      hints: ['Hold the jump button longer'],
+      concepts: ['sequences'],
+    });
+  });
+
+  it('reads a JSON pack, defaulting hints and concepts', () => {
+    const { challenges, tracks } = parseChallengeFile(PACK_JSON, 'week1.json');
+    expect(challenges.map(c => c.id)).toEqual(['file-run', 'file-run-again']);
+    expect(challenges[0].goal).toMatchObject({ type: 'within', frames: 200 });
+    expect(challenges[0].hints).toEqual([]);
+    expect(challenges[0].concepts).toEqual([]);
+    expect(tracks[0].id).toBe('class-week-1');
+  });
+
+  it('lists every problem by field path', () => {
+    const message = parseError(`
+id: broken
+lessonNumber: 1
+name: Broken
+description: ''
+game: SonicTheHedgehog2-Genesis
+goal:
+  variables:
+    x: { op: bigger-than, reference: 500 }
+    speed: {}
+maxFrames: -5
+starter_code: ''
+concepts: [recursion]
+`);
+    expect(message).toContain('test.yaml: invalid challenge file');
+    expect(message).toContain('description: must be a non-empty string');
+    expect(message).toContain('starterCode: is required');
+    expect(message).toContain('starter_code: unknown field');
+    expect(message).toContain('maxFrames: must be a positive integer, got -5');
+    expect(message).toContain('goal.variables.x.op: must be one of equal, not-equal');
+    expect(message).toContain('goal.variables.speed: unknown variable "speed" for SonicTheHedgehog2-Genesis');
+    expect(message).toContain('concepts[0]: must be one of variables');
+  });
+
+  it('rejects predicate goals and unknown goal types', () => {
+    const challenge = (goal: unknown) => JSON.stringify({
+      id: 'c', lessonNumber: 1, name: 'C', description: 'C', game: 'SonicTheHedgehog2-Genesis',
+      goal, maxFrames: 60, starterCode: '',
+    });
+    expect(parseError(challenge({ type: 'predicate' }), 'c.json')).toContain('goal.type: predicate goals need code');
+    expect(parseError(challenge({ type: 'all', goals: [{ type: 'eventually' }] }), 'c.json'))
+      .toContain('goal.goals[0].type: must be one of condition, all');
+    expect(parseError(challenge({ type: 'within', goal: { type: 'after', frames: 10 } }), 'c.json'))
+      .toContain('goal.frames: is required');
+  });
+
+  it('rejects unknown games and duplicate IDs in a pack', () => {
+    const pack = JSON.parse(PACK_JSON);
+    pack.challenges[1].id = 'file-run';
+    pack.challenges[1].game = 'NotAGame-Genesis';
+    const message = parseError(JSON.stringify(pack), 'pack.json');
+    expect(message).toContain('challenges[1].id: duplicate challenge ID "file-run"');
+    expect(message).toContain('challenges[1].game: unknown game "NotAGame-Genesis"');
+  });
+
+  it('reports syntax errors', () => {
+    expect(parseError('{ "id": ', 'c.json')).toMatch(/^c\.json: not valid JSON/);
+    expect(parseError('id: [unclosed', 'c.yaml')).toMatch(/^c\.yaml: not valid YAML/);
+  });
+});
+
+describe('exporting challenge files', () => {
+  it('writes several challenges and tracks as a pack', () => {
+    const { challenges, tracks } = parseChallengeFile(PACK_JSON, 'week1.json');
+    const text = exportChallengeFile(challenges, tracks);
+    expect(parseChallengeFile(text, 'copy.json')).toEqual({ challenges, tracks });
+  });
+
+  it('refuses goals that need code', () => {
+    const [challenge] = parseChallengeFile(JUMP_YAML, 'jump.yaml').challenges;
+    expect(() => challengeToFile({ ...challenge, goal: (state) => state.y < 300 }))
+      .toThrow('file-jump-high: only declarative goals');
+    expect(() => challengeToFile({
+      ...challenge,
+      goal: { type: 'not', goal: { type: 'predicate', test: () => true } },
+    })).toThrow('only declarative goals');
+  });
+
+  it('rejects a start state that is not base64', () => {
+    const file = JSON.parse(exportChallengeFile(parseChallengeFile(JUMP_YAML).challenges));
+    const text = JSON.stringify({ ...file, initialState: 'not base64!' });
+    expect(parseError(text, 'c.json')).toContain('initialState: must be a base64-encoded save state');
+  });
+
+  it('keeps setup values and refuses setup functions', () => {
+    const [challenge] = parseChallengeFile(`${JUMP_YAML}setup: { lives: 1, rings: 50 }\n`).challenges;
+    expect(challenge.setup).toEqual({ lives: 1, rings: 50 });
+    expect(parseChallengeFile(exportChallengeFile([challenge]), 'c.json').challenges[0].setup)
+      .toEqual({ lives: 1, rings: 50 });
+
+    expect(() => challengeToFile({ ...challenge, setup: () => {} }))
+      .toThrow('file-jump-high: only setup given as variable values');
+  });
+
+  it('rejects setup for unknown variables or with non-numeric values', () => {
+    const message = parseError(`${JUMP_YAML}setup: { health: 3, rings: lots }\n`);
+    expect(message).toContain('setup.health: unknown variable "health"');
+    expect(message).toContain('setup.rings: must be a number, got "lots"');
+  });
+});
+
+describe('loading challenge files', () => {
+  beforeEach(() => {
+    clearChallenges();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('registers challenges and tracks from a file', async () => {
+    await loadChallengesFromFile({ name: 'week1.json', text: async () => PACK_JSON });
+    expect(getChallenge('file-run-again')?.prerequisites).toEqual(['file-run']);
+    expect(getTrack('class-week-1')?.units[0].challengeIds).toHaveLength(2);
+  });
+
+  it('registers nothing from an invalid file', async () => {
+    const broken = PACK_JSON.replace('"maxFrames":300', '"maxFrames":0');
+    await expect(loadChallengesFromFile({ name: 'week1.json', text: async () => broken }))
+      .rejects.toThrow('challenges[0].maxFrames');
+    expect(getChallenge('file-run-again')).toBeUndefined();
+  });
+
+  it('fetches challenges from a URL', async () => {
+    const fetchMock = vi.fn(async () => new Response(JUMP_YAML));
+    vi.stubGlobal('fetch', fetchMock);
+    await loadChallengesFromUrl('/challenges/jump.yaml?v=2');
+    expect(fetchMock).toHaveBeenCalledWith('/challenges/jump.yaml?v=2');
+    expect(getChallenge('file-jump-high')?.name).toBe('Jump Higher');
+  });
+
+  it('reports failed fetches', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+    await expect(loadChallengesFromUrl('/missing.yaml')).rejects.toThrow('Failed to fetch /missing.yaml: 404');
+  });
+
+  it('runs a file challenge like a code-defined one', async () => {
+    const controller = await createMockController({ physics: sonicPhysics });
+    const [challenge] = parseChallengeFile(JUMP_YAML, 'jump.yaml').challenges;
+    const { problems } = await verifyChallenge(controller, challenge, { startState: controller.saveState() });
+    expect(problems).toEqual([]);
+  });
+});
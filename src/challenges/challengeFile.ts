@@ -0,0 +1,824 @@
+/**
+ * Challenge Files - Challenges written in JSON or YAML
+ *
+ * Lets teachers add challenges without writing TypeScript. A challenge file
+ * has the same fields as a code-defined Challenge, except that the goal must
+ * be declarative: either a scenario.json-style done block or a GoalSpec tree
+ * (without predicates, which need code), and a captured initialState is
+ * base64 text. A file can hold one challenge, or a pack of challenges and
+ * tracks.
+ *
+ * @example
+ * # jump-high.yaml
+ * id: sonic-extra-jump-high
+ * lessonNumber: 10
+ * name: Jump Higher
+ * game: SonicTheHedgehog2-Genesis
+ * state: EmeraldHillZone.Act1
+ * description: |
+ *   Make Sonic jump so his **y** goes below 280.
+ * goal:
+ *   variables:
+ *     y: { op: less-than, reference: 280 }
+ * maxFrames: 300
+ * hints:
+ *   - Hold the jump button longer
+ * starterCode: |
+ *   await game.tap('a');
+ * solution: |
+ *   await game.hold('a', 30);
+ * concepts: [sequences]
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { isGameAvailable, loadDataJson } from '../data/parser';
+import { ScenarioCondition, ScenarioDone, ScenarioOp } from '../data/types';
+import { CODE_CONSTRUCT_LABELS } from '../sandbox/types';
+import { registerChallenges, registerTrack } from './registry';
+import {
+  Challenge,
+  ChallengeDifficulty,
+  ChallengeTrack,
+  ConditionGoal,
+  GoalMeasurement,
+  GoalSpec,
+  ProgrammingConcept,
+} from './types';
+
+/**
+ * Goal in a challenge file: a scenario.json done block, or a GoalSpec tree
+ * without predicates
+ */
+export type ChallengeFileGoal = ScenarioDone | GoalSpec;
+
+/**
+ * A challenge as written in a challenge file
+ */
+export interface ChallengeFile extends Omit<Challenge, 'goal' | 'initialState' | 'setup' | 'hints' | 'concepts'> {
+  goal: ChallengeFileGoal;
+
+  /** Save state to start from, base64 encoded */
+  initialState?: string;
+
+  /** Values to write to variables after the start state is loaded */
+  setup?: Record<string, number>;
+
+  /** Hints (default: none) */
+  hints?: string[];
+
+  /** Programming concepts (default: none) */
+  concepts?: ProgrammingConcept[];
+}
+
+/**
+ * Several challenges in one file, with optional hand-made tracks
+ */
+export interface ChallengePackFile {
+  challenges: ChallengeFile[];
+  tracks?: ChallengeTrack[];
+}
+
+/**
+ * Challenges and tracks read from a challenge file
+ */
+export interface ChallengePack {
+  challenges: Challenge[];
+  tracks: ChallengeTrack[];
+}
+
+// ==================== Allowed values ====================
+
+const SCENARIO_OPS: Record<ScenarioOp, true> = {
+  'equal': true,
+  'not-equal': true,
+  'less-than': true,
+  'greater-than': true,
+  'less-or-equal': true,
+  'greater-or-equal': true,
+  'zero': true,
+  'nonzero': true,
+  'positive': true,
+  'negative': true,
+};
+
+const GOAL_MEASUREMENTS: Record<GoalMeasurement, true> = {
+  'absolute': true,
+  'delta': true,
+  'start-delta': true,
+};
+
+const CONCEPTS: Record<ProgrammingConcept, true> = {
+  'variables': true,
+  'functions': true,
+  'loops': true,
+  'conditionals': true,
+  'arrays': true,
+  'objects': true,
+  'async': true,
+  'while-loops': true,
+  'for-loops': true,
+  'sequences': true,
+  'expressions': true,
+};
+
+const DIFFICULTIES: Record<ChallengeDifficulty, true> = {
+  'beginner': true,
+  'intermediate': true,
+  'advanced': true,
+};
+
+/** Fields allowed in a challenge */
+const CHALLENGE_FIELDS: readonly string[] = [
+  'id', 'lessonNumber', 'name', 'description', 'game', 'state', 'initialState', 'setup', 'goal', 'maxFrames',
+  'hints', 'starterCode', 'concepts', 'difficulty', 'solution', 'goalDescription',
+  'goalThresholds', 'requirements', 'prerequisites', 'unit',
+];
+
+/** Fields allowed in each goal node type (besides "type" and "label") */
+const GOAL_FIELDS: Record<Exclude<GoalSpec['type'], 'predicate'>, readonly string[]> = {
+  condition: ['variable', 'op', 'reference', 'measurement'],
+  all: ['goals'],
+  any: ['goals'],
+  not: ['goal'],
+  sequence: ['steps'],
+  within: ['frames', 'goal'],
+  never: ['goal'],
+  after: ['frames'],
+};
+
+// ==================== Validation ====================
+
+type FileObject = Record<string, unknown>;
+
+/**
+ * Collects problems found in a challenge file, each prefixed with the path
+ * of the field it's about (e.g., "challenges[1].goal.variables.x.op")
+ */
+class FileProblems {
+  readonly list: string[] = [];
+
+  add(path: string, message: string): void {
+    this.list.push(path ? `${path}: ${message}` : message);
+  }
+}
+
+/**
+ * Append a key or index to a field path
+ */
+function fieldPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function isObject(value: unknown): value is FileObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * List allowed values for error messages
+ */
+function listOf(values: Record<string, true>): string {
+  return Object.keys(values).join(', ');
+}
+
+/**
+ * Report fields that aren't in the allowed list (usually typos)
+ */
+function checkFields(
+  object: FileObject,
+  allowed: readonly string[],
+  path: string,
+  problems: FileProblems
+): void {
+  for (const key of Object.keys(object)) {
+    if (!allowed.includes(key)) {
+      problems.add(fieldPath(path, key), 'unknown field');
+    }
+  }
+}
+
+function checkString(
+  object: FileObject,
+  key: string,
+  path: string,
+  problems: FileProblems,
+  required: boolean
+): void {
+  const value = object[key];
+  if (value === undefined) {
+    if (required) problems.add(fieldPath(path, key), 'is required');
+  } else if (typeof value !== 'string' || (required && value.trim() === '')) {
+    problems.add(fieldPath(path, key), 'must be a non-empty string');
+  }
+}
+
+function checkStringList(object: FileObject, key: string, path: string, problems: FileProblems): void {
+  const value = object[key];
+  if (value !== undefined && (!Array.isArray(value) || !value.every(item => typeof item === 'string'))) {
+    problems.add(fieldPath(path, key), 'must be a list of strings');
+  }
+}
+
+function checkPositiveInteger(
+  object: FileObject,
+  key: string,
+  path: string,
+  problems: FileProblems,
+  required: boolean
+): void {
+  const value = object[key];
+  if (value === undefined) {
+    if (required) problems.add(fieldPath(path, key), 'is required');
+  } else if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    problems.add(fieldPath(path, key), `must be a positive integer, got ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * Check a value is one of a set of names
+ */
+function checkOneOf(
+  value: unknown,
+  allowed: Record<string, true>,
+  path: string,
+  problems: FileProblems
+): void {
+  if (typeof value !== 'string' || !Object.prototype.hasOwnProperty.call(allowed, value)) {
+    problems.add(path, `must be one of ${listOf(allowed)}, got ${JSON.stringify(value)}`);
+  }
+}
+
+function checkReference(object: FileObject, path: string, problems: FileProblems): void {
+  const reference = object.reference;
+  if (reference !== undefined && typeof reference !== 'number' && typeof reference !== 'string') {
+    problems.add(fieldPath(path, 'reference'), 'must be a number or a variable name');
+  }
+}
+
+/**
+ * Check a scenario.json done block
+ */
+function validateScenarioDone(
+  done: FileObject,
+  path: string,
+  problems: FileProblems,
+  checkVariable: (name: string, path: string) => void
+): void {
+  checkFields(done, ['variables', 'condition'], path, problems);
+  if (done.condition !== undefined && done.condition !== 'any' && done.condition !== 'all') {
+    problems.add(fieldPath(path, 'condition'), `must be "any" or "all", got ${JSON.stringify(done.condition)}`);
+  }
+
+  const variablesPath = fieldPath(path, 'variables');
+  if (!isObject(done.variables) || Object.keys(done.variables).length === 0) {
+    problems.add(variablesPath, 'must map at least one variable name to a condition');
+    return;
+  }
+
+  for (const [name, condition] of Object.entries(done.variables)) {
+    const conditionPath = fieldPath(variablesPath, name);
+    checkVariable(name, conditionPath);
+    if (!isObject(condition)) {
+      problems.add(conditionPath, 'must be a condition like { op: greater-than, reference: 100 }');
+      continue;
+    }
+    checkFields(condition, ['op', 'reference', 'reward', 'penalty', 'measurement', 'delta'], conditionPath, problems);
+    if (condition.op !== undefined) {
+      checkOneOf(condition.op, SCENARIO_OPS, fieldPath(conditionPath, 'op'), problems);
+    }
+    checkReference(condition, conditionPath, problems);
+    if (condition.measurement !== undefined && condition.measurement !== 'absolute' && condition.measurement !== 'delta') {
+      problems.add(fieldPath(conditionPath, 'measurement'), `must be "absolute" or "delta", got ${JSON.stringify(condition.measurement)}`);
+    }
+    if (condition.delta !== undefined && typeof condition.delta !== 'boolean') {
+      problems.add(fieldPath(conditionPath, 'delta'), 'must be true or false');
+    }
+    for (const key of ['reward', 'penalty']) {
+      if (condition[key] !== undefined && typeof condition[key] !== 'number') {
+        problems.add(fieldPath(conditionPath, key), 'must be a number');
+      }
+    }
+  }
+}
+
+/**
+ * Check a GoalSpec tree
+ */
+function validateGoalSpec(
+  goal: FileObject,
+  path: string,
+  problems: FileProblems,
+  checkVariable: (name: string, path: string) => void
+): void {
+  const type = goal.type;
+  if (type === 'predicate') {
+    problems.add(fieldPath(path, 'type'), 'predicate goals need code; use condition goals in challenge files');
+    return;
+  }
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(GOAL_FIELDS, type)) {
+    problems.add(fieldPath(path, 'type'), `must be one of ${Object.keys(GOAL_FIELDS).join(', ')}, got ${JSON.stringify(type)}`);
+    return;
+  }
+
+  const goalType = type as keyof typeof GOAL_FIELDS;
+  checkFields(goal, ['type', 'label', ...GOAL_FIELDS[goalType]], path, problems);
+  checkString(goal, 'label', path, problems, false);
+
+  const child = (key: string) => validateGoal(goal[key], fieldPath(path, key), problems, checkVariable);
+  const children = (key: string) => {
+    const list = goal[key];
+    if (!Array.isArray(list) || list.length === 0) {
+      problems.add(fieldPath(path, key), 'must be a non-empty list of goals');
+      return;
+    }
+    list.forEach((item, index) =>
+      validateGoal(item, fieldPath(fieldPath(path, key), index), problems, checkVariable)
+    );
+  };
+
+  switch (goalType) {
+    case 'condition':
+      checkString(goal, 'variable', path, problems, true);
+      if (typeof goal.variable === 'string') {
+        checkVariable(goal.variable, fieldPath(path, 'variable'));
+      }
+      if (goal.op !== undefined) {
+        checkOneOf(goal.op, SCENARIO_OPS, fieldPath(path, 'op'), problems);
+      }
+      checkReference(goal, path, problems);
+      if (goal.measurement !== undefined) {
+        checkOneOf(goal.measurement, GOAL_MEASUREMENTS, fieldPath(path, 'measurement'), problems);
+      }
+      break;
+    case 'all':
+    case 'any':
+      children('goals');
+      break;
+    case 'sequence':
+      children('steps');
+      break;
+    case 'not':
+    case 'never':
+      child('goal');
+      break;
+    case 'within':
+      checkPositiveInteger(goal, 'frames', path, problems, true);
+      child('goal');
+      break;
+    case 'after':
+      checkPositiveInteger(goal, 'frames', path, problems, true);
+      break;
+  }
+}
+
+/**
+ * Check a goal: a GoalSpec node if it has a "type", else a done block
+ */
+function validateGoal(
+  goal: unknown,
+  path: string,
+  problems: FileProblems,
+  checkVariable: (name: string, path: string) => void
+): void {
+  if (!isObject(goal)) {
+    problems.add(path, 'must be a goal, e.g. { variables: { x: { op: greater-than, reference: 500 } } }');
+  } else if ('type' in goal) {
+    validateGoalSpec(goal, path, problems, checkVariable);
+  } else {
+    validateScenarioDone(goal, path, problems, checkVariable);
+  }
+}
+
+/**
+ * Check a challenge's code requirements
+ */
+function validateRequirements(requirements: unknown, path: string, problems: FileProblems): void {
+  if (!isObject(requirements)) {
+    problems.add(path, 'must be an object');
+    return;
+  }
+  checkFields(requirements, ['required', 'forbidden', 'maxStatements', 'requiredIdentifiers'], path, problems);
+  const constructs = Object.fromEntries(Object.keys(CODE_CONSTRUCT_LABELS).map(c => [c, true as const]));
+  for (const key of ['required', 'forbidden']) {
+    const list = requirements[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      problems.add(fieldPath(path, key), `must be a list of ${listOf(constructs)}`);
+      continue;
+    }
+    list.forEach((item, index) => checkOneOf(item, constructs, fieldPath(fieldPath(path, key), index), problems));
+  }
+  checkPositiveInteger(requirements, 'maxStatements', path, problems, false);
+  checkStringList(requirements, 'requiredIdentifiers', path, problems);
+}
+
+/**
+ * Check one challenge's fields
+ */
+function validateChallengeFields(data: unknown, path: string, problems: FileProblems): void {
+  if (!isObject(data)) {
+    problems.add(path, 'must be a challenge object');
+    return;
+  }
+
+  checkFields(data, CHALLENGE_FIELDS, path, problems);
+  for (const key of ['id', 'name', 'description', 'game']) {
+    checkString(data, key, path, problems, true);
+  }
+  // Starter code may be empty (a blank editor)
+  if (typeof data.starterCode !== 'string') {
+    problems.add(fieldPath(path, 'starterCode'), data.starterCode === undefined ? 'is required' : 'must be a string');
+  }
+  for (const key of ['state', 'solution', 'goalDescription', 'unit']) {
+    checkString(data, key, path, problems, false);
+  }
+  if (data.initialState !== undefined &&
+      (typeof data.initialState !== 'string' || !BASE64_PATTERN.test(data.initialState))) {
+    problems.add(fieldPath(path, 'initialState'), 'must be a base64-encoded save state');
+  }
+  if (typeof data.lessonNumber !== 'number' || !Number.isFinite(data.lessonNumber)) {
+    problems.add(fieldPath(path, 'lessonNumber'), data.lessonNumber === undefined ? 'is required' : 'must be a number');
+  }
+  checkPositiveInteger(data, 'maxFrames', path, problems, true);
+  checkStringList(data, 'hints', path, problems);
+  checkStringList(data, 'prerequisites', path, problems);
+
+  if (data.concepts !== undefined) {
+    if (!Array.isArray(data.concepts)) {
+      problems.add(fieldPath(path, 'concepts'), `must be a list of ${listOf(CONCEPTS)}`);
+    } else {
+      data.concepts.forEach((concept, index) =>
+        checkOneOf(concept, CONCEPTS, fieldPath(fieldPath(path, 'concepts'), index), problems)
+      );
+    }
+  }
+  if (data.difficulty !== undefined) {
+    checkOneOf(data.difficulty, DIFFICULTIES, fieldPath(path, 'difficulty'), problems);
+  }
+  if (data.requirements !== undefined) {
+    validateRequirements(data.requirements, fieldPath(path, 'requirements'), problems);
+  }
+
+  // Variable names can only be checked once the game's data is loaded
+  const game = typeof data.game === 'string' ? data.game : undefined;
+  let variables: Set<string> | undefined;
+  if (game !== undefined && !isGameAvailable(game)) {
+    problems.add(fieldPath(path, 'game'), `unknown game "${game}" (load its data before its challenges)`);
+  } else if (game !== undefined) {
+    variables = new Set(Object.keys(loadDataJson(game).info));
+  }
+  const checkVariable = (name: string, variablePath: string) => {
+    if (variables && !variables.has(name)) {
+      problems.add(variablePath, `unknown variable "${name}" for ${game}`);
+    }
+  };
+
+  if (data.setup !== undefined) {
+    const setupPath = fieldPath(path, 'setup');
+    if (!isObject(data.setup)) {
+      problems.add(setupPath, 'must map variable names to values, e.g. { lives: 1 }');
+    } else {
+      for (const [name, value] of Object.entries(data.setup)) {
+        checkVariable(name, fieldPath(setupPath, name));
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          problems.add(fieldPath(setupPath, name), `must be a number, got ${JSON.stringify(value)}`);
+        }
+      }
+    }
+  }
+
+  if (data.goal === undefined) {
+    problems.add(fieldPath(path, 'goal'), 'is required');
+  } else {
+    validateGoal(data.goal, fieldPath(path, 'goal'), problems, checkVariable);
+  }
+
+  if (data.goalThresholds !== undefined) {
+    const thresholdsPath = fieldPath(path, 'goalThresholds');
+    if (!Array.isArray(data.goalThresholds)) {
+      problems.add(thresholdsPath, 'must be a list of { variable, value }');
+    } else {
+      data.goalThresholds.forEach((threshold, index) => {
+        const thresholdPath = fieldPath(thresholdsPath, index);
+        if (!isObject(threshold) || typeof threshold.variable !== 'string' || typeof threshold.value !== 'number') {
+          problems.add(thresholdPath, 'must be { variable, value }');
+        } else {
+          checkVariable(threshold.variable, fieldPath(thresholdPath, 'variable'));
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Check a hand-made track's fields
+ */
+function validateTrackFields(data: unknown, path: string, problems: FileProblems): void {
+  if (!isObject(data)) {
+    problems.add(path, 'must be a track object');
+    return;
+  }
+  checkFields(data, ['id', 'name', 'units'], path, problems);
+  checkString(data, 'id', path, problems, true);
+  checkString(data, 'name', path, problems, true);
+  if (!Array.isArray(data.units)) {
+    problems.add(fieldPath(path, 'units'), 'must be a list of { name, challengeIds }');
+    return;
+  }
+  data.units.forEach((unit, index) => {
+    const unitPath = fieldPath(fieldPath(path, 'units'), index);
+    if (!isObject(unit)) {
+      problems.add(unitPath, 'must be { name, challengeIds }');
+      return;
+    }
+    checkFields(unit, ['name', 'challengeIds'], unitPath, problems);
+    checkString(unit, 'name', unitPath, problems, true);
+    if (unit.challengeIds === undefined) {
+      problems.add(fieldPath(unitPath, 'challengeIds'), 'is required');
+    } else {
+      checkStringList(unit, 'challengeIds', unitPath, problems);
+    }
+  });
+}
+
+/**
+ * Throw one error listing every problem, if there are any
+ */
+function throwProblems(problems: FileProblems, source: string): void {
+  if (problems.list.length > 0) {
+    throw new Error(`${source}: invalid challenge file\n${problems.list.map(p => `  - ${p}`).join('\n')}`);
+  }
+}
+
+// ==================== Conversion ====================
+
+/** Base64 text, as written by encodeBase64() */
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/** Bytes per String.fromCharCode() call, to stay under argument limits */
+const BASE64_CHUNK_SIZE = 0x8000;
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Check whether a goal tree contains a predicate, which can't be written to a file
+ */
+function hasPredicate(goal: GoalSpec): boolean {
+  switch (goal.type) {
+    case 'predicate':
+      return true;
+    case 'all':
+    case 'any':
+      return goal.goals.some(hasPredicate);
+    case 'sequence':
+      return goal.steps.some(hasPredicate);
+    case 'not':
+    case 'within':
+    case 'never':
+      return hasPredicate(goal.goal);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert a scenario.json done block to a GoalSpec
+ *
+ * Follows Stable Retro's rules: conditions are combined with "any" unless
+ * the block says "all", variables are measured as absolute values unless
+ * the condition says otherwise, and the op defaults to "nonzero".
+ *
+ * @example
+ * scenarioDoneToGoal({ variables: { x: { op: 'greater-than', reference: 500 } } })
+ * // { type: 'condition', variable: 'x', op: 'greater-than', reference: 500, measurement: 'absolute' }
+ */
+export function scenarioDoneToGoal(done: ScenarioDone): GoalSpec {
+  const goals = Object.entries(done.variables ?? {}).map(
+    ([variable, condition]: [string, ScenarioCondition]): ConditionGoal => ({
+      type: 'condition',
+      variable,
+      op: condition.op ?? 'nonzero',
+      ...(condition.reference !== undefined ? { reference: condition.reference } : {}),
+      measurement: condition.measurement ?? (condition.delta ? 'delta' : 'absolute'),
+    })
+  );
+  if (goals.length === 1) {
+    return goals[0];
+  }
+  return { type: done.condition === 'all' ? 'all' : 'any', goals };
+}
+
+/**
+ * Turn a validated challenge file entry into a Challenge
+ */
+function toChallenge(file: ChallengeFile): Challenge {
+  const { initialState, ...fields } = file;
+  const goal = 'type' in file.goal ? file.goal : scenarioDoneToGoal(file.goal);
+  return {
+    ...fields,
+    goal,
+    hints: file.hints ?? [],
+    concepts: file.concepts ?? [],
+    ...(initialState !== undefined ? { initialState: decodeBase64(initialState) } : {}),
+  };
+}
+
+/**
+ * Convert a challenge to its challenge file form
+ *
+ * @throws If the goal or setup is a function, or the goal contains a predicate
+ */
+export function challengeToFile(challenge: Challenge): ChallengeFile {
+  const { goal, initialState, setup, ...fields } = challenge;
+  if (typeof goal === 'function' || hasPredicate(goal)) {
+    throw new Error(`${challenge.id}: only declarative goals without predicates can be saved to a file`);
+  }
+  if (typeof setup === 'function') {
+    throw new Error(`${challenge.id}: only setup given as variable values can be saved to a file`);
+  }
+  return {
+    ...fields,
+    goal,
+    ...(setup !== undefined ? { setup } : {}),
+    ...(initialState !== undefined ? { initialState: encodeBase64(initialState) } : {}),
+  };
+}
+
+/**
+ * Write challenges (and tracks) as the text of a JSON challenge file
+ *
+ * A single challenge without tracks is written on its own; anything else
+ * as a pack.
+ *
+ * @throws If a challenge's goal can't be saved to a file
+ */
+export function exportChallengeFile(challenges: Challenge[], tracks: ChallengeTrack[] = []): string {
+  const files = challenges.map(challengeToFile);
+  const data: ChallengeFile | ChallengePackFile = files.length === 1 && tracks.length === 0
+    ? files[0]
+    : { challenges: files, ...(tracks.length > 0 ? { tracks } : {}) };
+  return JSON.stringify(data, null, 2);
+}
+
+// ==================== Parsing ====================
+
+/**
+ * Parse JSON or YAML text
+ *
+ * Sources ending in ".json" are parsed as JSON; anything else as YAML
+ * (which also accepts JSON).
+ *
+ * @throws If the text isn't valid JSON or YAML
+ */
+function parseText(text: string, source: string): unknown {
+  if (source.toLowerCase().endsWith('.json')) {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new Error(`${source}: not valid JSON: ${(error as Error).message}`);
+    }
+  }
+  try {
+    return parseYaml(text);
+  } catch (error) {
+    throw new Error(`${source}: not valid YAML: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Validate a parsed challenge and convert it to a Challenge
+ *
+ * @param data - Parsed JSON or YAML
+ * @param source - Name used in error messages
+ * @throws An error listing every problem found, by field path
+ */
+export function validateChallengeFile(data: unknown, source: string = 'challenge'): Challenge {
+  const problems = new FileProblems();
+  validateChallengeFields(data, '', problems);
+  throwProblems(problems, source);
+  return toChallenge(data as ChallengeFile);
+}
+
+/**
+ * Validate a parsed challenge file, holding either one challenge or a pack
+ *
+ * @param data - Parsed JSON or YAML
+ * @param source - Name used in error messages
+ * @throws An error listing every problem found, by field path
+ */
+export function validateChallengePack(data: unknown, source: string = 'challenges'): ChallengePack {
+  if (!isObject(data) || !('challenges' in data)) {
+    return { challenges: [validateChallengeFile(data, source)], tracks: [] };
+  }
+
+  const problems = new FileProblems();
+  checkFields(data, ['challenges', 'tracks'], '', problems);
+
+  const files = data.challenges;
+  if (!Array.isArray(files) || files.length === 0) {
+    problems.add('challenges', 'must be a non-empty list of challenges');
+  } else {
+    const ids = new Set<string>();
+    files.forEach((file, index) => {
+      const path = fieldPath('challenges', index);
+      validateChallengeFields(file, path, problems);
+      const id = (file as ChallengeFile | null)?.id;
+      if (typeof id === 'string') {
+        if (ids.has(id)) problems.add(fieldPath(path, 'id'), `duplicate challenge ID "${id}"`);
+        ids.add(id);
+      }
+    });
+  }
+
+  if (data.tracks !== undefined) {
+    if (!Array.isArray(data.tracks)) {
+      problems.add('tracks', 'must be a list of tracks');
+    } else {
+      data.tracks.forEach((track, index) => validateTrackFields(track, fieldPath('tracks', index), problems));
+    }
+  }
+
+  throwProblems(problems, source);
+  const pack = data as unknown as ChallengePackFile;
+  return { challenges: pack.challenges.map(toChallenge), tracks: pack.tracks ?? [] };
+}
+
+/**
+ * Parse the text of a challenge file
+ *
+ * @param text - JSON or YAML holding a challenge or a pack
+ * @param source - File name or URL; ".json" selects JSON, anything else YAML
+ * @throws If the text can't be parsed or the challenges are invalid
+ */
+export function parseChallengeFile(text: string, source: string = 'challenges.yaml'): ChallengePack {
+  return validateChallengePack(parseText(text, source), source);
+}
+
+// ==================== Loading ====================
+
+/**
+ * Register a pack's challenges and tracks
+ *
+ * Challenges with the same ID as a registered one replace it.
+ */
+export function registerChallengePack(pack: ChallengePack): void {
+  registerChallenges(pack.challenges);
+  for (const track of pack.tracks) {
+    registerTrack(track);
+  }
+}
+
+/**
+ * Load a challenge file chosen by the user and register it
+ *
+ * @param file - File from an <input type="file"> (or anything with a name and text())
+ * @returns The registered challenges and tracks
+ * @throws If the file is invalid; nothing is registered then
+ */
+export async function loadChallengesFromFile(
+  file: { name: string; text(): Promise<string> }
+): Promise<ChallengePack> {
+  const pack = parseChallengeFile(await file.text(), file.name);
+  registerChallengePack(pack);
+  console.log(`[ChallengeFile] Loaded ${pack.challenges.length} challenge(s) from ${file.name}`);
+  return pack;
+}
+
+/**
+ * Fetch a challenge file and register it
+ *
+ * @param url - URL of a .json, .yaml or .yml file
+ * @returns The registered challenges and tracks
+ * @throws If the fetch fails or the file is invalid; nothing is registered then
+ *
+ * @example
+ * await loadChallengesFromUrl('/challenges/airstriker-extras.yaml');
+ */
+export async function loadChallengesFromUrl(url: string): Promise<ChallengePack> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+  // Strip any query string so the extension picks the parser
+  const pack = parseChallengeFile(await response.text(), url.split(/[?#]/)[0]);
+  registerChallengePack(pack);
+  console.log(`[ChallengeFile] Loaded ${pack.challenges.length} challenge(s) from ${url}`);
+  return pack;
+}
@@ -0,0 +1,33 @@
+import '@vitest/web-worker';
+import { describe, it, expect } from 'vitest';
+import { airstrikerPhysics, createMockController } from '../testing';
+import { verifyChallenge } from './challengeHarness';
+import { lesson07Survive } from './airstriker';
+import { Challenge } from './types';
+
+describe('verifyChallenge', () => {
+  it('reports a starter that only the code requirements stop', async () => {
+    // Lesson 7's firing loop survives, but doesn't use an if statement
+    const challenge: Challenge = {
+      ...lesson07Survive,
+      id: 'harness-survive-with-if',
+      requirements: { required: ['conditional'] },
+      starterCode: lesson07Survive.solution!,
+      solution: `for (let i = 0; i < 60; i++) {
+  if (i >= 0) {
+    await game.tap('b');
+  }
+  await game.stepFrames(10);
+}`,
+    };
+
+    const controller = await createMockController({ physics: airstrikerPhysics });
+    const { starter, problems } = await verifyChallenge(controller, challenge, {
+      startState: controller.saveState(),
+    });
+
+    expect(starter.success).toBe(false);
+    expect(starter.goalProgress?.status).toBe('met');
+    expect(problems).toEqual(['Starter code reaches the goal; only the code requirements stop it']);
+  });
+});
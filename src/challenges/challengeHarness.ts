@@ -0,0 +1,95 @@
+/**
+ * Challenge verification harness
+ *
+ * Runs a challenge's reference solution and starter code through
+ * ChallengeEngine, exactly as a student's code would run, to catch lessons
+ * broken by data.json, engine or API changes. Works against any
+ * GameController: a MockEmulatorBridge in unit tests, or a real core in
+ * the browser.
+ */
+
+import { GameController } from '../core/GameController';
+import { ChallengeEngine } from './ChallengeEngine';
+import { Challenge, ChallengeResult } from './types';
+
+/**
+ * Outcome of verifying one challenge
+ */
+export interface ChallengeVerification {
+  challenge: Challenge;
+
+  /** Result of running the reference solution (null if there is none) */
+  solution: ChallengeResult | null;
+
+  /** Result of running the starter code */
+  starter: ChallengeResult;
+
+  /** What's wrong with the challenge; empty if it verified */
+  problems: string[];
+}
+
+/**
+ * Options for verifyChallenge()
+ */
+export interface VerifyChallengeOptions {
+  /**
+   * State to run from instead of the challenge's own. Needed for mock
+   * cores, which can't load real save states.
+   */
+  startState?: Uint8Array;
+}
+
+/**
+ * Verify that a challenge's solution succeeds and its starter code doesn't
+ *
+ * The starter has to miss the goal itself: a starter that reaches the goal
+ * and only fails challenge.requirements is reported as a problem.
+ *
+ * Both runs start from the same state: options.startState, else the
+ * challenge's start state (see ChallengeEngine.getStartState()).
+ * Solutions are type-checked like student code.
+ *
+ * @param controller - Controller for a running game
+ * @param challenge - Challenge to verify
+ * @param options - Verification options
+ *
+ * @example
+ * const { problems } = await verifyChallenge(controller, lesson01MoveRight);
+ * if (problems.length > 0) console.error(problems.join('\n'));
+ */
+export async function verifyChallenge(
+  controller: GameController,
+  challenge: Challenge,
+  options: VerifyChallengeOptions = {}
+): Promise<ChallengeVerification> {
+  const engine = new ChallengeEngine(controller);
+
+  try {
+    const run = (code: string): Promise<ChallengeResult> =>
+      engine.runChallenge(challenge, code, { typeCheck: true, startState: options.startState });
+
+    const problems: string[] = [];
+
+    let solution: ChallengeResult | null = null;
+    if (challenge.solution === undefined) {
+      problems.push('No solution to verify');
+    } else {
+      solution = await run(challenge.solution);
+      if (!solution.success) {
+        problems.push(`Solution does not solve the challenge: ${solution.message}`);
+      }
+    }
+
+    const starter = await run(challenge.starterCode);
+    if (starter.success) {
+      problems.push('Starter code already solves the challenge');
+    } else if (starter.goalProgress?.status === 'met') {
+      problems.push('Starter code reaches the goal; only the code requirements stop it');
+    }
+
+    return { challenge, solution, starter, problems };
+  } finally {
+    engine.destroy();
+    controller.releaseAll();
+  }
+}
@@ -1,13 +1,15 @@
 /**
  * Game Starter - Automatically navigate through game menus
  *
- * Provides automated sequences to get from title screen to gameplay
- * for different games. Uses memory-mapped game_mode variable to verify
- * actual game state instead of blind frame stepping.
+ * Games with Stable Retro states start by loading one, skipping the menus.
+ * For the rest, provides automated sequences to get from title screen to
+ * gameplay. Uses memory-mapped game_mode variable to verify actual game
+ * state instead of blind frame stepping.
  */
 
 import { GameController } from '../core/GameController';
 import { GameId } from '../data/types';
+import { getDefaultState, loadState } from '../data/stateLoader';
 
 /**
  * Start sequence result
@@ -283,14 +285,54 @@ export async function startAirstriker(
   }
 }
 
+/**
+ * Start a game by loading a named Stable Retro state
+ */
+export async function startFromState(
+  gameId: GameId,
+  stateName: string,
+  controller: GameController,
+  onProgress?: (message: string) => void
+): Promise<StartResult> {
+  try {
+    onProgress?.(`Loading ${stateName}...`);
+    controller.loadGameData(gameId);
+    controller.loadState(await loadState(gameId, stateName));
+    await controller.step();
+
+    onProgress?.('Discovering memory layout...');
+    try {
+      await controller.discoverMemory();
+    } catch (e) {
+      return { success: false, message: `Memory discovery failed: ${e}` };
+    }
+
+    onProgress?.('Game started!');
+    return { success: true, message: `Started from ${stateName}.` };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Error loading state: ${error}`,
+    };
+  }
+}
+
 /**
  * Start a game automatically based on game ID
+ *
+ * Loads the named state (default: the game's default_state) when the game
+ * has one, otherwise navigates the menus.
  */
 export async function startGame(
   gameId: GameId,
   controller: GameController,
-  onProgress?: (message: string) => void
+  onProgress?: (message: string) => void,
+  stateName: string | undefined = getDefaultState(gameId)
 ): Promise<StartResult> {
+  if (stateName) {
+    return startFromState(gameId, stateName, controller, onProgress);
+  }
+
   switch (gameId) {
     case 'SonicTheHedgehog2-Genesis':
       return startSonic2(controller, onProgress);
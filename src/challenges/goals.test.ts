@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import type { GameState } from '../core/MemoryReader';
+import { GoalEvaluator, findFailedGoal } from './goals';
+import { ChallengeGoal, ConditionGoal, GoalStatus } from './types';
+
+const pastX200: ConditionGoal = { type: 'condition', variable: 'x', op: 'greater-than', reference: 200 };
+const jumped: ConditionGoal = { type: 'condition', variable: 'y', op: 'less-than', reference: 300 };
+
+/**
+ * Feed states to a new evaluator, one per frame
+ *
+ * @returns The evaluator and its root status after each frame
+ */
+function evaluate(goal: ChallengeGoal, states: GameState[]) {
+  const evaluator = new GoalEvaluator(goal);
+  const statuses: GoalStatus[] = states.map(state => {
+    evaluator.update(state);
+    return evaluator.status;
+  });
+  return { evaluator, statuses };
+}
+
+/** The same state for a number of frames */
+function repeat(state: GameState, frames: number): GameState[] {
+  return Array.from({ length: frames }, () => state);
+}
+
+describe('condition goals', () => {
+  it('compare the absolute value by default', () => {
+    const { statuses } = evaluate(pastX200, [{ x: 100 }, { x: 201 }, { x: 150 }]);
+    expect(statuses).toEqual(['pending', 'met', 'pending']);
+  });
+
+  it('measure the change since the previous frame', () => {
+    const goal: ConditionGoal = { type: 'condition', variable: 'x', op: 'greater-than', reference: 5, measurement: 'delta' };
+    const { statuses } = evaluate(goal, [{ x: 100 }, { x: 110 }, { x: 112 }]);
+    expect(statuses).toEqual(['pending', 'met', 'pending']);
+  });
+
+  it('measure the change since the run started', () => {
+    const lostLife: ConditionGoal = { type: 'condition', variable: 'lives', op: 'negative', measurement: 'start-delta' };
+    const { statuses } = evaluate(lostLife, [{ lives: 3 }, { lives: 3 }, { lives: 2 }, { lives: 2 }]);
+    expect(statuses).toEqual(['pending', 'pending', 'met', 'met']);
+  });
+
+  it('compare against another variable', () => {
+    const goal: ConditionGoal = { type: 'condition', variable: 'x', op: 'greater-or-equal', reference: 'screen_x_end' };
+    const { statuses } = evaluate(goal, [{ x: 900, screen_x_end: 1000 }, { x: 1000, screen_x_end: 1000 }]);
+    expect(statuses).toEqual(['pending', 'met']);
+  });
+
+  it('show the measured value', () => {
+    const { evaluator } = evaluate({ ...pastX200, measurement: 'start-delta' }, [{ x: 64 }, { x: 100 }]);
+    expect(evaluator.getProgress()).toEqual({
+      label: 'change in x since start > 200',
+      status: 'pending',
+      detail: 'change in x since start = 36',
+    });
+  });
+});
+
+describe('combining goals', () => {
+  it('all needs every goal on the same frame', () => {
+    const { statuses } = evaluate(
+      { type: 'all', goals: [pastX200, jumped] },
+      [{ x: 250, y: 380 }, { x: 150, y: 250 }, { x: 250, y: 250 }]
+    );
+    expect(statuses).toEqual(['pending', 'pending', 'met']);
+  });
+
+  it('any needs one goal', () => {
+    const { statuses } = evaluate({ type: 'any', goals: [pastX200, jumped] }, [{ x: 0, y: 380 }, { x: 0, y: 250 }]);
+    expect(statuses).toEqual(['pending', 'met']);
+  });
+
+  it('not inverts a goal', () => {
+    const { statuses } = evaluate({ type: 'not', goal: pastX200 }, [{ x: 0 }, { x: 250 }]);
+    expect(statuses).toEqual(['met', 'pending']);
+  });
+});
+
+describe('sequence goals', () => {
+  it('need each step in order, on later frames', () => {
+    const { statuses, evaluator } = evaluate(
+      { type: 'sequence', steps: [jumped, pastX200] },
+      [
+        { x: 250, y: 380 }, // past x 200 first does not count
+        { x: 250, y: 250 }, // jumped
+        { x: 250, y: 250 }, // then past x 200
+      ]
+    );
+    expect(statuses).toEqual(['pending', 'pending', 'met']);
+    expect(evaluator.getProgress().detail).toBe('2/2 steps');
+  });
+
+  it('do not meet two steps on one frame', () => {
+    const { statuses } = evaluate(
+      { type: 'sequence', steps: [jumped, pastX200] },
+      [{ x: 250, y: 250 }, { x: 100, y: 250 }]
+    );
+    expect(statuses).toEqual(['pending', 'pending']);
+  });
+
+  it('stay met once every step is met', () => {
+    const { statuses } = evaluate({ type: 'sequence', steps: [pastX200] }, [{ x: 250 }, { x: 0 }]);
+    expect(statuses).toEqual(['met', 'met']);
+  });
+});
+
+describe('timed goals', () => {
+  it('within fails once its frames run out', () => {
+    const { statuses, evaluator } = evaluate({ type: 'within', frames: 2, goal: pastX200 }, repeat({ x: 0 }, 4));
+    expect(statuses).toEqual(['pending', 'pending', 'failed', 'failed']);
+    expect(findFailedGoal(evaluator.getProgress())?.label).toBe('Within 2 frames');
+  });
+
+  it('within stays met once its goal is met in time', () => {
+    const { statuses } = evaluate({ type: 'within', frames: 2, goal: pastX200 }, [{ x: 0 }, { x: 250 }, { x: 0 }, { x: 0 }]);
+    expect(statuses).toEqual(['pending', 'met', 'met', 'met']);
+  });
+
+  it('within starts counting when a sequence reaches it', () => {
+    const goal: ChallengeGoal = {
+      type: 'sequence',
+      steps: [jumped, { type: 'within', frames: 2, goal: pastX200 }],
+    };
+    // Five frames before the jump, then past x 200 two frames after it
+    const { statuses } = evaluate(goal, [...repeat({ x: 0, y: 380 }, 5), { x: 0, y: 250 }, { x: 0, y: 380 }, { x: 250, y: 380 }]);
+    expect(statuses[statuses.length - 1]).toBe('met');
+  });
+
+  it('after is met once its frames have passed', () => {
+    const { statuses, evaluator } = evaluate({ type: 'after', frames: 2 }, repeat({}, 4));
+    expect(statuses).toEqual(['pending', 'pending', 'met', 'met']);
+    expect(evaluator.getProgress()).toEqual({ label: 'After 2 frames', status: 'met', detail: '2/2 frames' });
+  });
+
+  it('after starts counting when a sequence reaches it', () => {
+    const goal: ChallengeGoal = { type: 'sequence', steps: [pastX200, { type: 'after', frames: 3 }] };
+    const { statuses } = evaluate(goal, [...repeat({ x: 0 }, 4), ...repeat({ x: 250 }, 5)]);
+    // x passes 200 on frame 4; the timer starts on frame 5 and runs out on frame 8
+    expect(statuses.indexOf('met')).toBe(8);
+  });
+});
+
+describe('never goals', () => {
+  it('are met until their goal is met', () => {
+    const { statuses } = evaluate({ type: 'never', goal: pastX200 }, [{ x: 0 }, { x: 100 }]);
+    expect(statuses).toEqual(['met', 'met']);
+  });
+
+  it('stay failed once their goal is met', () => {
+    const { statuses, evaluator } = evaluate({ type: 'never', goal: pastX200 }, [{ x: 0 }, { x: 250 }, { x: 0 }]);
+    expect(statuses).toEqual(['met', 'failed', 'failed']);
+    expect(findFailedGoal(evaluator.getProgress())?.label).toBe('Never: x > 200');
+  });
+
+  it('fail the goals around them', () => {
+    const goal: ChallengeGoal = {
+      type: 'all',
+      goals: [{ type: 'after', frames: 2 }, { type: 'never', goal: jumped }],
+    };
+    const { statuses } = evaluate(goal, [{ y: 380 }, { y: 250 }, { y: 380 }]);
+    expect(statuses).toEqual(['pending', 'failed', 'failed']);
+  });
+});
+
+describe('GoalEvaluator', () => {
+  it('treats goal functions as a check of each frame', () => {
+    const { statuses, evaluator } = evaluate((state) => state.x > 200, [{ x: 0 }, { x: 250 }]);
+    expect(statuses).toEqual(['pending', 'met']);
+    expect(evaluator.getProgress().label).toBe('Goal');
+  });
+
+  it('reports when a status changes', () => {
+    const evaluator = new GoalEvaluator({ type: 'all', goals: [pastX200, jumped] });
+    evaluator.update({ x: 0, y: 380 });
+    expect(evaluator.statusChanged).toBe(true);
+    evaluator.update({ x: 100, y: 380 });
+    expect(evaluator.statusChanged).toBe(false);
+    evaluator.update({ x: 250, y: 380 });
+    expect(evaluator.statusChanged).toBe(true);
+    expect(evaluator.frame).toBe(2);
+  });
+});
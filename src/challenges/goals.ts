@@ -0,0 +1,446 @@
+/**
+ * Goal evaluation - Runs declarative goals frame by frame
+ *
+ * GoalEvaluator turns a ChallengeGoal into a tree of stateful nodes, feeds
+ * it one game state per frame and reports whether the goal is met, plus
+ * the status of every subgoal for display. See the Goal DSL section of
+ * types.ts for what each node means.
+ */
+
+import type { GameState } from '../core/MemoryReader';
+import { applyScenarioOp } from '../data/scenario';
+import { ScenarioOp } from '../data/types';
+import {
+  ChallengeGoal,
+  ConditionGoal,
+  GoalContext,
+  GoalMeasurement,
+  GoalProgress,
+  GoalSpec,
+  GoalStatus,
+  GoalThreshold,
+} from './types';
+
+/**
+ * A goal node with its evaluation state
+ */
+interface GoalNode {
+  label: string;
+  status: GoalStatus;
+  children: GoalNode[];
+
+  /** Evaluate the node on a frame and update its status */
+  evaluate(context: GoalContext): GoalStatus;
+
+  /** Extra information for the progress list */
+  detail?(): string | undefined;
+}
+
+/** Symbols for comparison operators in generated labels */
+const OP_SYMBOLS: Partial<Record<ScenarioOp, string>> = {
+  'equal': '=',
+  'not-equal': '≠',
+  'less-than': '<',
+  'greater-than': '>',
+  'less-or-equal': '≤',
+  'greater-or-equal': '≥',
+};
+
+/** Descriptions of unary operators in generated labels */
+const UNARY_OPS: Partial<Record<ScenarioOp, string>> = {
+  'zero': 'is 0',
+  'nonzero': 'is not 0',
+  'positive': 'is positive',
+  'negative': 'is negative',
+};
+
+/**
+ * Describe what a condition measures, e.g. "x" or "change in lives since start"
+ */
+function describeMeasurement(variable: string, measurement: GoalMeasurement): string {
+  switch (measurement) {
+    case 'delta':
+      return `change in ${variable}`;
+    case 'start-delta':
+      return `change in ${variable} since start`;
+    default:
+      return variable;
+  }
+}
+
+/**
+ * Generate a label for a condition, e.g. "x > 800"
+ */
+function describeCondition(spec: ConditionGoal): string {
+  const op = spec.op ?? 'nonzero';
+  const subject = describeMeasurement(spec.variable, spec.measurement ?? 'absolute');
+  return op in UNARY_OPS
+    ? `${subject} ${UNARY_OPS[op]}`
+    : `${subject} ${OP_SYMBOLS[op] ?? op} ${spec.reference ?? 0}`;
+}
+
+/**
+ * Measure a condition's variable on a frame
+ */
+function measureCondition(spec: ConditionGoal, context: GoalContext): number {
+  const value = context.state[spec.variable] ?? 0;
+  switch (spec.measurement ?? 'absolute') {
+    case 'delta':
+      return value - (context.previous[spec.variable] ?? value);
+    case 'start-delta':
+      return value - (context.start[spec.variable] ?? value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Resolve a condition's reference: a number, or another variable's value
+ */
+function resolveReference(spec: ConditionGoal, state: GameState): number {
+  const { reference } = spec;
+  if (reference === undefined) {
+    return 0;
+  }
+  if (typeof reference === 'number') {
+    return reference;
+  }
+  if (reference in state) {
+    return state[reference];
+  }
+  const parsed = Number(reference);
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid goal reference: ${reference}`);
+  }
+  return parsed;
+}
+
+/**
+ * Build the node tree for a goal
+ */
+function createNode(spec: GoalSpec): GoalNode {
+  switch (spec.type) {
+    case 'condition': {
+      let measured: number | undefined;
+      return {
+        label: spec.label ?? describeCondition(spec),
+        status: 'pending',
+        children: [],
+        evaluate(context) {
+          measured = measureCondition(spec, context);
+          const met = applyScenarioOp(
+            spec.op ?? 'nonzero',
+            measured,
+            resolveReference(spec, context.state)
+          );
+          return (this.status = met ? 'met' : 'pending');
+        },
+        detail: () =>
+          measured === undefined
+            ? undefined
+            : `${describeMeasurement(spec.variable, spec.measurement ?? 'absolute')} = ${measured}`,
+      };
+    }
+
+    case 'predicate':
+      return {
+        label: spec.label ?? 'Custom check',
+        status: 'pending',
+        children: [],
+        evaluate(context) {
+          return (this.status = spec.test(context) ? 'met' : 'pending');
+        },
+      };
+
+    case 'all':
+      return {
+        label: spec.label ?? 'All of',
+        status: 'pending',
+        children: spec.goals.map(createNode),
+        evaluate(context) {
+          // Evaluate every child so stateful ones keep up
+          const statuses = this.children.map(child => child.evaluate(context));
+          this.status = statuses.includes('failed')
+            ? 'failed'
+            : statuses.every(status => status === 'met') ? 'met' : 'pending';
+          return this.status;
+        },
+      };
+
+    case 'any':
+      return {
+        label: spec.label ?? 'Any of',
+        status: 'pending',
+        children: spec.goals.map(createNode),
+        evaluate(context) {
+          const statuses = this.children.map(child => child.evaluate(context));
+          this.status = statuses.includes('met')
+            ? 'met'
+            : statuses.length > 0 && statuses.every(status => status === 'failed') ? 'failed' : 'pending';
+          return this.status;
+        },
+      };
+
+    case 'not': {
+      const child = createNode(spec.goal);
+      return {
+        label: spec.label ?? `Not: ${child.label}`,
+        status: 'pending',
+        children: [child],
+        evaluate(context) {
+          return (this.status = child.evaluate(context) === 'met' ? 'pending' : 'met');
+        },
+      };
+    }
+
+    case 'sequence': {
+      let index = 0;
+      return {
+        label: spec.label ?? 'In order',
+        status: 'pending',
+        children: spec.steps.map(createNode),
+        evaluate(context) {
+          if (this.status !== 'pending') {
+            return this.status;
+          }
+          // At most one step per frame, so "then" means a later frame
+          const step = this.children[index];
+          if (!step) {
+            return (this.status = 'met');
+          }
+          const status = step.evaluate(context);
+          if (status === 'failed') {
+            this.status = 'failed';
+          } else if (status === 'met' && ++index === this.children.length) {
+            this.status = 'met';
+          }
+          return this.status;
+        },
+        detail: () => `${index}/${spec.steps.length} steps`,
+      };
+    }
+
+    case 'within': {
+      const child = createNode(spec.goal);
+      let startFrame: number | null = null;
+      let elapsed = 0;
+      return {
+        label: spec.label ?? `Within ${spec.frames} frames`,
+        status: 'pending',
+        children: [child],
+        evaluate(context) {
+          if (this.status !== 'pending') {
+            return this.status;
+          }
+          startFrame ??= context.frame;
+          elapsed = context.frame - startFrame;
+          if (child.evaluate(context) === 'met') {
+            this.status = 'met';
+          } else if (elapsed >= spec.frames) {
+            this.status = 'failed';
+          }
+          return this.status;
+        },
+        detail: () => `${Math.min(elapsed, spec.frames)}/${spec.frames} frames`,
+      };
+    }
+
+    case 'never': {
+      const child = createNode(spec.goal);
+      return {
+        label: spec.label ?? `Never: ${child.label}`,
+        status: 'pending',
+        children: [child],
+        evaluate(context) {
+          if (this.status === 'failed') {
+            return this.status;
+          }
+          return (this.status = child.evaluate(context) === 'met' ? 'failed' : 'met');
+        },
+      };
+    }
+
+    case 'after': {
+      let startFrame: number | null = null;
+      let elapsed = 0;
+      return {
+        label: spec.label ?? `After ${spec.frames} frames`,
+        status: 'pending',
+        children: [],
+        evaluate(context) {
+          if (this.status === 'met') {
+            return this.status;
+          }
+          startFrame ??= context.frame;
+          elapsed = context.frame - startFrame;
+          return (this.status = elapsed >= spec.frames ? 'met' : 'pending');
+        },
+        detail: () => `${Math.min(elapsed, spec.frames)}/${spec.frames} frames`,
+      };
+    }
+  }
+}
+
+/**
+ * Snapshot a node tree's progress
+ */
+function getNodeProgress(node: GoalNode): GoalProgress {
+  const progress: GoalProgress = { label: node.label, status: node.status };
+  const detail = node.detail?.();
+  if (detail !== undefined) {
+    progress.detail = detail;
+  }
+  if (node.children.length > 0) {
+    progress.children = node.children.map(getNodeProgress);
+  }
+  return progress;
+}
+
+/**
+ * Summarize the statuses in a node tree, to detect changes
+ */
+function getStatusSignature(node: GoalNode): string {
+  return node.children.length > 0
+    ? `${node.status}(${node.children.map(getStatusSignature).join(',')})`
+    : node.status;
+}
+
+/**
+ * Convert a goal function into a predicate over the current state
+ */
+function toGoalSpec(goal: ChallengeGoal, label?: string): GoalSpec {
+  if (typeof goal === 'function') {
+    return { type: 'predicate', label: label ?? 'Goal', test: ({ state }) => goal(state) };
+  }
+  return label && !goal.label ? { ...goal, label } : goal;
+}
+
+/**
+ * GoalEvaluator tracks a goal across the frames of a run.
+ *
+ * The first state passed to update() is the run's starting state (frame 0).
+ *
+ * @example
+ * const evaluator = new GoalEvaluator(challenge.goal, challenge.goalDescription);
+ * evaluator.update(controller.getState());
+ * // after each frame:
+ * if (evaluator.update(controller.getState())) {
+ *   console.log(`Goal met on frame ${evaluator.frame}`);
+ * }
+ */
+export class GoalEvaluator {
+  private root: GoalNode;
+  private start: GameState | null = null;
+  private previous: GameState | null = null;
+  private _frame: number = -1;
+  private signature: string = '';
+  private _statusChanged: boolean = false;
+
+  /**
+   * @param goal - Challenge goal to evaluate
+   * @param label - Label for the goal as a whole (e.g., challenge.goalDescription)
+   */
+  constructor(goal: ChallengeGoal, label?: string) {
+    this.root = createNode(toGoalSpec(goal, label));
+  }
+
+  /**
+   * Frame of the last update (0 = starting state, -1 before any update)
+   */
+  get frame(): number {
+    return this._frame;
+  }
+
+  /**
+   * Status of the goal on the last update
+   */
+  get status(): GoalStatus {
+    return this.root.status;
+  }
+
+  /**
+   * Whether any subgoal's status changed on the last update
+   */
+  get statusChanged(): boolean {
+    return this._statusChanged;
+  }
+
+  /**
+   * Evaluate the goal on the next frame
+   *
+   * @param state - Game state on this frame
+   * @returns Whether the goal is met on this frame
+   */
+  update(state: GameState): boolean {
+    this._frame++;
+    this.start ??= state;
+    const context: GoalContext = {
+      state,
+      previous: this.previous ?? state,
+      start: this.start,
+      frame: this._frame,
+    };
+    this.previous = state;
+
+    const met = this.root.evaluate(context) === 'met';
+    const signature = getStatusSignature(this.root);
+    this._statusChanged = signature !== this.signature;
+    this.signature = signature;
+    return met;
+  }
+
+  /**
+   * Get the status of the goal and every subgoal
+   */
+  getProgress(): GoalProgress {
+    return getNodeProgress(this.root);
+  }
+}
+
+/**
+ * Find the first failed leaf in a progress tree, to explain a failure
+ */
+export function findFailedGoal(progress: GoalProgress): GoalProgress | undefined {
+  if (progress.status !== 'failed') {
+    return undefined;
+  }
+  for (const child of progress.children ?? []) {
+    const failed = findFailedGoal(child);
+    if (failed) {
+      return failed;
+    }
+  }
+  return progress;
+}
+
+/**
+ * Collect fixed variable targets from a goal's conditions, for charts
+ *
+ * Only absolute comparisons against a number are included; goal
+ * functions have no inspectable thresholds.
+ */
+export function getGoalThresholds(goal: ChallengeGoal): GoalThreshold[] {
+  if (typeof goal === 'function') {
+    return [];
+  }
+
+  switch (goal.type) {
+    case 'condition':
+      return (goal.measurement ?? 'absolute') === 'absolute' &&
+        typeof goal.reference === 'number' &&
+        goal.op !== undefined && goal.op in OP_SYMBOLS
+        ? [{ variable: goal.variable, value: goal.reference }]
+        : [];
+    case 'all':
+    case 'any':
+      return goal.goals.flatMap(getGoalThresholds);
+    case 'sequence':
+      return goal.steps.flatMap(getGoalThresholds);
+    case 'not':
+    case 'within':
+    case 'never':
+      return getGoalThresholds(goal.goal);
+    default:
+      return [];
+  }
+}
@@ -4,8 +4,15 @@
 
 export * from './types';
 export * from './ChallengeEngine';
+export * from './timeline';
+export * from './goals';
 export * from './registry';
+export * from './progress';
+export * from './challengeFile';
+export * from './authoring';
+export * from './challengeHarness';
 export * from './gameStarter';
 
 // Game-specific challenge collections
 export * from './sonic';
+export * from './airstriker';
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryProgressStorage, ProgressStore } from './progress';
+import { ChallengeResult } from './types';
+
+function makeResult(success: boolean, framesUsed: number): ChallengeResult {
+  return { success, message: '', framesUsed, finalState: {} };
+}
+
+describe('ProgressStore', () => {
+  let storage: MemoryProgressStorage;
+  let store: ProgressStore;
+
+  beforeEach(() => {
+    storage = new MemoryProgressStorage();
+    store = new ProgressStore(storage);
+  });
+
+  it('counts attempts and remembers the last code', () => {
+    store.recordAttempt('lesson-1', 'first()', makeResult(false, 10));
+    store.recordAttempt('lesson-1', 'second()', makeResult(false, 20));
+    expect(store.getAttempts('lesson-1')).toBe(2);
+    expect(store.getLastCode('lesson-1')).toBe('second()');
+    expect(store.isCompleted('lesson-1')).toBe(false);
+  });
+
+  it('records completions with the fewest frames', () => {
+    store.recordAttempt('lesson-1', 'a', makeResult(true, 120));
+    store.recordAttempt('lesson-1', 'b', makeResult(true, 150));
+    store.recordAttempt('lesson-1', 'c', makeResult(true, 90));
+    store.recordAttempt('lesson-1', 'd', makeResult(false, 10));
+    expect(store.progress.completed).toEqual(['lesson-1']);
+    expect(store.getBestResult('lesson-1')?.framesUsed).toBe(90);
+  });
+
+  it('persists progress across instances', () => {
+    store.recordAttempt('lesson-2', 'code', makeResult(true, 60));
+    store.setCurrent('lesson-2');
+
+    const reloaded = new ProgressStore(storage);
+    expect(reloaded.isCompleted('lesson-2')).toBe(true);
+    expect(reloaded.progress.current).toBe('lesson-2');
+  });
+
+  it('starts fresh when saved progress is unreadable', () => {
+    storage.save('emulearner.progress', '{"completed": 5}');
+    expect(new ProgressStore(storage).progress.completed).toEqual([]);
+  });
+
+  it('exports and imports progress', () => {
+    store.recordAttempt('lesson-1', 'code', makeResult(true, 60));
+    const exported = store.exportJson();
+
+    const other = new ProgressStore(new MemoryProgressStorage());
+    other.importJson(exported);
+    expect(other.progress).toEqual(store.progress);
+  });
+
+  it('rejects invalid imports without changing progress', () => {
+    store.recordAttempt('lesson-1', 'code', makeResult(true, 60));
+    expect(() => store.importJson('not json')).toThrow('not valid JSON');
+    expect(() => store.importJson('{"version": 99}')).toThrow('Unsupported progress file version');
+    expect(() => store.importJson('{"version": 1, "progress": {"completed": []}}'))
+      .toThrow('"bestResults" must map');
+    expect(store.isCompleted('lesson-1')).toBe(true);
+  });
+
+  it('notifies listeners of changes', () => {
+    const seen: string[][] = [];
+    const unsubscribe = store.subscribe((progress) => seen.push(progress.completed));
+    store.recordAttempt('lesson-1', 'code', makeResult(true, 60));
+    unsubscribe();
+    store.clear();
+    expect(seen).toEqual([['lesson-1']]);
+  });
+});
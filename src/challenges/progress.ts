@@ -0,0 +1,285 @@
+/**
+ * Progress Store - Saves a student's progress between sessions
+ *
+ * Records every attempt (count, last code) and every completion (best frame
+ * count) in a ChallengeProgress, saved to localStorage after each change.
+ * Progress can be exported as JSON and imported on another machine.
+ */
+
+import { BestResult, ChallengeProgress, ChallengeResult } from './types';
+
+/** Version of the exported progress file format */
+const EXPORT_VERSION = 1;
+
+/** localStorage key for saved progress */
+const DEFAULT_STORAGE_KEY = 'emulearner.progress';
+
+/**
+ * Where progress is saved
+ */
+export interface ProgressStorage {
+  /** Read saved data, or null if nothing was saved */
+  load(key: string): string | null;
+
+  /** Save data, replacing what was there */
+  save(key: string, data: string): void;
+}
+
+/**
+ * Storage that lasts as long as the page (used when localStorage is unavailable)
+ */
+export class MemoryProgressStorage implements ProgressStorage {
+  private data: Map<string, string> = new Map();
+
+  load(key: string): string | null {
+    return this.data.get(key) ?? null;
+  }
+
+  save(key: string, data: string): void {
+    this.data.set(key, data);
+  }
+}
+
+/**
+ * Browser localStorage, or memory storage where it's unavailable
+ * (e.g., private browsing with storage disabled, or Node)
+ */
+export function getDefaultProgressStorage(): ProgressStorage {
+  try {
+    const storage = globalThis.localStorage;
+    if (storage) {
+      return {
+        load: (key) => storage.getItem(key),
+        save: (key, data) => storage.setItem(key, data),
+      };
+    }
+  } catch {
+    // Accessing localStorage can throw when storage is disabled
+  }
+  return new MemoryProgressStorage();
+}
+
+/**
+ * Create empty progress
+ */
+export function createEmptyProgress(): ChallengeProgress {
+  return { completed: [], bestResults: {}, attempts: {}, lastCode: {} };
+}
+
+/**
+ * Check that a value is a record of the given value type
+ */
+function isRecordOf(value: unknown, check: (entry: unknown) => boolean): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(check);
+}
+
+/**
+ * Validate parsed progress data
+ *
+ * @param data - Parsed JSON
+ * @param source - Name used in error messages
+ * @throws If the data isn't a valid ChallengeProgress
+ */
+export function validateProgress(data: unknown, source: string = 'progress'): ChallengeProgress {
+  const progress = data as ChallengeProgress | null;
+  if (typeof progress !== 'object' || progress === null) {
+    throw new Error(`${source}: not an object`);
+  }
+  if (!Array.isArray(progress.completed) || !progress.completed.every(id => typeof id === 'string')) {
+    throw new Error(`${source}: "completed" must be a list of challenge IDs`);
+  }
+  if (progress.current !== undefined && typeof progress.current !== 'string') {
+    throw new Error(`${source}: "current" must be a challenge ID`);
+  }
+  const isBestResult = (entry: unknown) =>
+    typeof (entry as BestResult)?.framesUsed === 'number' &&
+    typeof (entry as BestResult)?.achievedAt === 'string';
+  if (!isRecordOf(progress.bestResults, isBestResult)) {
+    throw new Error(`${source}: "bestResults" must map challenge IDs to { framesUsed, achievedAt }`);
+  }
+  if (!isRecordOf(progress.attempts, entry => typeof entry === 'number')) {
+    throw new Error(`${source}: "attempts" must map challenge IDs to numbers`);
+  }
+  if (!isRecordOf(progress.lastCode, entry => typeof entry === 'string')) {
+    throw new Error(`${source}: "lastCode" must map challenge IDs to code`);
+  }
+  return progress;
+}
+
+/**
+ * ProgressStore keeps a student's progress and saves every change.
+ *
+ * @example
+ * const store = new ProgressStore();
+ * const result = await engine.runChallenge(challenge, code);
+ * store.recordAttempt(challenge.id, code, result);
+ * store.isCompleted(challenge.id); // true if result.success
+ */
+export class ProgressStore {
+  private storage: ProgressStorage;
+  private key: string;
+  private _progress: ChallengeProgress;
+  private listeners: Set<(progress: ChallengeProgress) => void> = new Set();
+
+  /**
+   * Load saved progress, starting fresh if there is none or it's unreadable
+   *
+   * @param storage - Where to save (default: localStorage)
+   * @param key - Storage key (default: "emulearner.progress")
+   */
+  constructor(storage: ProgressStorage = getDefaultProgressStorage(), key: string = DEFAULT_STORAGE_KEY) {
+    this.storage = storage;
+    this.key = key;
+    this._progress = this.load();
+  }
+
+  /**
+   * Current progress (treat as read-only; it's replaced on every change)
+   */
+  get progress(): ChallengeProgress {
+    return this._progress;
+  }
+
+  /**
+   * Whether a challenge has been completed
+   */
+  isCompleted(challengeId: string): boolean {
+    return this._progress.completed.includes(challengeId);
+  }
+
+  /**
+   * Number of times a challenge has been run
+   */
+  getAttempts(challengeId: string): number {
+    return this._progress.attempts[challengeId] ?? 0;
+  }
+
+  /**
+   * Fewest-frames success for a challenge
+   */
+  getBestResult(challengeId: string): BestResult | undefined {
+    return this._progress.bestResults[challengeId];
+  }
+
+  /**
+   * Code last run for a challenge
+   */
+  getLastCode(challengeId: string): string | undefined {
+    return this._progress.lastCode[challengeId];
+  }
+
+  /**
+   * Remember which challenge the student is working on
+   */
+  setCurrent(challengeId: string): void {
+    if (this._progress.current !== challengeId) {
+      this.update({ ...this._progress, current: challengeId });
+    }
+  }
+
+  /**
+   * Record a run of a challenge
+   *
+   * @param challengeId - Challenge that was run
+   * @param code - Code that was run
+   * @param result - Result of the run
+   */
+  recordAttempt(challengeId: string, code: string, result: ChallengeResult): void {
+    const progress = this._progress;
+    const next: ChallengeProgress = {
+      ...progress,
+      attempts: { ...progress.attempts, [challengeId]: this.getAttempts(challengeId) + 1 },
+      lastCode: { ...progress.lastCode, [challengeId]: code },
+    };
+
+    if (result.success) {
+      if (!this.isCompleted(challengeId)) {
+        next.completed = [...progress.completed, challengeId];
+      }
+      const best = this.getBestResult(challengeId);
+      if (!best || result.framesUsed < best.framesUsed) {
+        next.bestResults = {
+          ...progress.bestResults,
+          [challengeId]: { framesUsed: result.framesUsed, achievedAt: new Date().toISOString() },
+        };
+      }
+    }
+
+    this.update(next);
+  }
+
+  /**
+   * Export progress as JSON, for backup or moving to another machine
+   */
+  exportJson(): string {
+    return JSON.stringify({ version: EXPORT_VERSION, progress: this._progress }, null, 2);
+  }
+
+  /**
+   * Replace progress with an export
+   *
+   * @param json - Contents of a file from exportJson()
+   * @throws If the JSON isn't a valid progress export
+   */
+  importJson(json: string): void {
+    let data: { version?: unknown; progress?: unknown };
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Progress file is not valid JSON: ${(error as Error).message}`);
+    }
+    if (data?.version !== EXPORT_VERSION) {
+      throw new Error(`Unsupported progress file version: ${String(data?.version)}`);
+    }
+    this.update(validateProgress(data.progress, 'Progress file'));
+  }
+
+  /**
+   * Forget all progress
+   */
+  clear(): void {
+    this.update(createEmptyProgress());
+  }
+
+  /**
+   * Listen for progress changes
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: (progress: ChallengeProgress) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read saved progress
+   */
+  private load(): ChallengeProgress {
+    try {
+      const saved = this.storage.load(this.key);
+      if (saved) {
+        return validateProgress(JSON.parse(saved), 'Saved progress');
+      }
+    } catch (error) {
+      console.warn('[ProgressStore] Ignoring unreadable saved progress:', error);
+    }
+    return createEmptyProgress();
+  }
+
+  /**
+   * Replace progress, save it and notify listeners
+   */
+  private update(progress: ChallengeProgress): void {
+    this._progress = progress;
+    try {
+      this.storage.save(this.key, JSON.stringify(progress));
+    } catch (error) {
+      // Keep going with in-memory progress (e.g., storage quota exceeded)
+      console.warn('[ProgressStore] Could not save progress:', error);
+    }
+    for (const listener of this.listeners) {
+      listener(progress);
+    }
+  }
+}
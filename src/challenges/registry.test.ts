@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  clearChallenges,
+  formatGameName,
+  getAllChallengeMeta,
+  getChallengeByLesson,
+  getChallengeCount,
+  getChallengesForGame,
+  getChallengesSorted,
+  getLockedChallenges,
+  getMissingPrerequisites,
+  getNextChallenge,
+  getPreviousChallenge,
+  getTrack,
+  getTracks,
+  getUnlockedChallenges,
+  isChallengeUnlocked,
+  registerChallenge,
+  registerChallenges,
+  registerTrack,
+  validateCurriculum,
+} from './registry';
+import { registerSonicChallenges } from './sonic';
+import { Challenge } from './types';
+
+function makeChallenge(
+  id: string,
+  lessonNumber: number,
+  game: Challenge['game'] = 'SonicTheHedgehog2-Genesis',
+  extra: Partial<Challenge> = {}
+): Challenge {
+  return {
+    id,
+    lessonNumber,
+    name: id,
+    description: '',
+    game,
+    goal: () => true,
+    maxFrames: 60,
+    hints: [],
+    starterCode: '',
+    concepts: ['sequences'],
+    ...extra,
+  };
+}
+
+describe('challenge registry', () => {
+  beforeEach(() => {
+    clearChallenges();
+    // Registered out of lesson order on purpose
+    registerChallenges([
+      makeChallenge('third', 3),
+      makeChallenge('first', 1),
+      makeChallenge('shooter', 2, 'Airstriker-Genesis'),
+    ]);
+  });
+
+  it('sorts challenges by lesson number', () => {
+    expect(getChallengesSorted().map(c => c.id)).toEqual(['first', 'shooter', 'third']);
+    expect(getAllChallengeMeta().map(m => m.lessonNumber)).toEqual([1, 2, 3]);
+  });
+
+  it('navigates in lesson order', () => {
+    expect(getNextChallenge('first')?.id).toBe('shooter');
+    expect(getNextChallenge('third')).toBeUndefined();
+    expect(getPreviousChallenge('third')?.id).toBe('shooter');
+    expect(getPreviousChallenge('first')).toBeUndefined();
+    expect(getNextChallenge('missing')).toBeUndefined();
+  });
+
+  it('looks up challenges by lesson and game', () => {
+    expect(getChallengeByLesson(3)?.id).toBe('third');
+    expect(getChallengeByLesson(4)).toBeUndefined();
+    expect(getChallengesForGame('SonicTheHedgehog2-Genesis').map(c => c.id)).toEqual(['first', 'third']);
+  });
+
+  it('replaces a challenge registered twice', () => {
+    registerChallenge({ ...makeChallenge('first', 1), name: 'Replaced' });
+    expect(getChallengeCount()).toBe(3);
+    expect(getChallengeByLesson(1)?.name).toBe('Replaced');
+  });
+});
+
+describe('prerequisites', () => {
+  beforeEach(() => {
+    clearChallenges();
+    registerChallenges([
+      makeChallenge('walk', 1),
+      makeChallenge('jump', 2, undefined, { prerequisites: ['walk'] }),
+      makeChallenge('combo', 3, undefined, { prerequisites: ['walk', 'jump', 'not-registered'] }),
+    ]);
+  });
+
+  it('locks challenges until their prerequisites are completed', () => {
+    expect(isChallengeUnlocked('walk', [])).toBe(true);
+    expect(isChallengeUnlocked('jump', [])).toBe(false);
+    expect(isChallengeUnlocked('jump', ['walk'])).toBe(true);
+    expect(getMissingPrerequisites('combo', ['walk']).map(c => c.id)).toEqual(['jump']);
+  });
+
+  it('lists unlocked and locked challenges in lesson order', () => {
+    expect(getUnlockedChallenges(['walk']).map(c => c.id)).toEqual(['walk', 'jump']);
+    expect(getLockedChallenges(['walk']).map(c => c.id)).toEqual(['combo']);
+    expect(getUnlockedChallenges(['walk', 'jump']).map(c => c.id)).toEqual(['walk', 'jump', 'combo']);
+  });
+
+  it('reports unknown prerequisites and cycles', () => {
+    registerChallenge(makeChallenge('walk', 1, undefined, { prerequisites: ['combo'] }));
+    const problems = validateCurriculum();
+    expect(problems).toContain('combo: unknown prerequisite "not-registered"');
+    expect(problems.some(p => p.startsWith('Prerequisite cycle:'))).toBe(true);
+  });
+});
+
+describe('tracks', () => {
+  beforeEach(() => {
+    clearChallenges();
+    registerChallenges([
+      makeChallenge('sonic-run', 1, 'SonicTheHedgehog2-Genesis', { unit: 'Basics' }),
+      makeChallenge('sonic-loop', 2, 'SonicTheHedgehog2-Genesis', { unit: 'Loops', concepts: ['loops'] }),
+      makeChallenge('air-loop', 3, 'Airstriker-Genesis', { concepts: ['loops'] }),
+    ]);
+  });
+
+  it('builds a track per game with its units in lesson order', () => {
+    expect(getTrack('game:SonicTheHedgehog2-Genesis')).toEqual({
+      id: 'game:SonicTheHedgehog2-Genesis',
+      name: 'Sonic The Hedgehog 2 (Genesis)',
+      units: [
+        { name: 'Basics', challengeIds: ['sonic-run'] },
+        { name: 'Loops', challengeIds: ['sonic-loop'] },
+      ],
+    });
+    expect(getTrack('game:Airstriker-Genesis')?.units).toEqual([
+      { name: 'Lessons', challengeIds: ['air-loop'] },
+    ]);
+  });
+
+  it('builds a track per concept across games', () => {
+    expect(getTrack('concept:loops')?.units).toEqual([
+      { name: 'Sonic The Hedgehog 2 (Genesis)', challengeIds: ['sonic-loop'] },
+      { name: 'Airstriker (Genesis)', challengeIds: ['air-loop'] },
+    ]);
+  });
+
+  it('lists hand-made tracks first', () => {
+    registerTrack({ id: 'class-1', name: 'Class 1', units: [{ name: 'Week 1', challengeIds: ['air-loop'] }] });
+    expect(getTracks().map(t => t.id)).toEqual([
+      'class-1',
+      'game:SonicTheHedgehog2-Genesis',
+      'game:Airstriker-Genesis',
+      'concept:loops',
+      'concept:sequences',
+    ]);
+  });
+
+  it('formats game names', () => {
+    expect(formatGameName('SonicTheHedgehog2-Genesis')).toBe('Sonic The Hedgehog 2 (Genesis)');
+  });
+});
+
+describe('built-in curriculum', () => {
+  it('has no unknown prerequisites or cycles', () => {
+    clearChallenges();
+    registerSonicChallenges();
+    expect(validateCurriculum()).toEqual([]);
+  });
+});
@@ -1,10 +1,19 @@
 /**
  * Challenge Registry
  *
- * Central registry for looking up challenges by ID or lesson number.
+ * Central registry for looking up challenges by ID or lesson number, and
+ * for the curriculum built on them: prerequisites that lock challenges
+ * until others are completed, and tracks that group challenges into units.
  */
 
-import { Challenge, ChallengeMeta, getChallengeMeta } from './types';
+import {
+  Challenge,
+  ChallengeMeta,
+  ChallengeTrack,
+  ProgrammingConcept,
+  TrackUnit,
+  getChallengeMeta,
+} from './types';
 import { GameId } from '../data/types';
 
 /**
@@ -12,6 +21,14 @@ import { GameId } from '../data/types';
  */
 const challenges: Map<string, Challenge> = new Map();
 
+/**
+ * Hand-made tracks, in registration order
+ */
+const customTracks: Map<string, ChallengeTrack> = new Map();
+
+/** Unit for challenges that don't name one */
+const DEFAULT_UNIT = 'Lessons';
+
 /**
  * Register a challenge
  */
@@ -118,10 +135,11 @@ export function getPreviousChallenge(currentId: string): Challenge | undefined {
 }
 
 /**
- * Clear all registered challenges (useful for testing)
+ * Clear all registered challenges and tracks (useful for testing)
  */
 export function clearChallenges(): void {
   challenges.clear();
+  customTracks.clear();
 }
 
 /**
@@ -130,3 +148,184 @@ export function clearChallenges(): void {
 export function getChallengeCount(): number {
   return challenges.size;
 }
+
+// ==================== Prerequisites ====================
+
+/**
+ * Get the prerequisites of a challenge that haven't been completed
+ *
+ * Prerequisites that aren't registered are ignored, so a missing lesson
+ * can't lock a challenge forever.
+ *
+ * @param id - Challenge ID
+ * @param completed - IDs of completed challenges (e.g., progress.completed)
+ */
+export function getMissingPrerequisites(id: string, completed: readonly string[]): Challenge[] {
+  const challenge = challenges.get(id);
+  if (!challenge) return [];
+
+  return (challenge.prerequisites ?? [])
+    .filter(prerequisite => !completed.includes(prerequisite))
+    .map(prerequisite => challenges.get(prerequisite))
+    .filter((c): c is Challenge => c !== undefined);
+}
+
+/**
+ * Check if every prerequisite of a challenge has been completed
+ *
+ * @param id - Challenge ID
+ * @param completed - IDs of completed challenges (e.g., progress.completed)
+ */
+export function isChallengeUnlocked(id: string, completed: readonly string[]): boolean {
+  return getMissingPrerequisites(id, completed).length === 0;
+}
+
+/**
+ * Get the challenges that can be attempted, sorted by lesson number
+ */
+export function getUnlockedChallenges(completed: readonly string[]): Challenge[] {
+  return getChallengesSorted().filter(c => isChallengeUnlocked(c.id, completed));
+}
+
+/**
+ * Get the challenges still waiting on prerequisites, sorted by lesson number
+ */
+export function getLockedChallenges(completed: readonly string[]): Challenge[] {
+  return getChallengesSorted().filter(c => !isChallengeUnlocked(c.id, completed));
+}
+
+/**
+ * Check the curriculum for prerequisites that don't exist or form a cycle
+ *
+ * @returns A description of each problem (empty if the curriculum is valid)
+ */
+export function validateCurriculum(): string[] {
+  const problems: string[] = [];
+
+  for (const challenge of challenges.values()) {
+    for (const prerequisite of challenge.prerequisites ?? []) {
+      if (!challenges.has(prerequisite)) {
+        problems.push(`${challenge.id}: unknown prerequisite "${prerequisite}"`);
+      }
+    }
+  }
+
+  // Depth-first search for a prerequisite that leads back to itself
+  const done = new Set<string>();
+  const visit = (id: string, path: string[]): void => {
+    if (path.includes(id)) {
+      problems.push(`Prerequisite cycle: ${[...path.slice(path.indexOf(id)), id].join(' -> ')}`);
+      return;
+    }
+    if (done.has(id)) return;
+    for (const prerequisite of challenges.get(id)?.prerequisites ?? []) {
+      visit(prerequisite, [...path, id]);
+    }
+    done.add(id);
+  };
+  for (const id of challenges.keys()) {
+    visit(id, []);
+  }
+
+  for (const track of customTracks.values()) {
+    for (const unit of track.units) {
+      for (const id of unit.challengeIds) {
+        if (!challenges.has(id)) {
+          problems.push(`Track "${track.id}", unit "${unit.name}": unknown challenge "${id}"`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+// ==================== Tracks ====================
+
+/**
+ * Register a hand-made track (e.g., a class syllabus)
+ *
+ * Replaces any track with the same ID.
+ */
+export function registerTrack(track: ChallengeTrack): void {
+  customTracks.set(track.id, track);
+}
+
+/**
+ * Turn a game ID into a display name
+ *
+ * @example
+ * formatGameName('SonicTheHedgehog2-Genesis') // 'Sonic The Hedgehog 2 (Genesis)'
+ */
+export function formatGameName(gameId: GameId): string {
+  return gameId
+    .replace(/-(\w+)$/, ' ($1)')
+    .replace(/([a-z])([A-Z0-9])/g, '$1 $2');
+}
+
+/**
+ * Turn a concept into a display name, e.g. "while-loops" -> "While loops"
+ */
+function formatConceptName(concept: ProgrammingConcept): string {
+  const words = concept.replace(/-/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Group challenges into units by a key, keeping first-seen order
+ */
+function groupIntoUnits(list: Challenge[], unitOf: (challenge: Challenge) => string): TrackUnit[] {
+  const units = new Map<string, string[]>();
+  for (const challenge of list) {
+    const name = unitOf(challenge);
+    units.set(name, [...(units.get(name) ?? []), challenge.id]);
+  }
+  return Array.from(units, ([name, challengeIds]) => ({ name, challengeIds }));
+}
+
+/**
+ * Get the track for one game: its challenges in lesson order, grouped by unit
+ */
+export function getGameTrack(gameId: GameId): ChallengeTrack {
+  return {
+    id: `game:${gameId}`,
+    name: formatGameName(gameId),
+    units: groupIntoUnits(getChallengesForGame(gameId), c => c.unit ?? DEFAULT_UNIT),
+  };
+}
+
+/**
+ * Get the track for one concept: every challenge teaching it, across
+ * games, with a unit per game
+ */
+export function getConceptTrack(concept: ProgrammingConcept): ChallengeTrack {
+  return {
+    id: `concept:${concept}`,
+    name: formatConceptName(concept),
+    units: groupIntoUnits(
+      getChallengesSorted().filter(c => c.concepts.includes(concept)),
+      c => formatGameName(c.game)
+    ),
+  };
+}
+
+/**
+ * Get every track: hand-made ones, then one per game, then one per concept
+ */
+export function getTracks(): ChallengeTrack[] {
+  const sorted = getChallengesSorted();
+  const games = [...new Set(sorted.map(c => c.game))];
+  const concepts = [...new Set(sorted.flatMap(c => c.concepts))].sort();
+  return [
+    ...customTracks.values(),
+    ...games.map(getGameTrack),
+    ...concepts.map(getConceptTrack),
+  ];
+}
+
+/**
+ * Get a track by ID (hand-made, "game:<GameId>" or "concept:<concept>")
+ */
+export function getTrack(id: string): ChallengeTrack | undefined {
+  return getTracks().find(track => track.id === id);
+}
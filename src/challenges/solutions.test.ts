@@ -0,0 +1,59 @@
+/**
+ * Every registered challenge must be solvable by its solution and not by
+ * its starter code, checked against a mock core.
+ */
+
+import '@vitest/web-worker';
+import { describe, it, expect } from 'vitest';
+import { GameId } from '../data/types';
+import {
+  MockPhysics,
+  airstrikerPhysics,
+  createMockController,
+  sonicPhysics,
+} from '../testing';
+import { verifyChallenge } from './challengeHarness';
+import {
+  getChallengesSorted,
+  lesson08Weave,
+  registerAirstrikerChallenges,
+  registerSonicChallenges,
+} from '.';
+
+/** Mock game logic for each game with challenges */
+const PHYSICS: Partial<Record<GameId, MockPhysics>> = {
+  'SonicTheHedgehog2-Genesis': sonicPhysics,
+  'Airstriker-Genesis': airstrikerPhysics,
+};
+
+registerSonicChallenges();
+registerAirstrikerChallenges();
+
+describe('challenge solutions', () => {
+  for (const challenge of getChallengesSorted()) {
+    const physics = PHYSICS[challenge.game];
+
+    it.skipIf(!physics)(`${challenge.id} is solved by its solution only`, async () => {
+      const controller = await createMockController({ physics });
+      const verification = await verifyChallenge(controller, challenge, {
+        startState: controller.saveState(),
+      });
+      expect(verification.problems).toEqual([]);
+    });
+  }
+});
+
+describe('Airstriker lesson 8', () => {
+  it('needs the weave to reach its score, not just an if statement', async () => {
+    const controller = await createMockController({ physics: airstrikerPhysics });
+    const { starter } = await verifyChallenge(controller, lesson08Weave, {
+      startState: controller.saveState(),
+    });
+
+    // Firing from where the ship starts finishes the loop short of 100 points
+    expect(starter.message).toBe('Code completed but goal was not achieved.');
+    expect(starter.goalProgress?.status).not.toBe('met');
+    expect(starter.finalState.lives).toBe(3);
+    expect(starter.finalState.score).toBeLessThan(100);
+  });
+});
@@ -23,8 +23,10 @@ advance the game by one frame.
 **Hint:** To move right continuously, you'll need to call step() multiple times.
 `,
   game: 'SonicTheHedgehog2-Genesis',
+  state: 'EmeraldHillZone.Act1',
   goal: (state) => state.x > 500,
   goalDescription: 'Move Sonic to x > 500',
+  goalThresholds: [{ variable: 'x', value: 500 }],
   maxFrames: 600, // ~10 seconds at 60fps
   hints: [
     'Use game.press("right") to start moving right',
@@ -39,6 +41,7 @@ game.press('right');
 await game.stepFrames(100);
 `,
   concepts: ['sequences'],
+  unit: 'Getting Started',
   difficulty: 'beginner',
   solution: `game.press('right');
 await game.stepFrames(200);`,
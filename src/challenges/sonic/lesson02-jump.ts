@@ -24,8 +24,10 @@ Your goal is to make Sonic jump so his y position goes below 300.
 **Button:** Use 'a' or 'b' to jump in Sonic games.
 `,
   game: 'SonicTheHedgehog2-Genesis',
+  state: 'EmeraldHillZone.Act1',
   goal: (state) => state.y < 300,
   goalDescription: 'Jump to y < 300',
+  goalThresholds: [{ variable: 'y', value: 300 }],
   maxFrames: 300,
   hints: [
     'Press "a" or "b" to jump',
@@ -38,6 +40,8 @@ Your goal is to make Sonic jump so his y position goes below 300.
 await game.tap('a'); // This is a quick tap - might not jump high enough!
 `,
   concepts: ['sequences'],
+  unit: 'Getting Started',
+  prerequisites: ['sonic-lesson-01-move-right'],
   difficulty: 'beginner',
   solution: `await game.hold('a', 30);`,
 };
@@ -24,8 +24,13 @@ at every frame, so Sonic needs to be at both conditions **at the same time**.
 **Strategy:** Move right first, then jump while still moving right!
 `,
   game: 'SonicTheHedgehog2-Genesis',
+  state: 'EmeraldHillZone.Act1',
   goal: (state) => state.x > 400 && state.y < 350,
   goalDescription: 'Reach x > 400 while airborne (y < 350)',
+  goalThresholds: [
+    { variable: 'x', value: 400 },
+    { variable: 'y', value: 350 },
+  ],
   maxFrames: 600,
   hints: [
     'You can press multiple buttons at the same time',
@@ -40,6 +45,8 @@ await game.stepFrames(100);
 // Now add a jump...
 `,
   concepts: ['sequences', 'expressions'],
+  unit: 'Getting Started',
+  prerequisites: ['sonic-lesson-01-move-right', 'sonic-lesson-02-jump'],
   difficulty: 'beginner',
   solution: `game.press('right');
 await game.stepFrames(100);
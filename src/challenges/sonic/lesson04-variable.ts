@@ -19,34 +19,54 @@ A variable is like a labeled box that holds a value. You can create one like thi
 let targetX = 600;
 \`\`\`
 
-Your goal is to move Sonic past a target position stored in a variable.
-The target is **600** - you need to declare this variable and then move
-Sonic past that x position.
+Once a variable holds a value, you can use its name anywhere you'd use the
+value. The starter code keeps Sonic running while his x position is at or
+below \`targetX\`, one frame at a time:
+\`\`\`javascript
+while (game.getVariable('x') <= targetX) {
+  await game.step();
+}
+\`\`\`
+
+Your goal is to move Sonic past x = **600**. Right now the target is
+stored as 100, so Sonic stops too early. Fix the target!
 
 **Why use variables?** They make your code flexible! If the target changes,
 you only need to update one number.
 `,
   game: 'SonicTheHedgehog2-Genesis',
+  state: 'EmeraldHillZone.Act1',
   goal: (state) => state.x > 600,
   goalDescription: 'Move Sonic past x > 600 (use a variable!)',
+  goalThresholds: [{ variable: 'x', value: 600 }],
+  requirements: {
+    required: ['variable'],
+    requiredIdentifiers: ['targetX'],
+  },
   maxFrames: 800,
   hints: [
-    'Declare a variable: let targetX = 600;',
-    'You can use game.getVariable("x") to check Sonic\'s current position',
-    'Compare values: game.getVariable("x") > targetX',
+    'The loop stops as soon as Sonic\'s x is past targetX',
+    'Change the value stored in targetX, not the loop',
+    'Set the target to the goal position: let targetX = 600;',
   ],
-  starterCode: `// Declare a target variable
-let targetX = 600;
+  starterCode: `// The x position Sonic has to get past
+let targetX = 100;
 
 // Move Sonic past the target position
 game.press('right');
 
-// How many frames do you need?
-await game.stepFrames(100); // Probably not enough...
+// Keep stepping while Sonic hasn't passed the target yet
+while (game.getVariable('x') <= targetX) {
+  await game.step();
+}
 `,
   concepts: ['variables'],
+  unit: 'Variables',
+  prerequisites: ['sonic-lesson-03-sequence'],
   difficulty: 'beginner',
   solution: `let targetX = 600;
 game.press('right');
-await game.stepFrames(250);`,
+while (game.getVariable('x') <= targetX) {
+  await game.step();
+}`,
 };
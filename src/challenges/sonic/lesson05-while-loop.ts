@@ -12,7 +12,8 @@ export const lesson05WhileLoop: Challenge = {
   lessonNumber: 5,
   name: 'Loop Until Goal',
   description: `
-What if you don't know exactly how many frames you need?
+In the last lesson, a loop kept Sonic running until he passed the target.
+Now you'll write one yourself!
 
 A **while loop** repeats code until a condition becomes false:
 \`\`\`javascript
@@ -29,8 +30,13 @@ Sonic's position and keeps going until he's past the target.
 **Important:** Always include \`await game.step()\` inside your loop!
 `,
   game: 'SonicTheHedgehog2-Genesis',
+  state: 'EmeraldHillZone.Act1',
   goal: (state) => state.x > 1000,
   goalDescription: 'Move Sonic past x > 1000 using a while loop',
+  goalThresholds: [{ variable: 'x', value: 1000 }],
+  requirements: {
+    required: ['while-loop'],
+  },
   maxFrames: 1200,
   hints: [
     'Use game.getVariable("x") to check Sonic\'s current x position',
@@ -41,12 +47,14 @@ Sonic's position and keeps going until he's past the target.
 
 game.press('right');
 
-// Keep stepping until we reach the goal
-while (game.getVariable('x') < 1000) {
-  await game.step();
-}
+// A fixed number of frames might not be enough!
+// Replace this line with a while loop that keeps stepping
+// until Sonic's x position passes 1000
+await game.stepFrames(100);
 `,
-  concepts: ['while-loops', 'conditionals'],
+  concepts: ['while-loops', 'loops', 'conditionals'],
+  unit: 'Loops',
+  prerequisites: ['sonic-lesson-04-variable'],
   difficulty: 'beginner',
   solution: `game.press('right');
 while (game.getVariable('x') < 1000) {
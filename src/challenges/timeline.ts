@@ -0,0 +1,62 @@
+/**
+ * State timelines - Per-frame history of game variables during a run
+ *
+ * Stored column-wise (one array per variable) so a long run stays compact
+ * and a single variable can be charted without reshaping the data.
+ */
+
+import type { GameState } from '../core/MemoryReader';
+
+/**
+ * Game variables sampled on every frame of a run
+ */
+export interface StateTimeline {
+  /** Run frame of each sample (0 = before the code ran) */
+  frames: number[];
+
+  /** Values of each variable, parallel to `frames` (NaN where unreadable) */
+  series: Record<string, number[]>;
+}
+
+/**
+ * Create an empty timeline
+ */
+export function createTimeline(): StateTimeline {
+  return { frames: [], series: {} };
+}
+
+/**
+ * Append a state snapshot to a timeline
+ *
+ * Variables missing from the snapshot are recorded as NaN, as are
+ * earlier samples of variables seen for the first time.
+ *
+ * @param timeline - Timeline to append to
+ * @param frame - Run frame the snapshot was taken on
+ * @param state - Game state at that frame
+ *
+ * @example
+ * const timeline = createTimeline();
+ * recordTimelineSample(timeline, 0, controller.getState());
+ */
+export function recordTimelineSample(
+  timeline: StateTimeline,
+  frame: number,
+  state: GameState
+): void {
+  const index = timeline.frames.length;
+  timeline.frames.push(frame);
+
+  for (const [name, value] of Object.entries(state)) {
+    let values = timeline.series[name];
+    if (!values) {
+      values = timeline.series[name] = new Array<number>(index).fill(NaN);
+    }
+    values.push(value);
+  }
+  for (const values of Object.values(timeline.series)) {
+    if (values.length === index) {
+      values.push(NaN);
+    }
+  }
+}
@@ -5,8 +5,12 @@
  * that teach programming concepts through retro games.
  */
 
+import type { GameController } from '../core/GameController';
 import { GameState } from '../core/MemoryReader';
-import { GameId } from '../data/types';
+import { Movie } from '../core/movie';
+import { GameId, ScenarioOp } from '../data/types';
+import { CodeCheckResult, CodeRequirements, CompileDiagnostic } from '../sandbox/types';
+import { StateTimeline } from './timeline';
 
 /**
  * Function that checks if the challenge goal has been achieved.
@@ -20,6 +24,209 @@ import { GameId } from '../data/types';
  */
 export type GoalFunction = (state: GameState) => boolean;
 
+// ==================== Goal DSL ====================
+//
+// Declarative goals are trees of GoalSpec nodes evaluated once per frame.
+// Each node is 'met', 'pending' or 'failed' on a given frame:
+// - condition, predicate: met on frames where they hold
+// - all / any / not: combine their children on the same frame
+// - sequence: met once every step has been met, in order, on later frames
+// - within: met if its goal is met within N frames of becoming active
+// - never: met until its goal is met once, then failed for good
+// - after: met once N frames have passed since becoming active
+// Nodes become active when first evaluated, so timers inside a sequence
+// start when the sequence reaches their step.
+
+/**
+ * How a condition measures its variable
+ * - 'absolute': the current value
+ * - 'delta': change since the previous frame
+ * - 'start-delta': change since the run started
+ */
+export type GoalMeasurement = 'absolute' | 'delta' | 'start-delta';
+
+/**
+ * Everything a goal can look at on a frame
+ */
+export interface GoalContext {
+  /** Game state on this frame */
+  state: GameState;
+
+  /** Game state on the previous frame (same as state on the first frame) */
+  previous: GameState;
+
+  /** Game state when the run started */
+  start: GameState;
+
+  /** Frames stepped since the run started */
+  frame: number;
+}
+
+/**
+ * Fields shared by every goal node
+ */
+interface GoalSpecBase {
+  /** Text shown in the progress list (generated if omitted) */
+  label?: string;
+}
+
+/**
+ * Compare a variable against a value, like a scenario.json condition
+ *
+ * @example
+ * // Lost a life since the start
+ * { type: 'condition', variable: 'lives', op: 'less-than', reference: 0, measurement: 'start-delta' }
+ */
+export interface ConditionGoal extends GoalSpecBase {
+  type: 'condition';
+
+  /** Variable name from data.json */
+  variable: string;
+
+  /** Comparison operator (default: 'nonzero') */
+  op?: ScenarioOp;
+
+  /** Number to compare against, or the name of another variable */
+  reference?: number | string;
+
+  /** How to measure the variable (default: 'absolute') */
+  measurement?: GoalMeasurement;
+}
+
+/**
+ * Arbitrary check with access to the previous and starting states
+ */
+export interface PredicateGoal extends GoalSpecBase {
+  type: 'predicate';
+  test: (context: GoalContext) => boolean;
+}
+
+/** Met when all goals are met on the same frame */
+export interface AllGoal extends GoalSpecBase {
+  type: 'all';
+  goals: GoalSpec[];
+}
+
+/** Met when any goal is met */
+export interface AnyGoal extends GoalSpecBase {
+  type: 'any';
+  goals: GoalSpec[];
+}
+
+/** Met when the goal is not met */
+export interface NotGoal extends GoalSpecBase {
+  type: 'not';
+  goal: GoalSpec;
+}
+
+/** Met once each step has been met in order */
+export interface SequenceGoal extends GoalSpecBase {
+  type: 'sequence';
+  steps: GoalSpec[];
+}
+
+/** Met if the goal is met within a number of frames, failed otherwise */
+export interface WithinGoal extends GoalSpecBase {
+  type: 'within';
+  frames: number;
+  goal: GoalSpec;
+}
+
+/** Failed as soon as the goal is met, met until then */
+export interface NeverGoal extends GoalSpecBase {
+  type: 'never';
+  goal: GoalSpec;
+}
+
+/** Met once a number of frames have passed */
+export interface AfterGoal extends GoalSpecBase {
+  type: 'after';
+  frames: number;
+}
+
+/**
+ * A declarative goal
+ *
+ * @example
+ * // Reach x > 800 without losing a life
+ * const goal: GoalSpec = {
+ *   type: 'all',
+ *   goals: [
+ *     { type: 'condition', variable: 'x', op: 'greater-than', reference: 800 },
+ *     { type: 'never', goal: { type: 'condition', variable: 'lives', op: 'negative', measurement: 'start-delta' } },
+ *   ],
+ * };
+ */
+export type GoalSpec =
+  | ConditionGoal
+  | PredicateGoal
+  | AllGoal
+  | AnyGoal
+  | NotGoal
+  | SequenceGoal
+  | WithinGoal
+  | NeverGoal
+  | AfterGoal;
+
+/**
+ * A challenge goal: a check of a single snapshot, or a declarative goal
+ */
+export type ChallengeGoal = GoalFunction | GoalSpec;
+
+/**
+ * Status of a goal on the current frame
+ */
+export type GoalStatus = 'pending' | 'met' | 'failed';
+
+/**
+ * Progress of a goal and its subgoals, for display
+ */
+export interface GoalProgress {
+  label: string;
+  status: GoalStatus;
+
+  /** Extra information, e.g. "x = 420" or "120/300 frames" */
+  detail?: string;
+
+  children?: GoalProgress[];
+}
+
+/**
+ * A variable value the goal compares against, drawn on timeline charts
+ *
+ * @example
+ * // Goal: state.x > 500
+ * const threshold: GoalThreshold = { variable: 'x', value: 500 };
+ */
+export interface GoalThreshold {
+  /** Variable name from data.json */
+  variable: string;
+
+  /** Value the variable has to cross */
+  value: number;
+}
+
+/**
+ * Function that prepares the game once the start state is loaded
+ *
+ * @example
+ * // Start with one life and 50 rings
+ * const setup: SetupFunction = (controller) => {
+ *   controller.setVariable('lives', 1);
+ *   controller.setVariable('rings', 50);
+ * };
+ */
+export type SetupFunction = (controller: GameController) => void | Promise<void>;
+
+/**
+ * Challenge setup: a function, or values to write to variables
+ *
+ * @example
+ * // Same as the SetupFunction example
+ * const setup: ChallengeSetup = { lives: 1, rings: 50 };
+ */
+export type ChallengeSetup = SetupFunction | Record<string, number>;
+
 /**
  * Challenge difficulty level
  */
@@ -60,11 +267,24 @@ export interface Challenge {
   /** Game identifier (e.g., "SonicTheHedgehog2-Genesis") */
   game: GameId;
 
-  /** Optional save state to start from (for specific scenarios) */
+  /**
+   * Named Stable Retro state to start every attempt from
+   * (e.g., "EmeraldHillZone.Act1"; default: the game's default_state)
+   */
+  state?: string;
+
+  /** Optional save state to start from, instead of a named state */
   initialState?: Uint8Array;
 
-  /** Goal function that determines success */
-  goal: GoalFunction;
+  /**
+   * Optional changes applied after the start state is loaded, so a
+   * challenge can adjust e.g. Sonic's x, lives or rings without its own
+   * save state
+   */
+  setup?: ChallengeSetup;
+
+  /** Goal that determines success */
+  goal: ChallengeGoal;
 
   /** Maximum frames allowed before timeout */
   maxFrames: number;
@@ -86,6 +306,18 @@ export interface Challenge {
 
   /** Optional goal description for display */
   goalDescription?: string;
+
+  /** Optional goal thresholds to overlay on timeline charts */
+  goalThresholds?: GoalThreshold[];
+
+  /** Optional constraints on the structure of the student's code */
+  requirements?: CodeRequirements;
+
+  /** IDs of challenges that must be completed before this one unlocks */
+  prerequisites?: string[];
+
+  /** Unit within the game's track (e.g., "Getting Started"; default: "Lessons") */
+  unit?: string;
 }
 
 /**
@@ -109,6 +341,27 @@ export interface ChallengeResult {
 
   /** Detailed error stack trace (for debugging) */
   errorStack?: string;
+
+  /** Line in the student's code where a runtime error was thrown */
+  errorLine?: number;
+
+  /** Compiler diagnostics for the student's code */
+  diagnostics?: CompileDiagnostic[];
+
+  /** Recorded inputs, for replaying the run */
+  movie?: Movie;
+
+  /** Every variable on every frame of the run (when recorded) */
+  timeline?: StateTimeline;
+
+  /** Final status of the goal and each subgoal */
+  goalProgress?: GoalProgress;
+
+  /**
+   * Result of checking the code against challenge.requirements. The
+   * challenge only succeeds if the goal is met and this passed.
+   */
+  codeCheck?: CodeCheckResult;
 }
 
 /**
@@ -122,18 +375,37 @@ export type ChallengeStatus =
   | 'timeout'
   | 'error';
 
+/**
+ * The parts of a successful result kept in saved progress
+ */
+export interface BestResult {
+  /** Frames the goal took */
+  framesUsed: number;
+
+  /** When it was achieved (ISO 8601) */
+  achievedAt: string;
+}
+
 /**
  * Progress through the challenge curriculum
+ *
+ * Plain JSON, so it can be saved and exported as is.
  */
 export interface ChallengeProgress {
-  /** Completed challenge IDs */
+  /** Completed challenge IDs, in the order they were first completed */
   completed: string[];
 
   /** Current challenge being worked on */
   current?: string;
 
-  /** Best results for each challenge */
-  bestResults: Record<string, ChallengeResult>;
+  /** Fewest-frames success for each completed challenge */
+  bestResults: Record<string, BestResult>;
+
+  /** Number of runs of each challenge */
+  attempts: Record<string, number>;
+
+  /** Code last run for each challenge */
+  lastCode: Record<string, string>;
 }
 
 /**
@@ -230,6 +502,32 @@ export interface ChallengeMeta {
   game: GameId;
   concepts: ProgrammingConcept[];
   difficulty?: ChallengeDifficulty;
+  prerequisites?: string[];
+}
+
+/**
+ * A group of challenges within a track
+ */
+export interface TrackUnit {
+  name: string;
+
+  /** Challenge IDs in the order they should be done */
+  challengeIds: string[];
+}
+
+/**
+ * A path through the curriculum, e.g. one game's lessons or every
+ * challenge that teaches loops
+ */
+export interface ChallengeTrack {
+  /** Unique identifier (e.g., "game:SonicTheHedgehog2-Genesis", "concept:loops") */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Units in order */
+  units: TrackUnit[];
 }
 
 /**
@@ -243,5 +541,6 @@ export function getChallengeMeta(challenge: Challenge): ChallengeMeta {
     game: challenge.game,
     concepts: challenge.concepts,
     difficulty: challenge.difficulty,
+    prerequisites: challenge.prerequisites,
   };
 }
@@ -1,8 +1,10 @@
 import { useState, useCallback, useRef } from 'react';
 import { EmulatorCanvas } from './EmulatorCanvas';
 import { ChallengePanel } from './ChallengePanel';
+import { AuthoringPanel } from './AuthoringPanel';
 import { GameController, Button } from '../core/GameController';
 import { EmulatorState } from '../core/EmulatorBridge';
+import { CORE_CONSOLES } from '../core/ramDiscovery';
 
 const BUTTONS: Button[] = ['up', 'down', 'left', 'right', 'a', 'b', 'x', 'y', 'l', 'r', 'start', 'select'];
 
@@ -12,7 +14,7 @@ const PRESET_ROMS = [
   { name: 'Airstriker (Genesis)', url: 'roms/airstriker.md', core: 'genesis_plus_gx' },
 ];
 
-type AppMode = 'sandbox' | 'challenges';
+type AppMode = 'sandbox' | 'challenges' | 'author';
 
 export function App() {
   const [gameUrl, setGameUrl] = useState<string>('');
@@ -28,7 +30,7 @@ export function App() {
   const handleReady = useCallback((newController: GameController) => {
     controllerRef.current = newController;
     setController(newController); // This triggers re-render for ChallengePanel
-    newController.setRamOffset('genesis');
+    newController.setRamOffset(CORE_CONSOLES[core] ?? 'genesis');
 
     // Airstriker is an unlicensed homebrew - disable address error checking
     if (gameUrl.toLowerCase().includes('airstriker')) {
@@ -39,7 +41,7 @@ export function App() {
 
     // Expose controller globally for debugging
     (window as unknown as { game: GameController }).game = newController;
-  }, [gameUrl]);
+  }, [gameUrl, core]);
 
   const handleStateChange = useCallback((newState: EmulatorState) => {
     setState(newState);
@@ -195,6 +197,7 @@ export function App() {
               onClick={() => setMode('sandbox')}
               style={{
                 padding: '8px 16px',
+                marginRight: '10px',
                 backgroundColor: mode === 'sandbox' ? '#2196f3' : '#ddd',
                 color: mode === 'sandbox' ? 'white' : '#333',
                 border: 'none',
@@ -204,6 +207,19 @@ export function App() {
             >
               Sandbox
             </button>
+            <button
+              onClick={() => setMode('author')}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: mode === 'author' ? '#2196f3' : '#ddd',
+                color: mode === 'author' ? 'white' : '#333',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+              }}
+            >
+              Author
+            </button>
           </div>
 
           <div style={{ marginBottom: '10px' }}>
@@ -231,6 +247,8 @@ export function App() {
                   gameUrl={gameUrl}
                   onChallengeStart={handleChallengeStart}
                 />
+              ) : mode === 'author' ? (
+                <AuthoringPanel controller={controller} />
               ) : (
                 <>
                   <h3>Frame Control</h3>
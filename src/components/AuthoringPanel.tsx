@@ -0,0 +1,388 @@
+/**
+ * AuthoringPanel - Create a challenge from the running game
+ *
+ * A teacher plays to the starting point, captures the state, builds a goal
+ * from the game's variables, writes the text, test-runs the solution and
+ * exports the result as a challenge file.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { GameController } from '../core/GameController';
+import { GameState } from '../core/MemoryReader';
+import { getAvailableGames, getVariableNames, loadDataJson } from '../data/parser';
+import { GameId, ScenarioOp } from '../data/types';
+import {
+  ChallengeDraft,
+  DraftCondition,
+  buildChallengeFromDraft,
+  createChallengeDraft,
+  exportChallengeFile,
+  formatGameName,
+  getChallengeCount,
+  getDraftProblems,
+  registerChallenge,
+} from '../challenges';
+import { GoalMeasurement } from '../challenges/types';
+import { ChallengeVerification, verifyChallenge } from '../challenges/challengeHarness';
+
+const OPS: ScenarioOp[] = [
+  'greater-than',
+  'less-than',
+  'greater-or-equal',
+  'less-or-equal',
+  'equal',
+  'not-equal',
+  'zero',
+  'nonzero',
+  'positive',
+  'negative',
+];
+
+const MEASUREMENTS: { value: GoalMeasurement; label: string }[] = [
+  { value: 'absolute', label: 'value' },
+  { value: 'start-delta', label: 'change since start' },
+  { value: 'delta', label: 'change per frame' },
+];
+
+/**
+ * A captured start state and the variables at that moment
+ */
+interface CapturedState {
+  state: Uint8Array;
+  frame: number;
+  values: GameState;
+}
+
+interface AuthoringPanelProps {
+  controller: GameController | null;
+}
+
+const labelStyle = { display: 'block', fontSize: '12px', color: '#666', marginTop: '8px' };
+const inputStyle = { width: '100%', padding: '4px', fontSize: '13px', boxSizing: 'border-box' as const };
+const codeStyle = { ...inputStyle, fontFamily: 'monospace', minHeight: '60px' };
+const sectionStyle = {
+  padding: '10px',
+  backgroundColor: '#f5f5f5',
+  borderRadius: '4px',
+  marginBottom: '10px',
+};
+
+export function AuthoringPanel({ controller }: AuthoringPanelProps) {
+  const games = useMemo(() => getAvailableGames(), []);
+  const [draft, setDraft] = useState<ChallengeDraft>(() =>
+    createChallengeDraft(games[0], getChallengeCount() + 1)
+  );
+  const [captured, setCaptured] = useState<CapturedState | null>(null);
+  const [verification, setVerification] = useState<ChallengeVerification | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const variables = useMemo(() => getVariableNames(loadDataJson(draft.game)), [draft.game]);
+  const problems = useMemo(() => getDraftProblems(draft), [draft]);
+
+  // Read variables for the selected game
+  useEffect(() => {
+    try {
+      controller?.loadGameData(draft.game);
+    } catch (e) {
+      console.log('[AuthoringPanel] Failed to load game data:', e);
+    }
+  }, [controller, draft.game]);
+
+  const update = useCallback((changes: Partial<ChallengeDraft>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+    setVerification(null);
+  }, []);
+
+  const updateCondition = useCallback((index: number, changes: Partial<DraftCondition>) => {
+    setDraft((current) => ({
+      ...current,
+      conditions: current.conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }));
+    setVerification(null);
+  }, []);
+
+  const handleGameChange = useCallback((game: GameId) => {
+    setDraft((current) => ({ ...current, game, conditions: [], initialState: undefined }));
+    setCaptured(null);
+    setVerification(null);
+  }, []);
+
+  const handleCapture = useCallback(() => {
+    if (!controller) return;
+    try {
+      const state = controller.saveState();
+      const values = controller.isMemoryDiscovered ? controller.getState() : {};
+      setCaptured({ state, frame: controller.frameNumber, values });
+      update({ initialState: state });
+      setMessage(null);
+    } catch (error) {
+      setMessage(`Failed to capture state: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [controller, update]);
+
+  const handleAddCondition = useCallback(() => {
+    const variable = variables[0] ?? '';
+    setDraft((current) => ({
+      ...current,
+      conditions: [
+        ...current.conditions,
+        { variable, op: 'greater-than', reference: captured?.values[variable] ?? 0, measurement: 'absolute' },
+      ],
+    }));
+    setVerification(null);
+  }, [variables, captured]);
+
+  const handleRemoveCondition = useCallback((index: number) => {
+    setDraft((current) => ({ ...current, conditions: current.conditions.filter((_, i) => i !== index) }));
+    setVerification(null);
+  }, []);
+
+  const handleTestRun = useCallback(async () => {
+    if (!controller) return;
+    setTesting(true);
+    setMessage(null);
+    try {
+      setVerification(await verifyChallenge(controller, buildChallengeFromDraft(draft)));
+    } catch (error) {
+      setMessage(`Test run failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setTesting(false);
+    }
+  }, [controller, draft]);
+
+  const handleAddToChallenges = useCallback(() => {
+    try {
+      const challenge = buildChallengeFromDraft(draft);
+      registerChallenge(challenge);
+      setMessage(`Added "${challenge.name}" to the challenge list`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, [draft]);
+
+  const handleExport = useCallback(() => {
+    try {
+      const challenge = buildChallengeFromDraft(draft);
+      const blob = new Blob([exportChallengeFile([challenge])], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${challenge.id}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, [draft]);
+
+  const verified = verification !== null && verification.problems.length === 0;
+
+  return (
+    <div style={{ fontSize: '14px' }}>
+      <h3 style={{ marginTop: 0 }}>Create a Challenge</h3>
+
+      {/* Game and start state */}
+      <div style={sectionStyle}>
+        <label style={{ ...labelStyle, marginTop: 0 }}>Game</label>
+        <select
+          value={draft.game}
+          onChange={(e) => handleGameChange(e.target.value)}
+          style={inputStyle}
+        >
+          {games.map((game) => (
+            <option key={game} value={game}>
+              {formatGameName(game)}
+            </option>
+          ))}
+        </select>
+
+        <label style={labelStyle}>Start state</label>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <button onClick={handleCapture} disabled={!controller} style={{ padding: '4px 10px' }}>
+            Capture Current State
+          </button>
+          <span style={{ fontSize: '12px', color: '#666' }}>
+            {captured
+              ? `Frame ${captured.frame} (${Math.round(captured.state.length / 1024)} KB)`
+              : "Not captured: uses the game's default state"}
+          </span>
+        </div>
+      </div>
+
+      {/* Goal */}
+      <div style={sectionStyle}>
+        <strong style={{ fontSize: '13px' }}>Goal</strong>
+        {draft.conditions.map((condition, index) => (
+          <div key={index} style={{ display: 'flex', gap: '4px', marginTop: '6px' }}>
+            <select
+              value={condition.measurement}
+              onChange={(e) => updateCondition(index, { measurement: e.target.value as GoalMeasurement })}
+              title="What to measure"
+            >
+              {MEASUREMENTS.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label} of
+                </option>
+              ))}
+            </select>
+            <select
+              value={condition.variable}
+              onChange={(e) => updateCondition(index, { variable: e.target.value })}
+              style={{ flex: 1 }}
+            >
+              {variables.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                  {captured && name in captured.values ? ` (${captured.values[name]})` : ''}
+                </option>
+              ))}
+            </select>
+            <select
+              value={condition.op}
+              onChange={(e) => updateCondition(index, { op: e.target.value as ScenarioOp })}
+            >
+              {OPS.map((op) => (
+                <option key={op} value={op}>
+                  {op}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={Number.isFinite(condition.reference) ? condition.reference : ''}
+              onChange={(e) => updateCondition(index, { reference: parseFloat(e.target.value) })}
+              style={{ width: '70px' }}
+            />
+            <button onClick={() => handleRemoveCondition(index)} title="Remove condition">
+              ✕
+            </button>
+          </div>
+        ))}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '6px' }}>
+          <button onClick={handleAddCondition} disabled={variables.length === 0}>
+            Add Condition
+          </button>
+          {draft.conditions.length > 1 && (
+            <select
+              value={draft.combine}
+              onChange={(e) => update({ combine: e.target.value as ChallengeDraft['combine'] })}
+            >
+              <option value="all">All on the same frame</option>
+              <option value="any">Any one</option>
+            </select>
+          )}
+        </div>
+        <label style={labelStyle}>Max frames</label>
+        <input
+          type="number"
+          value={draft.maxFrames}
+          onChange={(e) => update({ maxFrames: parseInt(e.target.value, 10) })}
+          style={inputStyle}
+        />
+      </div>
+
+      {/* Text */}
+      <div style={sectionStyle}>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <div style={{ flex: 2 }}>
+            <label style={{ ...labelStyle, marginTop: 0 }}>ID</label>
+            <input
+              value={draft.id}
+              onChange={(e) => update({ id: e.target.value })}
+              placeholder="sonic-extra-01"
+              style={inputStyle}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label style={{ ...labelStyle, marginTop: 0 }}>Lesson</label>
+            <input
+              type="number"
+              value={draft.lessonNumber}
+              onChange={(e) => update({ lessonNumber: parseInt(e.target.value, 10) || 0 })}
+              style={inputStyle}
+            />
+          </div>
+        </div>
+        <label style={labelStyle}>Name</label>
+        <input value={draft.name} onChange={(e) => update({ name: e.target.value })} style={inputStyle} />
+        <label style={labelStyle}>Description (Markdown)</label>
+        <textarea
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          style={{ ...inputStyle, minHeight: '80px' }}
+        />
+        <label style={labelStyle}>Hints (one per line)</label>
+        <textarea
+          value={draft.hints.join('\n')}
+          onChange={(e) => update({ hints: e.target.value.split('\n') })}
+          style={{ ...inputStyle, minHeight: '50px' }}
+        />
+        <label style={labelStyle}>Starter code</label>
+        <textarea
+          value={draft.starterCode}
+          onChange={(e) => update({ starterCode: e.target.value })}
+          style={codeStyle}
+        />
+        <label style={labelStyle}>Solution</label>
+        <textarea
+          value={draft.solution}
+          onChange={(e) => update({ solution: e.target.value })}
+          style={codeStyle}
+        />
+      </div>
+
+      {/* Actions */}
+      {problems.length > 0 && (
+        <ul style={{ margin: '0 0 10px', paddingLeft: '20px', fontSize: '12px', color: '#e65100' }}>
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '10px' }}>
+        <button
+          onClick={handleTestRun}
+          disabled={!controller || testing || problems.length > 0}
+          style={{ padding: '6px 12px' }}
+        >
+          {testing ? 'Testing...' : 'Test Run'}
+        </button>
+        <button onClick={handleAddToChallenges} disabled={problems.length > 0} style={{ padding: '6px 12px' }}>
+          Add to Challenges
+        </button>
+        <button onClick={handleExport} disabled={problems.length > 0} style={{ padding: '6px 12px' }}>
+          Export Package
+        </button>
+      </div>
+
+      {verification && (
+        <div
+          style={{
+            padding: '10px',
+            borderRadius: '4px',
+            marginBottom: '10px',
+            fontSize: '13px',
+            backgroundColor: verified ? '#e8f5e9' : '#ffebee',
+            border: `1px solid ${verified ? '#4caf50' : '#f44336'}`,
+          }}
+        >
+          <strong>{verified ? 'Challenge works!' : 'Challenge needs work'}</strong>
+          <div style={{ marginTop: '5px' }}>
+            Solution: {verification.solution?.message ?? 'not run'}
+          </div>
+          <div>Starter code: {verification.starter.message}</div>
+          {verification.problems.map((problem) => (
+            <div key={problem} style={{ color: '#c62828' }}>
+              {problem}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && (
+        <pre style={{ margin: 0, fontSize: '12px', whiteSpace: 'pre-wrap', color: '#333' }}>{message}</pre>
+      )}
+    </div>
+  );
+}
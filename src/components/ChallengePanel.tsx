@@ -2,9 +2,10 @@
  * ChallengePanel - Main UI for selecting and running challenges
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { CodeEditor } from './CodeEditor';
 import { ResultDisplay } from './ResultDisplay';
+import { TrackView } from './TrackView';
 import { GameController } from '../core/GameController';
 import { ChallengeEngine } from '../challenges/ChallengeEngine';
 import {
@@ -12,18 +13,33 @@ import {
   ChallengeResult,
   ChallengeStatus,
   ChallengeMeta,
+  GoalProgress,
 } from '../challenges/types';
 import {
   getAllChallengeMeta,
   getChallenge,
   registerSonicChallenges,
+  registerAirstrikerChallenges,
   startGame,
   isGameReady,
+  getGoalThresholds,
+  getMissingPrerequisites,
+  getTracks,
+  isChallengeUnlocked,
+  ProgressStore,
+  ChallengePack,
+  loadChallengesFromFile,
+  loadChallengesFromUrl,
 } from '../challenges';
-import { LogEntry } from '../sandbox/types';
+import { LogEntry, describeCodeRequirements } from '../sandbox/types';
+import { Movie, encodeBk2, decodeBk2 } from '../core/movie';
 
 // Register challenges on module load
 registerSonicChallenges();
+registerAirstrikerChallenges();
+
+/** Page URL parameter naming a challenge file to load, e.g. ?challenges=/extra.yaml */
+const CHALLENGES_URL_PARAM = 'challenges';
 
 interface ChallengePanelProps {
   controller: GameController | null;
@@ -67,15 +83,65 @@ export function ChallengePanel({
   const [startingGame, setStartingGame] = useState(false);
   const [startProgress, setStartProgress] = useState('');
   const [lastError, setLastError] = useState<string | null>(null);
-
-  // Load challenges list
+  const [activeLine, setActiveLine] = useState<number | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const [loadedMovie, setLoadedMovie] = useState<Movie | null>(null);
+  const [stopOnGoal, setStopOnGoal] = useState(false);
+  const [goalProgress, setGoalProgress] = useState<GoalProgress | null>(null);
+  const movieInputRef = useRef<HTMLInputElement>(null);
+  const progressInputRef = useRef<HTMLInputElement>(null);
+  const challengeFileInputRef = useRef<HTMLInputElement>(null);
+  // Bumped when challenge files are loaded, to re-read the registry
+  const [catalogVersion, setCatalogVersion] = useState(0);
+  const [progressStore] = useState(() => new ProgressStore());
+  const [progress, setProgress] = useState(() => progressStore.progress);
+  const [trackId, setTrackId] = useState('');
+
+  useEffect(() => progressStore.subscribe(setProgress), [progressStore]);
+
+  // Load challenges list, resuming the last challenge worked on
   useEffect(() => {
     const meta = getAllChallengeMeta();
     setChallenges(meta);
     if (meta.length > 0 && !selectedId) {
-      setSelectedId(meta[0].id);
+      const current = progressStore.progress.current;
+      setSelectedId(meta.some((c) => c.id === current) ? current! : meta[0].id);
     }
-  }, [selectedId]);
+  }, [selectedId, progressStore, catalogVersion]);
+
+  const tracks = useMemo(() => getTracks(), [challenges]);
+  const selectedTrack = tracks.find((track) => track.id === trackId);
+
+  // Prerequisites still to complete before the current challenge unlocks
+  const missingPrerequisites = useMemo(
+    () => (currentChallenge ? getMissingPrerequisites(currentChallenge.id, progress.completed) : []),
+    [currentChallenge, progress]
+  );
+  const locked = missingPrerequisites.length > 0;
+
+  // Game API typings for the editor
+  const apiDeclarations = useMemo(
+    () => (engine && currentChallenge ? engine.getApiDeclarations(currentChallenge) : undefined),
+    [engine, currentChallenge]
+  );
+
+  // Chart thresholds: explicit ones, or those found in a declarative goal
+  const goalThresholds = useMemo(
+    () =>
+      currentChallenge
+        ? currentChallenge.goalThresholds ?? getGoalThresholds(currentChallenge.goal)
+        : undefined,
+    [currentChallenge]
+  );
+
+  // Show runtime errors at the failing line
+  const runtimeError = useMemo(
+    () =>
+      result?.error && result.errorLine !== undefined
+        ? { line: result.errorLine, message: result.error }
+        : null,
+    [result]
+  );
 
   // Create engine when controller is available
   useEffect(() => {
@@ -144,7 +210,8 @@ export function ChallengePanel({
       const challenge = getChallenge(selectedId);
       if (challenge) {
         setCurrentChallenge(challenge);
-        setCode(challenge.starterCode);
+        setCode(progressStore.getLastCode(challenge.id) ?? challenge.starterCode);
+        progressStore.setCurrent(challenge.id);
         setResult(null);
         setStatus('idle');
         setConsoleOutput([]);
@@ -152,7 +219,24 @@ export function ChallengePanel({
         setHintIndex(0);
       }
     }
-  }, [selectedId]);
+  }, [selectedId, progressStore, catalogVersion]);
+
+  // Show newly loaded challenges, starting with the first
+  const showLoadedChallenges = useCallback((pack: ChallengePack) => {
+    setCatalogVersion((version) => version + 1);
+    setSelectedId(pack.challenges[0].id);
+  }, []);
+
+  // Load the challenge file named in the page URL, if any
+  useEffect(() => {
+    const url = new URLSearchParams(window.location.search).get(CHALLENGES_URL_PARAM);
+    if (!url) return;
+    loadChallengesFromUrl(url)
+      .then(showLoadedChallenges)
+      .catch((error) => {
+        setLastError(`Failed to load challenges: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  }, [showLoadedChallenges]);
 
   const handleChallengeSelect = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -175,7 +259,8 @@ export function ChallengePanel({
       const result = await startGame(
         currentChallenge.game,
         controller,
-        setStartProgress
+        setStartProgress,
+        currentChallenge.state
       );
 
       if (result.success) {
@@ -216,6 +301,9 @@ export function ChallengePanel({
     setResult(null);
     setConsoleOutput([]);
     setLastError(null);
+    setActiveLine(null);
+    setLoadedMovie(null);
+    setGoalProgress(null);
     setStatus('running');
     onChallengeStart?.();
 
@@ -242,10 +330,16 @@ export function ChallengePanel({
         {
           onLog: handleLog,
           onStatusChange: setStatus,
+          onLineChange: setActiveLine,
+          onGoalProgress: setGoalProgress,
+          typeCheck: true,
+          recordTimeline: true,
+          stopOnGoal,
         }
       );
 
       console.log('[ChallengePanel] Challenge complete:', challengeResult);
+      progressStore.recordAttempt(currentChallenge.id, code, challengeResult);
       setResult(challengeResult);
       setConsoleOutput(logs);
 
@@ -268,21 +362,87 @@ export function ChallengePanel({
       });
       setStatus('error');
     }
-  }, [engine, currentChallenge, controller, code, onChallengeStart]);
+  }, [engine, currentChallenge, controller, code, stopOnGoal, onChallengeStart, progressStore]);
 
   const handleStop = useCallback(() => {
     engine?.stop();
     setStatus('idle');
   }, [engine]);
 
-  const handleReset = useCallback(() => {
+  const handleReset = useCallback(async () => {
     if (currentChallenge) {
       setCode(currentChallenge.starterCode);
       setResult(null);
       setStatus('idle');
       setConsoleOutput([]);
+      setGoalProgress(null);
+
+      // Put the game back at the challenge's starting point
+      if (engine && gameReady) {
+        try {
+          await engine.restoreStartState(currentChallenge);
+        } catch (error) {
+          setLastError(`Failed to reset the game: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+  }, [currentChallenge, engine, gameReady]);
+
+  const handleDownloadMovie = useCallback(() => {
+    if (!result?.movie) return;
+    const blob = new Blob([encodeBk2(result.movie) as unknown as BlobPart], {
+      type: 'application/zip',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${currentChallenge?.id ?? 'run'}.bk2`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [result, currentChallenge]);
+
+  const handleLoadMovie = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setLoadedMovie(await decodeBk2(new Uint8Array(await file.arrayBuffer())));
+    } catch (error) {
+      setLastError(`Failed to load movie: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, []);
+
+  const handleExportProgress = useCallback(() => {
+    const blob = new Blob([progressStore.exportJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'emulearner-progress.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [progressStore]);
+
+  const handleImportProgress = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      progressStore.importJson(await file.text());
+    } catch (error) {
+      setLastError(`Failed to import progress: ${error instanceof Error ? error.message : String(error)}`);
     }
-  }, [currentChallenge]);
+  }, [progressStore]);
+
+  const handleLoadChallengeFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      showLoadedChallenges(await loadChallengesFromFile(file));
+    } catch (error) {
+      setLastError(`Failed to load challenges: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [showLoadedChallenges]);
 
   // Debug function to test basic input
   const handleDebugTest = useCallback(async () => {
@@ -374,7 +534,8 @@ export function ChallengePanel({
             <>
               <p style={{ margin: '10px 0 15px', fontSize: '14px' }}>
                 The game needs to be started before running challenges.
-                Click the button below to automatically navigate through the menus,
+                Click the button below to jump to the challenge's starting point
+                (or navigate through the menus for games without saved states),
                 or start the game manually.
               </p>
               <button
@@ -424,12 +585,80 @@ export function ChallengePanel({
             borderRadius: '4px',
           }}
         >
-          {challenges.map((c) => (
-            <option key={c.id} value={c.id}>
-              Lesson {c.lessonNumber}: {c.name}
+          {challenges.map((c) => {
+            const done = progress.completed.includes(c.id);
+            const unlocked = isChallengeUnlocked(c.id, progress.completed);
+            return (
+              <option key={c.id} value={c.id}>
+                {done ? '✓ ' : unlocked ? '' : '🔒 '}Lesson {c.lessonNumber}: {c.name}
+              </option>
+            );
+          })}
+        </select>
+        <select
+          value={trackId}
+          onChange={(e) => setTrackId(e.target.value)}
+          style={{ width: '100%', padding: '4px', fontSize: '12px', marginTop: '5px' }}
+        >
+          <option value="">All challenges</option>
+          {tracks.map((track) => (
+            <option key={track.id} value={track.id}>
+              Track: {track.name}
             </option>
           ))}
         </select>
+        {selectedTrack && (
+          <TrackView
+            track={selectedTrack}
+            completed={progress.completed}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+          />
+        )}
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            marginTop: '5px',
+            fontSize: '12px',
+            color: '#666',
+          }}
+        >
+          <span style={{ flex: 1 }}>
+            {progress.completed.length}/{challenges.length} completed
+          </span>
+          <button onClick={handleExportProgress} style={{ fontSize: '12px', padding: '2px 8px' }}>
+            Export Progress
+          </button>
+          <button
+            onClick={() => progressInputRef.current?.click()}
+            style={{ fontSize: '12px', padding: '2px 8px' }}
+          >
+            Import Progress
+          </button>
+          <input
+            ref={progressInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportProgress}
+            style={{ display: 'none' }}
+          />
+          <button
+            onClick={() => challengeFileInputRef.current?.click()}
+            title="Add challenges from a JSON or YAML challenge file"
+            style={{ fontSize: '12px', padding: '2px 8px' }}
+          >
+            Load Challenges
+          </button>
+          <input
+            ref={challengeFileInputRef}
+            type="file"
+            accept=".json,.yaml,.yml,application/json"
+            onChange={handleLoadChallengeFile}
+            style={{ display: 'none' }}
+          />
+        </div>
       </div>
 
       {/* Challenge Description */}
@@ -465,6 +694,36 @@ export function ChallengePanel({
               Goal: {currentChallenge.goalDescription}
             </div>
           )}
+          {currentChallenge.requirements && (
+            <ul style={{ margin: '10px 0 0', paddingLeft: '20px', fontSize: '14px' }}>
+              {describeCodeRequirements(currentChallenge.requirements).map((text) => (
+                <li key={text}>{text}</li>
+              ))}
+            </ul>
+          )}
+          {locked && (
+            <div
+              style={{
+                marginTop: '10px',
+                padding: '8px',
+                backgroundColor: '#fff3e0',
+                borderRadius: '4px',
+                fontSize: '14px',
+                color: '#e65100',
+              }}
+            >
+              🔒 Complete {missingPrerequisites.map((c) => c.name).join(', ')} first.
+            </div>
+          )}
+          {(progress.attempts[currentChallenge.id] ?? 0) > 0 && (
+            <div style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
+              {progress.bestResults[currentChallenge.id]
+                ? `✓ Completed · best: ${progress.bestResults[currentChallenge.id].framesUsed} frames · `
+                : ''}
+              {progress.attempts[currentChallenge.id]} attempt
+              {progress.attempts[currentChallenge.id] === 1 ? '' : 's'}
+            </div>
+          )}
         </div>
       )}
 
@@ -474,6 +733,9 @@ export function ChallengePanel({
           initialCode={code}
           onChange={handleCodeChange}
           disabled={status === 'running'}
+          declarations={apiDeclarations}
+          runtimeError={runtimeError}
+          activeLine={status === 'running' ? activeLine : null}
         />
       </div>
 
@@ -481,15 +743,15 @@ export function ChallengePanel({
       <div style={{ display: 'flex', gap: '10px', marginBottom: '15px', flexWrap: 'wrap' }}>
         <button
           onClick={handleRun}
-          disabled={status === 'running' || !currentChallenge || !gameReady}
+          disabled={status === 'running' || replaying || !currentChallenge || !gameReady || locked}
           style={{
             padding: '10px 20px',
             fontSize: '14px',
-            backgroundColor: gameReady ? '#4caf50' : '#ccc',
+            backgroundColor: gameReady && !locked ? '#4caf50' : '#ccc',
             color: 'white',
             border: 'none',
             borderRadius: '4px',
-            cursor: status === 'running' || !gameReady ? 'not-allowed' : 'pointer',
+            cursor: status === 'running' || !gameReady || locked ? 'not-allowed' : 'pointer',
           }}
         >
           {status === 'running' ? 'Running...' : 'Run Code'}
@@ -514,7 +776,8 @@ export function ChallengePanel({
 
         <button
           onClick={handleReset}
-          disabled={status === 'running'}
+          disabled={status === 'running' || replaying}
+          title="Restore the starter code and the game's starting point"
           style={{
             padding: '10px 20px',
             fontSize: '14px',
@@ -522,12 +785,52 @@ export function ChallengePanel({
             color: 'white',
             border: 'none',
             borderRadius: '4px',
-            cursor: status === 'running' ? 'not-allowed' : 'pointer',
+            cursor: status === 'running' || replaying ? 'not-allowed' : 'pointer',
           }}
         >
-          Reset Code
+          Reset
         </button>
 
+        {result?.movie && (
+          <button
+            onClick={handleDownloadMovie}
+            style={{
+              padding: '10px 20px',
+              fontSize: '14px',
+              backgroundColor: '#00897b',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+            }}
+          >
+            Download .bk2
+          </button>
+        )}
+
+        <button
+          onClick={() => movieInputRef.current?.click()}
+          disabled={status === 'running' || replaying}
+          style={{
+            padding: '10px 20px',
+            fontSize: '14px',
+            backgroundColor: '#00897b',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: status === 'running' || replaying ? 'not-allowed' : 'pointer',
+          }}
+        >
+          Load Movie
+        </button>
+        <input
+          ref={movieInputRef}
+          type="file"
+          accept=".bk2"
+          onChange={handleLoadMovie}
+          style={{ display: 'none' }}
+        />
+
         <button
           onClick={handleDebugTest}
           style={{
@@ -542,6 +845,24 @@ export function ChallengePanel({
         >
           Debug Test
         </button>
+
+        <label
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            fontSize: '14px',
+            color: '#333',
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={stopOnGoal}
+            disabled={status === 'running'}
+            onChange={(e) => setStopOnGoal(e.target.checked)}
+          />
+          Stop when goal is reached
+        </label>
       </div>
 
       {/* Last Error Display (persistent) */}
@@ -567,6 +888,11 @@ export function ChallengePanel({
         result={result}
         status={status}
         consoleOutput={consoleOutput}
+        controller={controller}
+        movie={loadedMovie ?? result?.movie ?? null}
+        onPlaybackChange={setReplaying}
+        goalThresholds={goalThresholds}
+        goalProgress={goalProgress}
       />
 
       {/* Hints Section */}
@@ -1,16 +1,39 @@
 /**
- * CodeEditor - Simple code editor for student solutions
+ * CodeEditor - Monaco editor for student solutions
  *
- * A basic textarea-based editor. Can be upgraded to Monaco later.
+ * TypeScript editing with autocomplete and type errors from the game API
+ * declarations, inline markers for runtime errors, and a highlight on the
+ * line currently waiting for a frame while code runs.
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import Editor, { OnMount } from '@monaco-editor/react';
+import { monaco, setApiDeclarations, SANDBOX_MARKER_OWNER } from './monacoSetup';
+
+/**
+ * A runtime error to show inline in the editor
+ */
+export interface EditorError {
+  /** 1-based line in the student's code */
+  line: number;
+  message: string;
+}
 
 interface CodeEditorProps {
+  /** Code to show; changing it (e.g., on reset) replaces the contents */
   initialCode: string;
   onChange?: (code: string) => void;
   disabled?: boolean;
   placeholder?: string;
+
+  /** Game API declarations for autocomplete and type errors */
+  declarations?: string;
+
+  /** Runtime error from the last run, marked at its line */
+  runtimeError?: EditorError | null;
+
+  /** Line currently waiting on a frame (e.g., `await game.step()`) */
+  activeLine?: number | null;
 }
 
 export function CodeEditor({
@@ -18,61 +41,104 @@ export function CodeEditor({
   onChange,
   disabled = false,
   placeholder = '// Write your code here...',
+  declarations,
+  runtimeError = null,
+  activeLine = null,
 }: CodeEditorProps) {
-  const [code, setCode] = useState(initialCode);
+  const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
+  const decorationsRef = useRef<monaco.editor.IEditorDecorationsCollection | null>(null);
+  const [mounted, setMounted] = useState(false);
+
+  const handleMount = useCallback<OnMount>((editor) => {
+    editorRef.current = editor;
+    decorationsRef.current = editor.createDecorationsCollection();
+    setMounted(true);
+  }, []);
 
   const handleChange = useCallback(
-    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-      const newCode = e.target.value;
-      setCode(newCode);
-      onChange?.(newCode);
+    (value: string | undefined) => {
+      onChange?.(value ?? '');
     },
     [onChange]
   );
 
-  const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-      // Handle Tab key for indentation
-      if (e.key === 'Tab') {
-        e.preventDefault();
-        const target = e.target as HTMLTextAreaElement;
-        const start = target.selectionStart;
-        const end = target.selectionEnd;
-        const newCode = code.slice(0, start) + '  ' + code.slice(end);
-        setCode(newCode);
-        onChange?.(newCode);
-
-        // Restore cursor position
-        setTimeout(() => {
-          target.selectionStart = target.selectionEnd = start + 2;
-        }, 0);
-      }
-    },
-    [code, onChange]
-  );
+  // Game API typings
+  useEffect(() => {
+    if (declarations !== undefined) {
+      setApiDeclarations(declarations);
+    }
+  }, [declarations]);
+
+  // Runtime error marker
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+
+    const markers: monaco.editor.IMarkerData[] = [];
+    if (runtimeError) {
+      const line = Math.min(Math.max(runtimeError.line, 1), model.getLineCount());
+      markers.push({
+        severity: monaco.MarkerSeverity.Error,
+        message: runtimeError.message,
+        startLineNumber: line,
+        startColumn: model.getLineFirstNonWhitespaceColumn(line) || 1,
+        endLineNumber: line,
+        endColumn: model.getLineMaxColumn(line),
+      });
+    }
+    monaco.editor.setModelMarkers(model, SANDBOX_MARKER_OWNER, markers);
+  }, [runtimeError, mounted]);
+
+  // Highlight the line waiting on a frame
+  useEffect(() => {
+    const editor = editorRef.current;
+    const decorations = decorationsRef.current;
+    if (!editor || !decorations) return;
+
+    if (activeLine === null) {
+      decorations.clear();
+      return;
+    }
+
+    decorations.set([
+      {
+        range: new monaco.Range(activeLine, 1, activeLine, 1),
+        options: {
+          isWholeLine: true,
+          className: 'code-editor-active-line',
+          linesDecorationsClassName: 'code-editor-active-line-gutter',
+        },
+      },
+    ]);
+    editor.revealLineInCenterIfOutsideViewport(activeLine);
+  }, [activeLine, mounted]);
 
   return (
-    <textarea
-      value={code}
-      onChange={handleChange}
-      onKeyDown={handleKeyDown}
-      disabled={disabled}
-      placeholder={placeholder}
-      spellCheck={false}
+    <div
       style={{
-        width: '100%',
-        minHeight: '200px',
-        padding: '12px',
-        fontFamily: 'monospace',
-        fontSize: '14px',
-        lineHeight: '1.5',
-        backgroundColor: disabled ? '#f5f5f5' : '#1e1e1e',
-        color: disabled ? '#666' : '#d4d4d4',
         border: '1px solid #333',
         borderRadius: '4px',
-        resize: 'vertical',
-        outline: 'none',
+        overflow: 'hidden',
       }}
-    />
+    >
+      <Editor
+        height="300px"
+        defaultLanguage="typescript"
+        path="file:///student.ts"
+        theme="vs-dark"
+        value={initialCode}
+        onChange={handleChange}
+        onMount={handleMount}
+        options={{
+          readOnly: disabled,
+          placeholder,
+          fontSize: 14,
+          tabSize: 2,
+          minimap: { enabled: false },
+          scrollBeyondLastLine: false,
+          automaticLayout: true,
+        }}
+      />
+    </div>
   );
 }
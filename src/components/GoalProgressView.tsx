@@ -0,0 +1,67 @@
+/**
+ * GoalProgressView - Show the status of a goal and its subgoals
+ */
+
+import { GoalProgress, GoalStatus } from '../challenges/types';
+
+interface GoalProgressViewProps {
+  progress: GoalProgress;
+}
+
+const STATUS_ICONS: Record<GoalStatus, string> = {
+  met: '✓',
+  failed: '✗',
+  pending: '○',
+};
+
+const STATUS_COLORS: Record<GoalStatus, string> = {
+  met: '#4caf50',
+  failed: '#f44336',
+  pending: '#999',
+};
+
+function GoalProgressItem({ progress, depth }: { progress: GoalProgress; depth: number }) {
+  return (
+    <>
+      <div style={{ paddingLeft: `${depth * 16}px`, fontSize: '12px', lineHeight: '20px' }}>
+        <span
+          style={{
+            display: 'inline-block',
+            width: '16px',
+            fontWeight: 'bold',
+            color: STATUS_COLORS[progress.status],
+          }}
+        >
+          {STATUS_ICONS[progress.status]}
+        </span>
+        <span style={{ color: '#333' }}>{progress.label}</span>
+        {progress.detail && (
+          <span style={{ color: '#666', fontFamily: 'monospace', marginLeft: '8px' }}>
+            ({progress.detail})
+          </span>
+        )}
+      </div>
+      {progress.children?.map((child, i) => (
+        <GoalProgressItem key={i} progress={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+}
+
+export function GoalProgressView({ progress }: GoalProgressViewProps) {
+  return (
+    <div style={{ marginTop: '10px' }}>
+      <strong style={{ fontSize: '12px', color: '#666' }}>Goal Progress:</strong>
+      <div
+        style={{
+          margin: '5px 0 0',
+          padding: '8px 10px',
+          backgroundColor: 'white',
+          borderRadius: '4px',
+        }}
+      >
+        <GoalProgressItem progress={progress} depth={0} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * PlaybackControls - Play back a recorded run in the emulator
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { GameController } from '../core/GameController';
+import { Movie } from '../core/movie';
+import { MoviePlayer } from '../core/MoviePlayer';
+
+interface PlaybackControlsProps {
+  controller: GameController;
+  movie: Movie;
+
+  /** Called when playback starts or stops driving the emulator */
+  onPlayingChange?: (playing: boolean) => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export function PlaybackControls({
+  controller,
+  movie,
+  onPlayingChange,
+}: PlaybackControlsProps) {
+  const playerRef = useRef<MoviePlayer | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [seeking, setSeeking] = useState(false);
+  const [scrubFrame, setScrubFrame] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create a player for each movie
+  useEffect(() => {
+    let player: MoviePlayer;
+    try {
+      player = new MoviePlayer(controller, movie, {
+        onUpdate: (p) => {
+          setFrame(p.frame);
+          setPlaying(p.isPlaying);
+        },
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    playerRef.current = player;
+    setFrame(0);
+    setPlaying(false);
+    setError(null);
+    return () => {
+      playerRef.current = null;
+      player.dispose();
+    };
+  }, [controller, movie]);
+
+  useEffect(() => {
+    onPlayingChange?.(playing || seeking);
+  }, [playing, seeking, onPlayingChange]);
+
+  const handlePlayPause = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    if (player.isPlaying) {
+      player.pause();
+    } else {
+      player.speed = speed;
+      player.play();
+    }
+  }, [speed]);
+
+  const handleSpeedChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = Number(e.target.value);
+    setSpeed(value);
+    if (playerRef.current) {
+      playerRef.current.speed = value;
+    }
+  }, []);
+
+  // Seek once the slider is released, not on every intermediate value
+  const commitScrub = useCallback(async () => {
+    const player = playerRef.current;
+    if (!player || scrubFrame === null) return;
+    setSeeking(true);
+    try {
+      await player.seek(scrubFrame);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setScrubFrame(null);
+      setSeeking(false);
+    }
+  }, [scrubFrame]);
+
+  if (error) {
+    return (
+      <div style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
+        Playback unavailable: {error}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+        marginTop: '10px',
+        padding: '8px',
+        backgroundColor: '#e0f2f1',
+        borderRadius: '4px',
+      }}
+    >
+      <button
+        onClick={handlePlayPause}
+        disabled={seeking}
+        style={{
+          padding: '6px 12px',
+          fontSize: '12px',
+          backgroundColor: '#00897b',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          minWidth: '60px',
+        }}
+      >
+        {playing ? 'Pause' : 'Play'}
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={movie.frames.length}
+        value={scrubFrame ?? frame}
+        disabled={seeking}
+        onChange={(e) => setScrubFrame(Number(e.target.value))}
+        onMouseUp={commitScrub}
+        onTouchEnd={commitScrub}
+        onKeyUp={commitScrub}
+        style={{ flex: 1 }}
+      />
+
+      <span style={{ fontSize: '12px', color: '#666', fontFamily: 'monospace', whiteSpace: 'nowrap' }}>
+        {scrubFrame ?? frame} / {movie.frames.length}
+      </span>
+
+      <select
+        value={speed}
+        onChange={handleSpeedChange}
+        style={{ fontSize: '12px', padding: '2px' }}
+      >
+        {SPEEDS.map((s) => (
+          <option key={s} value={s}>
+            {s}x
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -2,18 +2,48 @@
  * ResultDisplay - Show challenge execution results
  */
 
-import { ChallengeResult, ChallengeStatus } from '../challenges/types';
+import {
+  ChallengeResult,
+  ChallengeStatus,
+  GoalProgress,
+  GoalThreshold,
+} from '../challenges/types';
+import { GameController } from '../core/GameController';
+import { Movie } from '../core/movie';
+import { PlaybackControls } from './PlaybackControls';
+import { GoalProgressView } from './GoalProgressView';
+import { TimelineChart } from './TimelineChart';
 
 interface ResultDisplayProps {
   result: ChallengeResult | null;
   status: ChallengeStatus;
   consoleOutput?: string[];
+
+  /** Controller to play the run back through */
+  controller?: GameController | null;
+
+  /** Recorded run to play back (usually result.movie) */
+  movie?: Movie | null;
+
+  /** Called when playback starts or stops driving the emulator */
+  onPlaybackChange?: (playing: boolean) => void;
+
+  /** Goal thresholds to overlay on the timeline chart */
+  goalThresholds?: GoalThreshold[];
+
+  /** Live goal progress while running (result.goalProgress afterwards) */
+  goalProgress?: GoalProgress | null;
 }
 
 export function ResultDisplay({
   result,
   status,
   consoleOutput = [],
+  controller = null,
+  movie = null,
+  onPlaybackChange,
+  goalThresholds,
+  goalProgress = null,
 }: ResultDisplayProps) {
   const getStatusColor = () => {
     switch (status) {
@@ -50,6 +80,10 @@ export function ResultDisplay({
     }
   };
 
+  const shownProgress = result?.goalProgress ?? goalProgress;
+
+  const compileErrors = result?.diagnostics?.filter((d) => d.category === 'error') ?? [];
+
   return (
     <div
       style={{
@@ -88,6 +122,37 @@ export function ResultDisplay({
         <p style={{ margin: '10px 0', color: '#333' }}>{result.message}</p>
       )}
 
+      {shownProgress && <GoalProgressView progress={shownProgress} />}
+
+      {result?.codeCheck && !result.codeCheck.passed && (
+        <div
+          style={{
+            padding: '10px',
+            backgroundColor: '#fff3e0',
+            borderRadius: '4px',
+            marginTop: '10px',
+          }}
+        >
+          <strong style={{ fontSize: '12px', color: '#e65100' }}>Code Requirements:</strong>
+          <ul style={{ margin: '5px 0 0', paddingLeft: '20px', fontSize: '12px', color: '#e65100' }}>
+            {result.codeCheck.failures.map((failure, i) => (
+              <li key={i}>
+                {failure.line !== undefined && `Line ${failure.line}: `}
+                {failure.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {controller && movie && status !== 'running' && (
+        <PlaybackControls
+          controller={controller}
+          movie={movie}
+          onPlayingChange={onPlaybackChange}
+        />
+      )}
+
       {result?.error && (
         <div
           style={{
@@ -106,7 +171,11 @@ export function ResultDisplay({
               color: '#c62828',
             }}
           >
-            {result.error}
+            {compileErrors.length > 0
+              ? compileErrors
+                  .map((d) => `Line ${d.line}, column ${d.column}: ${d.message}`)
+                  .join('\n')
+              : result.error}
           </pre>
         </div>
       )}
@@ -131,6 +200,10 @@ export function ResultDisplay({
         </div>
       )}
 
+      {result?.timeline && status !== 'running' && (
+        <TimelineChart timeline={result.timeline} thresholds={goalThresholds} />
+      )}
+
       {result?.success === false && status !== 'error' && result.finalState && (
         <div style={{ marginTop: '10px' }}>
           <strong style={{ fontSize: '12px', color: '#666' }}>Final State:</strong>
@@ -0,0 +1,211 @@
+/**
+ * TimelineChart - Plot game variables against frame for a finished run
+ */
+
+import { useState, useMemo } from 'react';
+import { StateTimeline } from '../challenges/timeline';
+import { GoalThreshold } from '../challenges/types';
+
+interface TimelineChartProps {
+  timeline: StateTimeline;
+
+  /** Goal thresholds to draw over their variables */
+  thresholds?: GoalThreshold[];
+}
+
+/** Variables shown by default when the run recorded them */
+const DEFAULT_VARIABLES = ['x', 'y', 'rings', 'screen_x'];
+
+const WIDTH = 560;
+const HEIGHT = 110;
+const MARGIN = { top: 8, right: 10, bottom: 18, left: 48 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+/**
+ * Build an SVG path for a series, breaking the line at unreadable samples
+ */
+function buildPath(
+  frames: number[],
+  values: number[],
+  toX: (frame: number) => number,
+  toY: (value: number) => number
+): string {
+  let path = '';
+  let drawing = false;
+  values.forEach((value, i) => {
+    if (Number.isNaN(value)) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? 'L' : 'M'}${toX(frames[i]).toFixed(1)},${toY(value).toFixed(1)}`;
+    drawing = true;
+  });
+  return path;
+}
+
+export function TimelineChart({ timeline, thresholds = [] }: TimelineChartProps) {
+  const variables = useMemo(() => Object.keys(timeline.series).sort(), [timeline]);
+
+  const [selected, setSelected] = useState<string[]>(() => {
+    const initial = [
+      ...thresholds.map((t) => t.variable),
+      ...DEFAULT_VARIABLES,
+    ].filter((name) => name in timeline.series);
+    return [...new Set(initial)];
+  });
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const { frames } = timeline;
+  const lastFrame = frames.length > 0 ? frames[frames.length - 1] : 0;
+  const toX = (frame: number) => MARGIN.left + (lastFrame > 0 ? (frame / lastFrame) * PLOT_WIDTH : 0);
+
+  const toggleVariable = (name: string) => {
+    setSelected((current) =>
+      current.includes(name) ? current.filter((n) => n !== name) : [...current, name]
+    );
+  };
+
+  // Map the pointer to the nearest sample
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (frames.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const frame = ((x - MARGIN.left) / PLOT_WIDTH) * lastFrame;
+    let index = 0;
+    while (index < frames.length - 1 && frames[index + 1] <= frame) {
+      index++;
+    }
+    setHoverIndex(index);
+  };
+
+  if (frames.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ marginTop: '10px' }}>
+      <strong style={{ fontSize: '12px', color: '#666' }}>Timeline:</strong>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 12px', margin: '5px 0' }}>
+        {variables.map((name) => (
+          <label key={name} style={{ fontSize: '12px', color: '#333', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={selected.includes(name)}
+              onChange={() => toggleVariable(name)}
+              style={{ marginRight: '4px' }}
+            />
+            {name}
+          </label>
+        ))}
+      </div>
+
+      {variables.filter((name) => selected.includes(name)).map((name) => {
+        const values = timeline.series[name];
+        const targets = thresholds.filter((t) => t.variable === name);
+
+        // Fit the y axis to the data and any thresholds on it
+        const readable = values.filter((v) => !Number.isNaN(v));
+        const bounds = [...readable, ...targets.map((t) => t.value)];
+        let min = bounds.length > 0 ? Math.min(...bounds) : 0;
+        let max = bounds.length > 0 ? Math.max(...bounds) : 1;
+        if (min === max) {
+          min -= 1;
+          max += 1;
+        }
+        const toY = (value: number) =>
+          MARGIN.top + PLOT_HEIGHT - ((value - min) / (max - min)) * PLOT_HEIGHT;
+
+        const hoverValue = hoverIndex !== null ? values[hoverIndex] : undefined;
+
+        return (
+          <div key={name} style={{ marginBottom: '6px' }}>
+            <div style={{ fontSize: '12px', color: '#333', fontFamily: 'monospace' }}>
+              {name}
+              {hoverIndex !== null && (
+                <span style={{ color: '#666' }}>
+                  {' '}@ frame {frames[hoverIndex]}: {Number.isNaN(hoverValue) ? '?' : hoverValue}
+                </span>
+              )}
+            </div>
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              width="100%"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setHoverIndex(null)}
+              style={{ backgroundColor: 'white', borderRadius: '4px', display: 'block' }}
+            >
+              {/* Axes */}
+              <line
+                x1={MARGIN.left}
+                y1={MARGIN.top + PLOT_HEIGHT}
+                x2={MARGIN.left + PLOT_WIDTH}
+                y2={MARGIN.top + PLOT_HEIGHT}
+                stroke="#ccc"
+              />
+              <line
+                x1={MARGIN.left}
+                y1={MARGIN.top}
+                x2={MARGIN.left}
+                y2={MARGIN.top + PLOT_HEIGHT}
+                stroke="#ccc"
+              />
+              <text x={MARGIN.left - 4} y={MARGIN.top + 8} fontSize="10" fill="#666" textAnchor="end">
+                {max}
+              </text>
+              <text x={MARGIN.left - 4} y={MARGIN.top + PLOT_HEIGHT} fontSize="10" fill="#666" textAnchor="end">
+                {min}
+              </text>
+              <text x={MARGIN.left} y={HEIGHT - 4} fontSize="10" fill="#666">
+                0
+              </text>
+              <text x={MARGIN.left + PLOT_WIDTH} y={HEIGHT - 4} fontSize="10" fill="#666" textAnchor="end">
+                frame {lastFrame}
+              </text>
+
+              {/* Goal thresholds */}
+              {targets.map((t) => (
+                <g key={t.value}>
+                  <line
+                    x1={MARGIN.left}
+                    y1={toY(t.value)}
+                    x2={MARGIN.left + PLOT_WIDTH}
+                    y2={toY(t.value)}
+                    stroke="#f44336"
+                    strokeDasharray="4 3"
+                  />
+                  <text
+                    x={MARGIN.left + PLOT_WIDTH - 2}
+                    y={toY(t.value) - 3}
+                    fontSize="10"
+                    fill="#f44336"
+                    textAnchor="end"
+                  >
+                    goal {t.value}
+                  </text>
+                </g>
+              ))}
+
+              <path
+                d={buildPath(frames, values, toX, toY)}
+                fill="none"
+                stroke="#2196f3"
+                strokeWidth="1.5"
+              />
+
+              {hoverIndex !== null && (
+                <line
+                  x1={toX(frames[hoverIndex])}
+                  y1={MARGIN.top}
+                  x2={toX(frames[hoverIndex])}
+                  y2={MARGIN.top + PLOT_HEIGHT}
+                  stroke="#999"
+                />
+              )}
+            </svg>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
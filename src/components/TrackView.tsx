@@ -0,0 +1,71 @@
+/**
+ * TrackView - A track's units and challenges, with completed/locked status
+ */
+
+import { ChallengeTrack } from '../challenges/types';
+import { getChallenge, getMissingPrerequisites } from '../challenges/registry';
+
+interface TrackViewProps {
+  track: ChallengeTrack;
+
+  /** IDs of completed challenges */
+  completed: readonly string[];
+
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+export function TrackView({ track, completed, selectedId, onSelect }: TrackViewProps) {
+  return (
+    <div
+      style={{
+        padding: '10px',
+        backgroundColor: '#f5f5f5',
+        borderRadius: '4px',
+        marginTop: '5px',
+        fontSize: '14px',
+      }}
+    >
+      {track.units.map((unit) => (
+        <div key={unit.name} style={{ marginBottom: '8px' }}>
+          <strong style={{ fontSize: '12px', color: '#666' }}>{unit.name}</strong>
+          {unit.challengeIds.map((id) => {
+            const challenge = getChallenge(id);
+            if (!challenge) return null;
+
+            const done = completed.includes(id);
+            const missing = getMissingPrerequisites(id, completed);
+            const locked = missing.length > 0;
+
+            return (
+              <button
+                key={id}
+                onClick={() => onSelect(id)}
+                disabled={locked}
+                title={locked ? `Complete ${missing.map((c) => c.name).join(', ')} first` : undefined}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  textAlign: 'left',
+                  padding: '4px 8px',
+                  marginTop: '2px',
+                  fontSize: '13px',
+                  border: 'none',
+                  borderRadius: '4px',
+                  backgroundColor: id === selectedId ? '#bbdefb' : 'transparent',
+                  color: locked ? '#999' : '#333',
+                  cursor: locked ? 'not-allowed' : 'pointer',
+                }}
+              >
+                <span style={{ color: done ? '#4caf50' : '#999', marginRight: '6px' }}>
+                  {done ? '✓' : locked ? '🔒' : '○'}
+                </span>
+                Lesson {challenge.lessonNumber}: {challenge.name}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * Monaco setup - Bundle Monaco locally and configure TypeScript for
+ * student code
+ *
+ * @monaco-editor/react loads Monaco from a CDN by default; pointing its
+ * loader at the bundled copy keeps the app working offline and lets Vite
+ * build the editor and TypeScript language workers.
+ */
+
+// Editor core plus TypeScript only; 'monaco-editor' would bundle every language
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api';
+import 'monaco-editor/esm/vs/editor/edcore.main';
+import 'monaco-editor/esm/vs/basic-languages/typescript/typescript.contribution';
+import 'monaco-editor/esm/vs/language/typescript/monaco.contribution';
+import { loader } from '@monaco-editor/react';
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker';
+import TypeScriptWorker from 'monaco-editor/esm/vs/language/typescript/ts.worker?worker';
+
+/** Monaco marker owner for errors reported by the sandbox */
+export const SANDBOX_MARKER_OWNER = 'sandbox';
+
+/**
+ * Diagnostics that don't apply because student code runs as the body of
+ * an async function (see sandbox/compiler.ts)
+ */
+const IGNORED_DIAGNOSTICS = [
+  1108, // A 'return' statement can only be used within a function body
+  1375, // 'await' expressions are only allowed at the top level of a module
+  1378, // Top-level 'await' expressions require a newer module/target
+];
+
+self.MonacoEnvironment = {
+  getWorker(_workerId, label) {
+    if (label === 'typescript' || label === 'javascript') {
+      return new TypeScriptWorker();
+    }
+    return new EditorWorker();
+  },
+};
+
+const { typescriptDefaults } = monaco.languages.typescript;
+
+// Match the sandbox compiler: ES2020 without DOM, strict but allowing
+// unannotated parameters
+typescriptDefaults.setCompilerOptions({
+  target: monaco.languages.typescript.ScriptTarget.ES2020,
+  lib: ['es2020'],
+  strict: true,
+  noImplicitAny: false,
+  allowNonTsExtensions: true,
+});
+
+typescriptDefaults.setDiagnosticsOptions({
+  diagnosticCodesToIgnore: IGNORED_DIAGNOSTICS,
+});
+
+loader.config({ monaco });
+
+let apiDeclarations: monaco.IDisposable | null = null;
+
+/**
+ * Replace the game API declarations used for autocomplete and checking
+ *
+ * @param declarations - Output of generateGameApiDeclarations()
+ */
+export function setApiDeclarations(declarations: string): void {
+  apiDeclarations?.dispose();
+  apiDeclarations = typescriptDefaults.addExtraLib(declarations, 'file:///game-api.d.ts');
+}
+
+export { monaco };
@@ -1,4 +1,5 @@
 import type { EmulatorJS, GameManager, EmscriptenModule } from '../types/emulatorjs';
+import { RamDiscoveryStrategy, getRamDiscoveryStrategy } from './ramDiscovery';
 
 export interface EmulatorBridgeConfig {
   containerId: string;
@@ -13,6 +14,22 @@ export interface EmulatorBridgeConfig {
 
 export type EmulatorState = 'uninitialized' | 'loading' | 'ready' | 'running' | 'paused' | 'error';
 
+/** Milliseconds without frame progress before runFrames() gives up */
+const FRAME_STALL_TIMEOUT_MS = 8000;
+
+/**
+ * An in-flight runFrames() call, completed from the postMainLoop hook.
+ */
+interface FrameRun {
+  targetFrame: number;
+  resolve: (frameNumber: number) => void;
+  reject: (error: Error) => void;
+  watchdog: ReturnType<typeof setTimeout>;
+}
+
+/** Marker bytes written during RAM discovery, one per round */
+const DISCOVERY_MARKERS = [0xA7, 0x53, 0x3C, 0xC5];
+
 // Track global state to prevent double-loading
 let loaderScriptLoaded = false;
 let currentLoadingPromise: Promise<void> | null = null;
@@ -27,6 +44,8 @@ export class EmulatorBridge {
   private emulator: EmulatorJS | null = null;
   private _state: EmulatorState = 'uninitialized';
   private loadPromise: Promise<void> | null = null;
+  private frameRun: FrameRun | null = null;
+  private frameHook: (() => void) | null = null;
 
   constructor(config: EmulatorBridgeConfig) {
     this.config = {
@@ -51,6 +70,13 @@ export class EmulatorBridge {
     return this.emulator?.gameManager?.Module ?? this.emulator?.Module ?? null;
   }
 
+  /**
+   * The libretro core this bridge was configured with (e.g., "genesis_plus_gx").
+   */
+  get core(): string {
+    return this.config.core;
+  }
+
   get isReady(): boolean {
     return this._state === 'ready' || this._state === 'running' || this._state === 'paused';
   }
@@ -199,48 +225,9 @@ export class EmulatorBridge {
 
   /**
    * Advance the emulator by exactly one frame.
-   * Uses requestAnimationFrame polling to detect frame advancement.
    */
   async stepFrame(): Promise<number> {
-    if (!this.gameManager) {
-      throw new Error('Emulator not ready');
-    }
-
-    return new Promise<number>((resolve, reject) => {
-      const gm = this.gameManager!;
-      const startFrame = gm.getFrameNum();
-      let attempts = 0;
-      const maxAttempts = 500; // Timeout after ~8 seconds
-
-      // Debug: console.log('stepFrame starting:', startFrame);
-
-      const checkFrame = () => {
-        attempts++;
-        if (attempts > maxAttempts) {
-          console.error('stepFrame timeout after', attempts, 'attempts');
-          gm.toggleMainLoop(0);
-          this._state = 'paused';
-          reject(new Error('stepFrame timeout - frame did not advance'));
-          return;
-        }
-
-        const currentFrame = gm.getFrameNum();
-        if (currentFrame > startFrame) {
-          gm.toggleMainLoop(0); // Pause
-          this._state = 'paused';
-          resolve(currentFrame);
-        } else {
-          // Use setTimeout instead of requestAnimationFrame for better compatibility
-          // with worker message handler contexts
-          setTimeout(checkFrame, 1);
-        }
-      };
-
-      gm.toggleMainLoop(1); // Resume loop
-      this._state = 'running';
-      // Give the emulator time to run before checking
-      setTimeout(checkFrame, 20);
-    });
+    return this.runFrames(1);
   }
 
   /**
@@ -255,30 +242,124 @@ export class EmulatorBridge {
       return this.getFrameNumber();
     }
 
-    return new Promise<number>((resolve) => {
-      const gm = this.gameManager!;
-      const targetFrame = gm.getFrameNum() + count;
+    return this.runFrames(count);
+  }
 
-      const checkFrame = () => {
-        const currentFrame = gm.getFrameNum();
-        if (currentFrame >= targetFrame) {
-          gm.toggleMainLoop(0); // Pause
-          this._state = 'paused';
-          resolve(currentFrame);
-        } else {
-          // Use setTimeout instead of requestAnimationFrame for better compatibility
-          // with worker message handler contexts
-          setTimeout(checkFrame, 1);
-        }
+  /**
+   * Run exactly `count` frames, then pause.
+   *
+   * Frame advancement is detected from the core's own `postMainLoop` hook
+   * rather than by polling, so the loop is paused inside the iteration that
+   * reaches the target frame and never overshoots. VSync is disabled and
+   * fast forward enabled for the duration of the run so the main loop is not
+   * throttled to the display refresh rate.
+   *
+   * @param count - Number of frames to run (must be at least 1)
+   * @returns The frame number after the run
+   * @throws If a run is already in progress or the core stops advancing
+   */
+  async runFrames(count: number): Promise<number> {
+    const gm = this.gameManager;
+    const mod = this.module;
+    if (!gm || !mod) {
+      throw new Error('Emulator not ready');
+    }
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid frame count: ${count}`);
+    }
+    if (this.frameRun) {
+      throw new Error('A frame run is already in progress');
+    }
+
+    this.installFrameHook(mod);
+
+    return new Promise<number>((resolve, reject) => {
+      this.frameRun = {
+        targetFrame: gm.getFrameNum() + count,
+        resolve,
+        reject,
+        watchdog: setTimeout(() => this.abortFrameRun(), FRAME_STALL_TIMEOUT_MS),
       };
 
+      gm.setVSync(0);
+      gm.toggleFastForward(1);
       gm.toggleMainLoop(1); // Resume loop
       this._state = 'running';
-      // Give the emulator time to run before checking
-      setTimeout(checkFrame, 20);
     });
   }
 
+  /**
+   * Chain our frame callback onto Module.postMainLoop.
+   * Re-installs if something else (e.g. netplay) replaced the hook.
+   */
+  private installFrameHook(mod: EmscriptenModule): void {
+    if (this.frameHook && mod.postMainLoop === this.frameHook) {
+      return;
+    }
+
+    const previous = mod.postMainLoop;
+    const hook = () => {
+      previous?.();
+      this.handleFrameAdvanced();
+    };
+    mod.postMainLoop = hook;
+    this.frameHook = hook;
+  }
+
+  /**
+   * Called by the core after every main loop iteration.
+   */
+  private handleFrameAdvanced(): void {
+    const run = this.frameRun;
+    const gm = this.gameManager;
+    if (!run || !gm) {
+      return;
+    }
+
+    const currentFrame = gm.getFrameNum();
+    if (currentFrame < run.targetFrame) {
+      clearTimeout(run.watchdog);
+      run.watchdog = setTimeout(() => this.abortFrameRun(), FRAME_STALL_TIMEOUT_MS);
+      return;
+    }
+
+    // Pause before returning to the scheduler so no further frame runs
+    this.endFrameRun();
+    run.resolve(currentFrame);
+  }
+
+  /**
+   * Fail the current frame run after the core stopped advancing.
+   */
+  private abortFrameRun(): void {
+    const run = this.frameRun;
+    if (!run) {
+      return;
+    }
+    console.error('[EmulatorBridge] runFrames timeout - frame did not advance');
+    this.endFrameRun();
+    run.reject(new Error('runFrames timeout - frame did not advance'));
+  }
+
+  /**
+   * Pause the main loop and restore the speed settings changed by runFrames().
+   */
+  private endFrameRun(): void {
+    if (this.frameRun) {
+      clearTimeout(this.frameRun.watchdog);
+      this.frameRun = null;
+    }
+
+    const gm = this.gameManager;
+    if (!gm) {
+      return;
+    }
+    gm.toggleMainLoop(0); // Pause
+    gm.toggleFastForward(this.emulator?.isFastForward ? 1 : 0);
+    gm.setVSync(this.emulator?.settings?.vsync === 'disabled' ? 0 : 1);
+    this._state = 'paused';
+  }
+
   /**
    * Get the current frame number.
    */
@@ -437,6 +518,21 @@ export class EmulatorBridge {
     return this.module.HEAPU8.slice(address, address + length);
   }
 
+  /**
+   * Write raw bytes to emulator memory.
+   * @param address - Memory address (with console-specific offset)
+   * @param bytes - Bytes to write starting at address
+   */
+  writeMemoryBytes(address: number, bytes: Uint8Array): void {
+    if (!this.module) {
+      throw new Error('Emulator not ready');
+    }
+    if (address < 0 || address + bytes.length > this.module.HEAPU8.length) {
+      throw new Error(`Memory write out of bounds: 0x${address.toString(16)}`);
+    }
+    this.module.HEAPU8.set(bytes, address);
+  }
+
   /**
    * Get core options as a JSON string.
    */
@@ -475,89 +571,102 @@ export class EmulatorBridge {
   // ==================== RAM Base Discovery ====================
 
   /**
-   * Discover the Genesis work RAM base address in HEAPU8.
+   * Discover the console work RAM base address in HEAPU8.
+   *
+   * Cores allocate work RAM dynamically within the Emscripten heap. This
+   * method uses the cheat system to write marker values at a known RAM
+   * offset, then scans HEAPU8 for positions that follow every marker change.
+   * Rounds repeat with new markers until a single candidate remains.
    *
-   * The genesis_plus_gx core allocates work RAM dynamically within the
-   * Emscripten heap. This method uses the cheat system to write marker
-   * values to known addresses, then scans HEAPU8 to find them.
+   * If the core supports save states, the state is restored afterwards so
+   * the marker writes leave no trace in game RAM. Otherwise the heap is
+   * copied first and the bytes that held markers are written back.
    *
-   * @returns The HEAPU8 base address of the 64KB Genesis work RAM
+   * @param strategy - Console-specific discovery parameters (default: Genesis)
+   * @returns The HEAPU8 address corresponding to strategy.ramStart
    * @throws If discovery fails
    */
-  async discoverWorkRamBase(): Promise<number> {
+  async discoverWorkRamBase(
+    strategy: RamDiscoveryStrategy = getRamDiscoveryStrategy('genesis')
+  ): Promise<number> {
     if (!this.module || !this.gameManager) {
       throw new Error('Emulator not ready');
     }
 
-    const heap = this.module.HEAPU8;
-    // Use two distinct marker values unlikely to occur naturally
-    const MARKER1 = 0xA7;
-    const MARKER2 = 0x53;
-    // Lives address in Genesis 68000 address space (Action Replay format)
-    const LIVES_ADDR = 'FFFE12';
-    // Relative offset of lives within 64KB work RAM (0xFF0000-based)
-    const LIVES_OFFSET = 0xFE12;
-    // Default lives value to restore after discovery
-    const DEFAULT_LIVES = 3;
+    const gm = this.gameManager;
+    const { probeOffset, ramSize } = strategy;
 
-    // Phase 1: Write first marker via cheat system and step one frame
-    this.gameManager.resetCheat();
-    this.gameManager.setCheat(0, 1, `${LIVES_ADDR}:${MARKER1.toString(16).toUpperCase()}`);
-    await this.stepFrame();
-
-    // Record all HEAPU8 positions that contain MARKER1
-    // Filter to only plausible base addresses (enough room for 64KB work RAM)
-    const marker1Positions: number[] = [];
-    for (let i = 0; i < heap.length; i++) {
-      if (heap[i] === MARKER1) {
-        const possibleBase = i - LIVES_OFFSET;
-        if (possibleBase >= 0 && possibleBase + 0xFFFF < heap.length) {
-          marker1Positions.push(i);
-        }
-      }
-    }
-    console.log(`[EmulatorBridge] Phase 1: Found ${marker1Positions.length} MARKER1 candidates`);
-
-    // Phase 2: Write second marker and step again
-    this.gameManager.resetCheat();
-    this.gameManager.setCheat(0, 1, `${LIVES_ADDR}:${MARKER2.toString(16).toUpperCase()}`);
-    await this.stepFrame();
-
-    // Find positions that changed from MARKER1 to MARKER2
-    // This eliminates coincidental matches, leaving only the real lives address
-    const matches: number[] = [];
-    for (const pos of marker1Positions) {
-      if (heap[pos] === MARKER2) {
-        matches.push(pos);
+    let snapshot: Uint8Array | null = null;
+    if (gm.supportsStates()) {
+      try {
+        snapshot = this.saveState();
+      } catch (e) {
+        console.warn('[EmulatorBridge] Could not snapshot state before discovery:', e);
       }
     }
-    console.log(`[EmulatorBridge] Phase 2: ${matches.length} positions changed MARKER1→MARKER2`);
+    // Without a snapshot, keep the heap's bytes from before the markers
+    const originalHeap = snapshot ? null : this.module.HEAPU8.slice();
 
-    // Clear cheats so markers stop being applied
-    this.gameManager.resetCheat();
-    await this.stepFrame();
+    let candidates: number[] | null = null;
+    try {
+      for (let round = 0; round < DISCOVERY_MARKERS.length; round++) {
+        const marker = DISCOVERY_MARKERS[round];
+        gm.resetCheat();
+        gm.setCheat(0, 1, strategy.formatCheat(probeOffset, marker));
+        await this.stepFrame();
+
+        // Re-read the heap each round: it may have grown and been replaced
+        const heap = this.module.HEAPU8;
+        if (candidates === null) {
+          // First round: every position holding the marker that leaves
+          // enough room for the whole work RAM window
+          candidates = [];
+          for (let i = probeOffset; i < heap.length; i++) {
+            if (heap[i] === marker && i - probeOffset + ramSize <= heap.length) {
+              candidates.push(i);
+            }
+          }
+        } else {
+          candidates = candidates.filter((pos) => heap[pos] === marker);
+        }
+        console.log(
+          `[EmulatorBridge] ${strategy.console} discovery round ${round + 1}: ` +
+          `${candidates.length} candidates`
+        );
 
-    if (matches.length === 0) {
-      throw new Error('Failed to discover work RAM base: no matching positions found');
+        if (round > 0 && candidates.length <= 1) {
+          break;
+        }
+      }
+    } finally {
+      // Clear cheats so markers stop being applied
+      gm.resetCheat();
+    }
+
+    if (snapshot) {
+      this.loadState(snapshot);
+    } else {
+      await this.stepFrame();
+      // The marker is still in RAM at whichever candidate is the probe
+      const heap = this.module.HEAPU8;
+      for (const pos of candidates ?? []) {
+        heap[pos] = originalHeap![pos];
+      }
     }
 
-    // Find the best candidate by checking for plausible game state
-    let discoveredBase: number | null = null;
-    for (const livesAddr of matches) {
-      const base = livesAddr - LIVES_OFFSET;
-      const zone = heap[base + 0xFE10];
-      if (zone <= 20) {
-        discoveredBase = base;
-        break;
-      }
+    if (!candidates || candidates.length === 0) {
+      throw new Error(
+        `Failed to discover ${strategy.console} work RAM base: no matching positions found`
+      );
     }
-    if (discoveredBase === null) {
-      discoveredBase = matches[0] - LIVES_OFFSET;
+    if (candidates.length > 1) {
+      console.warn(
+        `[EmulatorBridge] ${candidates.length} candidates remain, using the first`
+      );
     }
 
-    // Restore the lives byte that was corrupted by the markers
-    heap[discoveredBase + LIVES_OFFSET] = DEFAULT_LIVES;
-    console.log(`[EmulatorBridge] Discovered work RAM base: 0x${discoveredBase.toString(16)} (${discoveredBase}), lives restored to ${DEFAULT_LIVES}`);
+    const discoveredBase = candidates[0] - probeOffset;
+    console.log(`[EmulatorBridge] Discovered ${strategy.console} work RAM base: 0x${discoveredBase.toString(16)} (${discoveredBase})`);
 
     return discoveredBase;
   }
@@ -661,6 +770,13 @@ export class EmulatorBridge {
     window.EJS_DEBUG_XX = undefined;
     window.EJS_onGameStart = undefined;
 
+    if (this.frameRun) {
+      clearTimeout(this.frameRun.watchdog);
+      this.frameRun.reject(new Error('Emulator destroyed'));
+      this.frameRun = null;
+    }
+    this.frameHook = null;
+
     this.emulator = null;
     this._state = 'uninitialized';
     this.loadPromise = null;
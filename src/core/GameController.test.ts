@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CONSOLE_RAM_OFFSETS, GameController } from './GameController';
+import { CORE_CONSOLES, getRamDiscoveryStrategy } from './ramDiscovery';
+import { decodeBk2, encodeBk2 } from './movie';
+import { registerGameData } from '../data/parser';
+import { MockEmulatorBridge, createMockController, sonicPhysics } from '../testing';
+
+/** Sonic 2's rings counter (>u2) */
+const RINGS = 0xFFFE20;
+
+describe('GameController memory access', () => {
+  let controller: GameController;
+  let bridge: MockEmulatorBridge;
+
+  beforeEach(async () => {
+    controller = await createMockController();
+    bridge = controller.getBridge() as MockEmulatorBridge;
+    // readMemory() addresses are relative to the RAM offset
+    controller.setRamOffset(await bridge.discoverWorkRamBase());
+    bridge.ram.bytes.set([0x12, 0x34, 0xFF, 0xFE, 0x80, 0x00, 0x00, 0x01], 0);
+  });
+
+  it('reads big and little endian values', () => {
+    expect(controller.readMemory(0, '>u2')).toBe(0x1234);
+    expect(controller.readMemory(0, '<u2')).toBe(0x3412);
+    expect(controller.readMemory(0, '>u4')).toBe(0x1234FFFE);
+    expect(controller.readMemory(0, '<u4')).toBe(0xFEFF3412);
+  });
+
+  it('defaults to little endian without a prefix', () => {
+    expect(controller.readMemory(0, 'u2')).toBe(0x3412);
+  });
+
+  it('sign-extends signed types', () => {
+    expect(controller.readMemory(2, '>i2')).toBe(-2);
+    expect(controller.readMemory(2, '<i2')).toBe(-257);
+    expect(controller.readMemory(2, '>u2')).toBe(0xFFFE);
+    expect(controller.readMemory(4, 'i1')).toBe(-128);
+    expect(controller.readMemory(4, '>i4')).toBe(-0x7FFFFFFF);
+  });
+
+  it('decodes BCD', () => {
+    bridge.ram.bytes.set([0x12, 0x34, 0x56, 0x78], 0);
+    expect(controller.readMemory(0, '>n4')).toBe(12345678);
+    expect(controller.readMemory(0, '<n2')).toBe(3412);
+  });
+
+  it('returns 8-byte values beyond 2^53 as bigint', () => {
+    bridge.ram.bytes.fill(0xFF, 0, 8);
+    expect(controller.readMemory(0, '>u8')).toBe(0xFFFFFFFFFFFFFFFFn);
+    expect(controller.readMemory(0, '>i8')).toBe(-1);
+  });
+
+  it('writes values that read back unchanged', () => {
+    controller.writeMemory(8, '>i2', -300);
+    expect(controller.readMemory(8, '>i2')).toBe(-300);
+    expect(Array.from(controller.readBytes(8, 2))).toEqual([0xFE, 0xD4]);
+
+    controller.writeMemory(8, '<u4', 0xDEADBEEF);
+    expect(Array.from(controller.readBytes(8, 4))).toEqual([0xEF, 0xBE, 0xAD, 0xDE]);
+  });
+
+  it('rejects values that do not fit', () => {
+    expect(() => controller.writeMemory(8, '>u2', 0x10000)).toThrow('out of range');
+    expect(() => controller.writeMemory(8, '>i1', 128)).toThrow('out of range');
+  });
+
+  it('has a RAM offset for every core\'s console', () => {
+    for (const consoleName of Object.values(CORE_CONSOLES)) {
+      expect(CONSOLE_RAM_OFFSETS).toHaveProperty([consoleName]);
+    }
+  });
+});
+
+describe('GameController variables', () => {
+  let controller: GameController;
+  let bridge: MockEmulatorBridge;
+
+  beforeEach(async () => {
+    controller = await createMockController({ physics: sonicPhysics });
+    bridge = controller.getBridge() as MockEmulatorBridge;
+    controller.loadGameData('SonicTheHedgehog2-Genesis');
+  });
+
+  it('reads data.json variables at their discovered addresses', () => {
+    bridge.ram.write(RINGS, '>u2', 42);
+    expect(controller.getVariable('rings')).toBe(42);
+    expect(controller.getState()).toMatchObject({ x: 64, y: 380, lives: 3, rings: 42 });
+  });
+
+  it('writes data.json variables', () => {
+    controller.setVariable('rings', 300);
+    expect(bridge.ram.read(RINGS, '>u2')).toBe(300);
+  });
+
+  it('steps frames with held buttons', async () => {
+    controller.press('right');
+    await controller.stepFrames(60);
+    expect(controller.frameNumber).toBe(60);
+    expect(controller.getVariable('x')).toBeGreaterThan(64);
+
+    controller.release('right');
+    expect(bridge.heldButtons.size).toBe(0);
+  });
+
+  it('restores save states', async () => {
+    const state = controller.saveState();
+    controller.press('right');
+    await controller.stepFrames(60);
+
+    controller.loadState(state);
+    expect(controller.frameNumber).toBe(0);
+    expect(controller.getVariable('x')).toBe(64);
+  });
+});
+
+describe('GameController recording', () => {
+  let controller: GameController;
+
+  beforeEach(async () => {
+    controller = await createMockController({ physics: sonicPhysics });
+    controller.loadGameData('SonicTheHedgehog2-Genesis');
+  });
+
+  /** Run right, jump and coast, recording the inputs */
+  async function recordRun() {
+    controller.startRecording();
+    controller.press('right');
+    await controller.stepFrames(30);
+    await controller.hold('b', 10);
+    controller.release('right');
+    await controller.stepFrames(20);
+    return { movie: controller.stopRecording(), frame: controller.frameNumber, state: controller.getState() };
+  }
+
+  it('records the buttons held on every frame', async () => {
+    const { movie } = await recordRun();
+    expect(movie.gameName).toBe('SonicTheHedgehog2-Genesis');
+    expect(movie.frames).toHaveLength(60);
+    expect(movie.frames[29]).toEqual(['right']);
+    expect([...movie.frames[30]].sort()).toEqual(['b', 'right']);
+    expect(movie.frames[59]).toEqual([]);
+  });
+
+  it('replays a movie to the same end state', async () => {
+    const recorded = await recordRun();
+
+    // Wander off, then replay from the movie's start state
+    controller.press('left');
+    await controller.stepFrames(45);
+    await controller.replay(recorded.movie);
+
+    expect(controller.frameNumber).toBe(recorded.frame);
+    expect(controller.getState()).toEqual(recorded.state);
+  });
+
+  it('replays a movie read back from a .bk2 to the same end state', async () => {
+    const recorded = await recordRun();
+    await controller.replay(await decodeBk2(encodeBk2(recorded.movie)));
+
+    expect(controller.frameNumber).toBe(recorded.frame);
+    expect(controller.getState()).toEqual(recorded.state);
+  });
+
+  it('refuses movies recorded with another core', async () => {
+    const { movie } = await recordRun();
+    await expect(controller.replay({ ...movie, core: 'snes9x' }))
+      .rejects.toThrow('Movie was recorded with core "snes9x", but "genesis_plus_gx" is running');
+  });
+});
+
+describe('MockEmulatorBridge', () => {
+  it('applies cheats at the end of every frame', async () => {
+    const bridge = new MockEmulatorBridge({ physics: sonicPhysics });
+    bridge.setCheat(0, true, 'FFFE12:09');
+    await bridge.stepFrame();
+    expect(bridge.ram.read(0xFFFE12, '|u1')).toBe(9);
+
+    bridge.resetCheat();
+    bridge.ram.write(0xFFFE12, '|u1', 3);
+    await bridge.stepFrame();
+    expect(bridge.ram.read(0xFFFE12, '|u1')).toBe(3);
+  });
+
+  it('decodes each console\'s cheat format', async () => {
+    const codes: Record<string, [string, number]> = {
+      fceumm: ['0123:09', 0x0123],
+      snes9x: ['7E0DBE09', 0x7E0DBE],
+      gambatte: ['0109A1C1', 0xC1A1],
+      mgba: ['32000123 0009', 0x02000123],
+    };
+    for (const [core, [code, address]] of Object.entries(codes)) {
+      const bridge = new MockEmulatorBridge({ core });
+      bridge.setCheat(0, true, code);
+      await bridge.stepFrame();
+      expect(bridge.ram.read(address, '|u1')).toBe(9);
+    }
+  });
+
+  it('rejects cheat formats it cannot decode', () => {
+    const bridge = new MockEmulatorBridge();
+    expect(() => bridge.setCheat(0, true, '7E0DBE05')).toThrow('Unsupported cheat code');
+    expect(() => new MockEmulatorBridge({ core: 'snes9x' }).setCheat(0, true, '7E0DBE:05'))
+      .toThrow('Unsupported cheat code');
+  });
+
+  it('runs frame scripts after the physics', async () => {
+    const bridge = new MockEmulatorBridge({ physics: sonicPhysics });
+    const remove = bridge.addFrameScript((ram, frame) => {
+      if (frame === 2) ram.write(RINGS, '>u2', 10);
+    });
+    await bridge.stepFrames(3);
+    expect(bridge.ram.read(RINGS, '>u2')).toBe(10);
+
+    remove();
+    bridge.ram.write(RINGS, '>u2', 0);
+    await bridge.stepFrames(3);
+    expect(bridge.ram.read(RINGS, '>u2')).toBe(0);
+  });
+
+});
+
+describe('work RAM discovery', () => {
+  it.each(Object.keys(CORE_CONSOLES))('finds %s work RAM by cheat markers', async (core) => {
+    const bridge = new MockEmulatorBridge({ core });
+    await bridge.load();
+    const base = await bridge.discoverWorkRamBase(getRamDiscoveryStrategy(core));
+
+    bridge.ram.write(bridge.strategy.ramStart + 0x10, '|u1', 0xAB);
+    expect(bridge.readMemoryBytes(base + 0x10, 1)[0]).toBe(0xAB);
+  });
+
+  it('ignores bytes that only match the first marker', async () => {
+    const bridge = new MockEmulatorBridge({ core: 'smsplus' });
+    await bridge.load();
+    // The first marker, at a position that would put work RAM 0x10 bytes later
+    bridge.ram.write(0xC000 + bridge.strategy.probeOffset - 0x10, '|u1', 0xA7);
+
+    const base = await bridge.discoverWorkRamBase(bridge.strategy);
+    bridge.ram.write(0xC000, '|u1', 0xCD);
+    expect(bridge.readMemoryBytes(base, 1)[0]).toBe(0xCD);
+  });
+
+  it('restores the game and clears cheats afterwards', async () => {
+    const bridge = new MockEmulatorBridge({ physics: sonicPhysics });
+    await bridge.load();
+    await bridge.stepFrames(5);
+    const lives = bridge.ram.read(0xFFFE12, '|u1');
+
+    await bridge.discoverWorkRamBase(getRamDiscoveryStrategy('genesis'));
+    expect(bridge.getFrameNumber()).toBe(5);
+    expect(bridge.ram.read(0xFFFE12, '|u1')).toBe(lives);
+
+    await bridge.stepFrame();
+    expect(bridge.ram.read(0xFFFE12, '|u1')).toBe(lives);
+  });
+
+  it('writes back the bytes it marked when the core has no save states', async () => {
+    const bridge = new MockEmulatorBridge({ supportsStates: false });
+    await bridge.load();
+    const probe = bridge.strategy.ramStart + bridge.strategy.probeOffset;
+    bridge.ram.write(probe, '|u1', 0x42);
+
+    await bridge.discoverWorkRamBase(bridge.strategy);
+    expect(bridge.ram.read(probe, '|u1')).toBe(0x42);
+  });
+
+  it('lets GameController read data.json variables at the discovered offset', async () => {
+    const controller = await createMockController({ core: 'smsplus' });
+    const bridge = controller.getBridge() as MockEmulatorBridge;
+    registerGameData({
+      gameName: 'MockGame-Sms',
+      data: { info: { score: { address: 0xC123, type: '<u2' } } },
+    });
+    controller.loadGameData('MockGame-Sms');
+
+    bridge.ram.write(0xC123, '<u2', 1234);
+    expect(controller.getVariable('score')).toBe(1234);
+  });
+});
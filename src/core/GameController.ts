@@ -1,6 +1,15 @@
 import { EmulatorBridge } from './EmulatorBridge';
-import { MemoryReader, GameState } from './MemoryReader';
-import { GameId } from '../data/types';
+import {
+  MemoryReader,
+  GameState,
+  MemoryValue,
+  decodeMemoryValue,
+  encodeMemoryValue,
+} from './MemoryReader';
+import { GameId, ParsedMemoryType } from '../data/types';
+import { parseTypeSpec } from '../data/parser';
+import { getRamDiscoveryStrategy } from './ramDiscovery';
+import type { Movie } from './movie';
 
 /**
  * Button names for game input.
@@ -65,20 +74,33 @@ export const BUTTON_MAP: Record<Button, number> = {
 /**
  * Memory type specification for reading game RAM.
  * Format: "[endian]<type><bytes>"
- * Endian: "<" little-endian, ">" big-endian
- * Type: "i" signed int, "u" unsigned int
+ * Endian: "<" little-endian, ">" big-endian (default: little)
+ * Type: "i" signed int, "u" unsigned int, "n" BCD
  * Bytes: 1, 2, or 4
  *
  * Examples: ">i2" = big-endian signed 16-bit
  *           "<u4" = little-endian unsigned 32-bit
+ *           ">n2" = big-endian 4-digit BCD
  */
 export type MemoryType =
   | '<i1' | '>i1' | 'i1'
   | '<u1' | '>u1' | 'u1'
+  | '<n1' | '>n1' | 'n1'
   | '<i2' | '>i2' | 'i2'
   | '<u2' | '>u2' | 'u2'
+  | '<n2' | '>n2' | 'n2'
   | '<i4' | '>i4' | 'i4'
-  | '<u4' | '>u4' | 'u4';
+  | '<u4' | '>u4' | 'u4'
+  | '<n4' | '>n4' | 'n4';
+
+/**
+ * 64-bit memory types. Reads return a bigint when the value
+ * does not fit in Number's safe integer range.
+ */
+export type WideMemoryType =
+  | '<i8' | '>i8' | 'i8'
+  | '<u8' | '>u8' | 'u8'
+  | '<n8' | '>n8' | 'n8';
 
 /**
  * RAM base offsets for different console systems.
@@ -89,6 +111,8 @@ export const CONSOLE_RAM_OFFSETS: Record<string, number> = {
   snes: 8257536,
   genesis: 16711680,
   segaMD: 16711680,
+  sms: 0xC000,
+  segaMS: 0xC000,
   gba: 0x02000000,
   gb: 0,
   gbc: 0,
@@ -97,6 +121,15 @@ export const CONSOLE_RAM_OFFSETS: Record<string, number> = {
   // Add more as needed
 };
 
+/**
+ * Parse a MemoryType into Stable Retro type information.
+ * Types without an endian prefix default to little endian.
+ */
+function parseMemoryType(type: MemoryType | WideMemoryType): ParsedMemoryType {
+  const spec = /^[<>]/.test(type) ? type : `<${type}`;
+  return parseTypeSpec(spec);
+}
+
 /**
  * GameController provides a simplified, student-friendly API for
  * controlling emulated games programmatically.
@@ -109,6 +142,7 @@ export class GameController {
   private heldButtons: Set<Button> = new Set();
   private ramOffset: number = 0;
   private memoryReader: MemoryReader;
+  private recording: Movie | null = null;
 
   constructor(bridge: EmulatorBridge, playerIndex: number = 0) {
     this.bridge = bridge;
@@ -209,12 +243,29 @@ export class GameController {
     return this.heldButtons.has(button);
   }
 
+  /**
+   * Hold exactly the given buttons, releasing any others.
+   */
+  setHeldButtons(buttons: Button[]): void {
+    for (const button of this.heldButtons) {
+      if (!buttons.includes(button)) {
+        this.release(button);
+      }
+    }
+    for (const button of buttons) {
+      if (!this.heldButtons.has(button)) {
+        this.press(button);
+      }
+    }
+  }
+
   // ==================== Frame Control ====================
 
   /**
    * Advance the game by exactly one frame.
    */
   async step(): Promise<void> {
+    this.recordFrames(1);
     await this.bridge.stepFrame();
   }
 
@@ -222,6 +273,7 @@ export class GameController {
    * Advance the game by multiple frames.
    */
   async stepFrames(count: number): Promise<void> {
+    this.recordFrames(count);
     await this.bridge.stepFrames(count);
   }
 
@@ -253,45 +305,39 @@ export class GameController {
    *
    * @param address - The game-specific memory address
    * @param type - Memory type specification (e.g., ">i2" for big-endian signed 16-bit)
-   * @returns The value at the specified address
+   * @returns The value at the specified address (bigint for large 8-byte values)
    *
    * @example
    * // Read Sonic's X position (Genesis, big-endian signed 16-bit)
    * const xPos = controller.readMemory(0xD008, ">i2");
+   * // Read an 8-digit BCD score counter
+   * const score = controller.readMemory(0xFE26, ">n4");
    */
-  readMemory(address: number, type: MemoryType = 'u1'): number {
+  readMemory(address: number, type?: MemoryType): number;
+  readMemory(address: number, type: WideMemoryType): MemoryValue;
+  readMemory(address: number, type: MemoryType | WideMemoryType = 'u1'): MemoryValue {
     const fullAddress = this.ramOffset + address;
+    const parsed = parseMemoryType(type);
+    const rawBytes = this.bridge.readMemoryBytes(fullAddress, parsed.bytes);
+    return decodeMemoryValue(rawBytes, parsed);
+  }
 
-    // Parse type string
-    const endian = type.startsWith('<') ? 'little' : type.startsWith('>') ? 'big' : 'little';
-    const typeWithoutEndian = type.replace(/^[<>]/, '');
-    const signed = typeWithoutEndian.startsWith('i');
-    const bytes = parseInt(typeWithoutEndian.slice(1), 10);
-
-    // Read the raw bytes
-    const rawBytes = this.bridge.readMemoryBytes(fullAddress, bytes);
-
-    // Combine bytes according to endianness
-    let value = 0;
-    if (endian === 'little') {
-      for (let i = bytes - 1; i >= 0; i--) {
-        value = (value << 8) | rawBytes[i];
-      }
-    } else {
-      for (let i = 0; i < bytes; i++) {
-        value = (value << 8) | rawBytes[i];
-      }
-    }
-
-    // Handle signed values
-    if (signed) {
-      const signBit = 1 << (bytes * 8 - 1);
-      if (value & signBit) {
-        value = value - (1 << (bytes * 8));
-      }
-    }
-
-    return value;
+  /**
+   * Write a value to game memory.
+   *
+   * @param address - The game-specific memory address
+   * @param type - Memory type specification (e.g., ">i2" for big-endian signed 16-bit)
+   * @param value - Integer value to write
+   * @throws If the value does not fit in the given type
+   *
+   * @example
+   * // Give Sonic 50 rings (Genesis, big-endian unsigned 16-bit)
+   * controller.writeMemory(0xFE20, ">u2", 50);
+   */
+  writeMemory(address: number, type: MemoryType | WideMemoryType, value: MemoryValue): void {
+    const fullAddress = this.ramOffset + address;
+    const bytes = encodeMemoryValue(value, parseMemoryType(type));
+    this.bridge.writeMemoryBytes(fullAddress, bytes);
   }
 
   /**
@@ -301,6 +347,13 @@ export class GameController {
     return this.readMemory(address, 'u1');
   }
 
+  /**
+   * Write a byte to game memory (shorthand for writeMemory with u1).
+   */
+  writeByte(address: number, value: number): void {
+    this.writeMemory(address, 'u1', value);
+  }
+
   /**
    * Read multiple bytes from game memory.
    */
@@ -327,22 +380,24 @@ export class GameController {
   /**
    * Discover the work RAM base address and configure memory reads.
    *
-   * For Genesis games, the emulator allocates work RAM dynamically in WASM heap.
-   * This method uses the cheat system to locate the RAM, then configures the
+   * Most cores allocate work RAM dynamically in the WASM heap. This method
+   * uses the console's cheat format to locate the RAM, then configures the
    * memory offset so that data.json addresses map to correct HEAPU8 locations.
    *
    * Must be called after the game is running (not just loaded).
    *
-   * @param consoleType - Console type for base address calculation (default: 'genesis')
+   * @param consoleType - Console or core name selecting the discovery strategy
+   *                      (default: derived from the bridge's core)
    * @returns The discovered base address
+   * @throws If no strategy exists for the console or discovery fails
    */
-  async discoverMemory(consoleType: string = 'genesis'): Promise<number> {
-    const base = await this.bridge.discoverWorkRamBase();
-    const consoleRamBase = CONSOLE_RAM_OFFSETS[consoleType] ?? 0;
-    // data.json addresses = consoleRamBase + relative_offset
+  async discoverMemory(consoleType: string = this.bridge.core): Promise<number> {
+    const strategy = getRamDiscoveryStrategy(consoleType);
+    const base = await this.bridge.discoverWorkRamBase(strategy);
+    // data.json addresses = ramStart + relative_offset
     // HEAPU8 address = base + relative_offset
-    // So: HEAPU8 addr = data.json addr + (base - consoleRamBase)
-    const offset = base - consoleRamBase;
+    // So: HEAPU8 addr = data.json addr + (base - ramStart)
+    const offset = base - strategy.ramStart;
     this.memoryReader.setMemoryOffset(offset);
     console.log(`[GameController] Memory discovered: base=0x${base.toString(16)}, offset=${offset}`);
     return base;
@@ -387,6 +442,24 @@ export class GameController {
     return this.memoryReader.getState();
   }
 
+  /**
+   * Write a named variable to game memory using Stable Retro mappings.
+   * Requires loadGameData() and memory discovery, like getVariable().
+   *
+   * @param name - Variable name from data.json (e.g., "x", "rings", "lives")
+   * @param value - New value, encoded using the variable's type spec
+   * @throws If game data is not loaded, the variable is not found,
+   *         or the value does not fit the variable's type
+   *
+   * @example
+   * // Challenge setup: start with 5 lives and 20 rings
+   * controller.setVariable('lives', 5);
+   * controller.setVariable('rings', 20);
+   */
+  setVariable(name: string, value: MemoryValue): void {
+    this.memoryReader.setVariable(name, value);
+  }
+
   /**
    * Get available variable names for the loaded game.
    */
@@ -446,6 +519,92 @@ export class GameController {
     this.bridge.restart();
   }
 
+  // ==================== Recording & Replay ====================
+
+  /**
+   * Start recording inputs.
+   * Captures the current state (if the core supports states) and logs the
+   * buttons held on every frame stepped until stopRecording().
+   *
+   * @param gameName - Game identifier stored in the movie
+   *                   (default: the loaded game data)
+   */
+  startRecording(gameName: string = this.memoryReader.currentGame ?? ''): void {
+    this.recording = {
+      gameName,
+      core: this.bridge.core,
+      startState: this.bridge.supportsStates() ? this.saveState() : null,
+      frames: [],
+    };
+  }
+
+  /**
+   * Stop recording and return the movie.
+   *
+   * @throws If no recording is in progress
+   */
+  stopRecording(): Movie {
+    if (!this.recording) {
+      throw new Error('Not recording. Call startRecording() first.');
+    }
+    const movie = this.recording;
+    this.recording = null;
+    return movie;
+  }
+
+  /**
+   * Check if inputs are being recorded.
+   */
+  get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Replay a movie: load its start state, then step every frame with
+   * exactly the recorded buttons held.
+   *
+   * @param movie - Movie from stopRecording() or decodeBk2()
+   * @param onFrame - Called after each frame with the movie frame index
+   * @throws If the movie was recorded with a different core
+   *
+   * @example
+   * const movie = await decodeBk2(new Uint8Array(await file.arrayBuffer()));
+   * await controller.replay(movie);
+   */
+  async replay(movie: Movie, onFrame?: (frame: number) => void): Promise<void> {
+    if (movie.core && movie.core !== this.bridge.core) {
+      throw new Error(
+        `Movie was recorded with core "${movie.core}", but "${this.bridge.core}" is running`
+      );
+    }
+
+    this.releaseAll();
+    if (movie.startState) {
+      this.loadState(movie.startState);
+    }
+
+    try {
+      for (let frame = 0; frame < movie.frames.length; frame++) {
+        this.setHeldButtons(movie.frames[frame]);
+        await this.step();
+        onFrame?.(frame);
+      }
+    } finally {
+      this.releaseAll();
+    }
+  }
+
+  /**
+   * Log the held buttons for frames about to be stepped.
+   */
+  private recordFrames(count: number): void {
+    if (!this.recording) return;
+    const held = Array.from(this.heldButtons);
+    for (let i = 0; i < count; i++) {
+      this.recording.frames.push(held);
+    }
+  }
+
   // ==================== Utility Methods ====================
 
   /**
@@ -14,6 +14,111 @@ import { EmulatorBridge } from './EmulatorBridge';
  */
 export type GameState = Record<string, number>;
 
+/**
+ * A decoded memory value. Values outside Number's safe integer range
+ * (only possible for types wider than 6 bytes) are returned as bigint.
+ */
+export type MemoryValue = number | bigint;
+
+/**
+ * Decode raw bytes according to a parsed Stable Retro type.
+ *
+ * Handles endianness, two's complement signed values and BCD. Types up to
+ * 4 bytes are combined with plain arithmetic; wider types are combined as
+ * bigint so 8-byte values do not overflow.
+ *
+ * @param rawBytes - Bytes read from memory (at least type.bytes long)
+ * @param type - Parsed type information from parseTypeSpec()
+ */
+export function decodeMemoryValue(rawBytes: Uint8Array, type: ParsedMemoryType): MemoryValue {
+  // Order bytes from most to least significant.
+  // 'native' is treated as big endian (Genesis is a big-endian system).
+  const ordered: number[] = [];
+  for (let i = 0; i < type.bytes; i++) {
+    ordered.push(type.endian === 'little' ? rawBytes[type.bytes - 1 - i] : rawBytes[i]);
+  }
+
+  if (type.bytes <= 4) {
+    let value = 0;
+    for (const byte of ordered) {
+      value = type.bcd
+        ? value * 100 + (byte >> 4) * 10 + (byte & 0x0F)
+        : value * 256 + byte;
+    }
+    if (type.signed && value >= 2 ** (type.bytes * 8 - 1)) {
+      value -= 2 ** (type.bytes * 8);
+    }
+    return value;
+  }
+
+  let value = 0n;
+  for (const byte of ordered) {
+    value = type.bcd
+      ? value * 100n + BigInt((byte >> 4) * 10 + (byte & 0x0F))
+      : (value << 8n) | BigInt(byte);
+  }
+  if (type.signed) {
+    value = BigInt.asIntN(type.bytes * 8, value);
+  }
+
+  if (value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Encode a value as raw bytes according to a parsed Stable Retro type.
+ *
+ * The inverse of decodeMemoryValue(): honors endianness, signedness,
+ * BCD and width.
+ *
+ * @param value - Integer value to encode
+ * @param type - Parsed type information from parseTypeSpec()
+ * @throws If the value is not an integer or does not fit in the type
+ */
+export function encodeMemoryValue(value: MemoryValue, type: ParsedMemoryType): Uint8Array {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new Error(`Cannot write non-integer value: ${value}`);
+  }
+
+  const big = BigInt(value);
+  const bits = BigInt(type.bytes * 8);
+  let raw: bigint;
+
+  if (type.bcd) {
+    if (big < 0n || big >= 10n ** BigInt(type.bytes * 2)) {
+      throw new Error(`Value ${value} does not fit in ${type.bytes}-byte BCD`);
+    }
+    raw = 0n;
+    let rest = big;
+    for (let i = 0n; i < BigInt(type.bytes); i++) {
+      const pair = rest % 100n;
+      rest /= 100n;
+      raw |= (((pair / 10n) << 4n) | (pair % 10n)) << (8n * i);
+    }
+  } else {
+    const min = type.signed ? -(1n << (bits - 1n)) : 0n;
+    const max = type.signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+    if (big < min || big > max) {
+      throw new Error(
+        `Value ${value} out of range for ${type.signed ? 'signed' : 'unsigned'} ` +
+        `${type.bytes}-byte type (${min} to ${max})`
+      );
+    }
+    raw = BigInt.asUintN(type.bytes * 8, big);
+  }
+
+  // Split into bytes, least significant first, then lay out by endianness.
+  // 'native' is treated as big endian, matching decodeMemoryValue().
+  const bytes = new Uint8Array(type.bytes);
+  for (let i = 0; i < type.bytes; i++) {
+    const byte = Number((raw >> BigInt(8 * i)) & 0xFFn);
+    bytes[type.endian === 'little' ? i : type.bytes - 1 - i] = byte;
+  }
+  return bytes;
+}
+
 /**
  * MemoryReader provides high-level access to game memory using
  * Stable Retro data.json variable mappings.
@@ -85,6 +190,9 @@ export class MemoryReader {
   /**
    * Read a single variable by name
    *
+   * 8-byte values beyond Number's safe integer range lose precision here;
+   * use getValue() to read them exactly.
+   *
    * @param name - Variable name from data.json (e.g., "x", "rings", "lives")
    * @returns The current value of the variable
    * @throws If game data is not loaded or variable is not found
@@ -95,6 +203,19 @@ export class MemoryReader {
    * const rings = reader.getVariable('rings');
    */
   getVariable(name: string): number {
+    return Number(this.getValue(name));
+  }
+
+  /**
+   * Read a single variable by name without converting it to a number
+   *
+   * Use this for 8-byte variables whose values may exceed
+   * Number.MAX_SAFE_INTEGER; those are returned as bigint.
+   *
+   * @param name - Variable name from data.json
+   * @throws If game data is not loaded or variable is not found
+   */
+  getValue(name: string): MemoryValue {
     if (!this.dataJson) {
       throw new Error('No game data loaded. Call loadGame() first.');
     }
@@ -129,7 +250,7 @@ export class MemoryReader {
     const state: GameState = {};
     for (const [name, mapping] of Object.entries(this.dataJson.info)) {
       try {
-        state[name] = this.readVariable(mapping);
+        state[name] = Number(this.readVariable(mapping));
       } catch {
         // Skip variables that fail to read (might be invalid addresses)
         state[name] = 0;
@@ -156,51 +277,45 @@ export class MemoryReader {
   }
 
   /**
-   * Read a value using a VariableMapping
+   * Write a single variable by name
+   *
+   * The value is encoded using the variable's data.json type spec
+   * (endianness, signedness, width).
+   *
+   * @param name - Variable name from data.json (e.g., "x", "rings", "lives")
+   * @param value - New value for the variable
+   * @throws If game data is not loaded, the variable is not found,
+   *         or the value does not fit the variable's type
+   *
+   * @example
+   * reader.setVariable('lives', 5);
+   * reader.setVariable('rings', 50);
    */
-  private readVariable(mapping: VariableMapping): number {
+  setVariable(name: string, value: MemoryValue): void {
+    if (!this.dataJson) {
+      throw new Error('No game data loaded. Call loadGame() first.');
+    }
+
+    const mapping = this.dataJson.info[name];
+    if (!mapping) {
+      const available = this.getVariableNames().join(', ');
+      throw new Error(
+        `Variable "${name}" not found. Available: ${available}`
+      );
+    }
+
     const parsed = parseTypeSpec(mapping.type);
     const adjustedAddress = mapping.address + this._memoryOffset;
-    return this.readMemoryTyped(adjustedAddress, parsed);
+    this.bridge.writeMemoryBytes(adjustedAddress, encodeMemoryValue(value, parsed));
   }
 
   /**
-   * Read memory using parsed type information
+   * Read a value using a VariableMapping
    */
-  private readMemoryTyped(address: number, type: ParsedMemoryType): number {
-    // Read the raw bytes
-    const rawBytes = this.bridge.readMemoryBytes(address, type.bytes);
-
-    // Handle single-byte reads
-    if (type.bytes === 1) {
-      const value = rawBytes[0];
-      if (type.signed && value >= 128) {
-        return value - 256;
-      }
-      return value;
-    }
-
-    // Combine bytes according to endianness
-    let value = 0;
-    if (type.endian === 'little') {
-      for (let i = type.bytes - 1; i >= 0; i--) {
-        value = (value << 8) | rawBytes[i];
-      }
-    } else {
-      // 'big' or 'native' (we treat native as big for Genesis)
-      for (let i = 0; i < type.bytes; i++) {
-        value = (value << 8) | rawBytes[i];
-      }
-    }
-
-    // Handle signed values using two's complement
-    if (type.signed) {
-      const signBit = 1 << (type.bytes * 8 - 1);
-      if (value & signBit) {
-        value = value - (1 << (type.bytes * 8));
-      }
-    }
-
-    return value;
+  private readVariable(mapping: VariableMapping): MemoryValue {
+    const parsed = parseTypeSpec(mapping.type);
+    const adjustedAddress = mapping.address + this._memoryOffset;
+    const rawBytes = this.bridge.readMemoryBytes(adjustedAddress, parsed.bytes);
+    return decodeMemoryValue(rawBytes, parsed);
   }
 }
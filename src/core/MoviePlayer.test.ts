@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameController } from './GameController';
+import { GameState } from './MemoryReader';
+import { Movie } from './movie';
+import { MoviePlayer } from './MoviePlayer';
+import { createMockController, sonicPhysics } from '../testing';
+
+describe('MoviePlayer', () => {
+  let controller: GameController;
+  let movie: Movie;
+
+  /** Game state after each frame of a straight replay (index 0 = start) */
+  let replayed: GameState[];
+
+  let player: MoviePlayer;
+
+  beforeEach(async () => {
+    controller = await createMockController({ physics: sonicPhysics });
+    controller.loadGameData('SonicTheHedgehog2-Genesis');
+
+    // Run right, jump twice, then run back left
+    controller.startRecording();
+    controller.press('right');
+    await controller.stepFrames(60);
+    await controller.hold('b', 10);
+    await controller.stepFrames(50);
+    await controller.hold('b', 5);
+    controller.release('right');
+    controller.press('left');
+    await controller.stepFrames(115);
+    movie = controller.stopRecording();
+
+    controller.loadState(movie.startState!);
+    replayed = [controller.getState()];
+    await controller.replay(movie, () => replayed.push(controller.getState()));
+
+    player = new MoviePlayer(controller, movie, { keyframeInterval: 50 });
+  });
+
+  afterEach(async () => {
+    const disposed = player.dispose();
+    if (vi.isFakeTimers()) {
+      // Let a paced loop finish its wait
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+    }
+    await disposed;
+  });
+
+  it('seeks to the state a straight replay reaches', async () => {
+    for (const frame of [90, 30, 160, 55, 0, 240]) {
+      await player.seek(frame);
+      expect(player.frame).toBe(frame);
+      expect(controller.getState()).toEqual(replayed[frame]);
+    }
+  });
+
+  it('clamps seeks to the movie', async () => {
+    await player.seek(1000);
+    expect(player.frame).toBe(240);
+    expect(controller.getState()).toEqual(replayed[240]);
+
+    await player.seek(-5);
+    expect(player.frame).toBe(0);
+    expect(controller.getState()).toEqual(replayed[0]);
+  });
+
+  it('seeks back from the nearest keyframe', async () => {
+    await player.seek(180);
+    const step = vi.spyOn(controller, 'step');
+
+    await player.seek(120);
+    expect(step).toHaveBeenCalledTimes(20);
+    expect(controller.getState()).toEqual(replayed[120]);
+  });
+
+  it('keeps its position across pause and play', async () => {
+    const frames: number[] = [];
+    player = new MoviePlayer(controller, movie, { onUpdate: (p) => frames.push(p.frame) });
+    player.speed = 100;
+
+    player.play();
+    await vi.waitFor(() => expect(player.frame).toBeGreaterThanOrEqual(40), { timeout: 5000 });
+    await player.pause();
+
+    const paused = player.frame;
+    expect(player.isPlaying).toBe(false);
+    expect(controller.getState()).toEqual(replayed[paused]);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(player.frame).toBe(paused);
+
+    frames.length = 0;
+    player.play();
+    await vi.waitFor(() => expect(player.isPlaying).toBe(false), { timeout: 5000 });
+
+    // Resumed from the paused frame, not from the start
+    expect(frames.slice(0, 2)).toEqual([paused, paused + 1]);
+    expect(player.frame).toBe(240);
+    expect(controller.getState()).toEqual(replayed[240]);
+  });
+
+  it('plays at the chosen speed', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'performance'] });
+
+    // 60 frames per second at 1x
+    player.play();
+    await vi.advanceTimersByTimeAsync(500);
+    const atNormalSpeed = player.frame;
+    expect(atNormalSpeed).toBeGreaterThanOrEqual(29);
+    expect(atNormalSpeed).toBeLessThanOrEqual(32);
+
+    player.speed = 4;
+    await vi.advanceTimersByTimeAsync(500);
+    expect((player.frame - atNormalSpeed) / atNormalSpeed).toBeCloseTo(4, 0);
+
+    // The paused loop is waiting on a timer
+    const paused = player.pause();
+    await vi.advanceTimersByTimeAsync(100);
+    await paused;
+    expect(controller.getState()).toEqual(replayed[player.frame]);
+  });
+
+  it('rejects invalid speeds', () => {
+    expect(() => { player.speed = 0; }).toThrow('Invalid playback speed: 0');
+  });
+
+  it('needs a start state', () => {
+    expect(() => new MoviePlayer(controller, { ...movie, startState: null }))
+      .toThrow('Movie has no start state');
+  });
+});
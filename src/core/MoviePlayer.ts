@@ -0,0 +1,216 @@
+/**
+ * MoviePlayer - Watch a recorded run with play/pause/seek/speed
+ *
+ * Re-drives the emulator from the movie's start state with the recorded
+ * inputs. Save states are kept every few hundred frames while playing so
+ * seeking backwards doesn't replay the whole run.
+ */
+
+import { GameController } from './GameController';
+import { Movie } from './movie';
+
+/** Playback rate at 1x speed */
+const FRAMES_PER_SECOND = 60;
+
+/**
+ * Options for MoviePlayer
+ */
+export interface MoviePlayerOptions {
+  /** Frames between seek keyframes (default: 300) */
+  keyframeInterval?: number;
+
+  /** Called when the position or playing state changes */
+  onUpdate?: (player: MoviePlayer) => void;
+}
+
+/**
+ * MoviePlayer plays a movie back through a GameController.
+ *
+ * @example
+ * const player = new MoviePlayer(controller, result.movie!, {
+ *   onUpdate: (p) => console.log(`${p.frame}/${p.length}`),
+ * });
+ * player.speed = 2;
+ * player.play();
+ * await player.seek(120);
+ */
+export class MoviePlayer {
+  private controller: GameController;
+  private movie: Movie;
+  private keyframeInterval: number;
+  private onUpdate?: (player: MoviePlayer) => void;
+  private keyframes: Map<number, Uint8Array> = new Map();
+  private _frame: number = 0;
+  private _isPlaying: boolean = false;
+  private _speed: number = 1;
+  private positioned: boolean = false;
+  private loop: Promise<void> = Promise.resolve();
+
+  /**
+   * @throws If the movie has no start state to play from, or was recorded
+   *         with a different core
+   */
+  constructor(controller: GameController, movie: Movie, options: MoviePlayerOptions = {}) {
+    if (!movie.startState) {
+      throw new Error('Movie has no start state; it can only be replayed from the current state');
+    }
+    const core = controller.getBridge().core;
+    if (movie.core && movie.core !== core) {
+      throw new Error(`Movie was recorded with core "${movie.core}", but "${core}" is running`);
+    }
+    this.controller = controller;
+    this.movie = movie;
+    this.keyframeInterval = options.keyframeInterval ?? 300;
+    this.onUpdate = options.onUpdate;
+    this.keyframes.set(0, movie.startState);
+  }
+
+  /**
+   * Frames played so far (0 to length)
+   */
+  get frame(): number {
+    return this._frame;
+  }
+
+  /**
+   * Total frames in the movie
+   */
+  get length(): number {
+    return this.movie.frames.length;
+  }
+
+  /**
+   * Whether playback is running
+   */
+  get isPlaying(): boolean {
+    return this._isPlaying;
+  }
+
+  /**
+   * Playback speed multiplier (1 = 60 frames per second)
+   */
+  get speed(): number {
+    return this._speed;
+  }
+
+  set speed(value: number) {
+    if (!(value > 0)) {
+      throw new Error(`Invalid playback speed: ${value}`);
+    }
+    this._speed = value;
+    this.onUpdate?.(this);
+  }
+
+  /**
+   * Start playing from the current position (from the start if finished)
+   */
+  play(): void {
+    if (this._isPlaying) return;
+    this._isPlaying = true;
+    this.onUpdate?.(this);
+    this.loop = this.run();
+  }
+
+  /**
+   * Pause playback, resolving once the current frame finishes
+   */
+  async pause(): Promise<void> {
+    this._isPlaying = false;
+    await this.loop;
+  }
+
+  /**
+   * Move to a frame, as if the movie had played up to it
+   *
+   * @param frame - Target frame (clamped to 0..length)
+   */
+  async seek(frame: number): Promise<void> {
+    const wasPlaying = this._isPlaying;
+    await this.pause();
+
+    const target = Math.max(0, Math.min(Math.floor(frame), this.length));
+
+    // Jump to the nearest keyframe when going backwards or when it skips ahead
+    const keyframe = this.nearestKeyframe(target);
+    if (!this.positioned || target < this._frame || keyframe > this._frame) {
+      this.controller.loadState(this.keyframes.get(keyframe)!);
+      this._frame = keyframe;
+      this.positioned = true;
+    }
+
+    while (this._frame < target) {
+      await this.advance();
+    }
+    this.controller.releaseAll();
+    this.onUpdate?.(this);
+
+    if (wasPlaying && this._frame < this.length) {
+      this.play();
+    }
+  }
+
+  /**
+   * Stop playback and release any held buttons
+   */
+  async dispose(): Promise<void> {
+    await this.pause();
+    this.controller.releaseAll();
+    this.onUpdate = undefined;
+  }
+
+  /**
+   * Playback loop, paced to the current speed
+   */
+  private async run(): Promise<void> {
+    try {
+      if (!this.positioned || this._frame >= this.length) {
+        this.controller.loadState(this.movie.startState!);
+        this._frame = 0;
+        this.positioned = true;
+      }
+
+      while (this._isPlaying && this._frame < this.length) {
+        const started = performance.now();
+        await this.advance();
+        this.onUpdate?.(this);
+
+        const delay = 1000 / (FRAMES_PER_SECOND * this._speed) - (performance.now() - started);
+        if (delay > 0) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    } catch (error) {
+      console.error('[MoviePlayer] Playback error:', error);
+    } finally {
+      this.controller.releaseAll();
+      this._isPlaying = false;
+      this.onUpdate?.(this);
+    }
+  }
+
+  /**
+   * Play one frame with its recorded inputs, saving keyframes as we go
+   */
+  private async advance(): Promise<void> {
+    this.controller.setHeldButtons(this.movie.frames[this._frame]);
+    await this.controller.step();
+    this._frame++;
+
+    if (this._frame % this.keyframeInterval === 0 && !this.keyframes.has(this._frame)) {
+      this.keyframes.set(this._frame, this.controller.saveState());
+    }
+  }
+
+  /**
+   * Latest keyframe at or before a frame
+   */
+  private nearestKeyframe(frame: number): number {
+    let nearest = 0;
+    for (const keyframe of this.keyframes.keys()) {
+      if (keyframe <= frame && keyframe > nearest) {
+        nearest = keyframe;
+      }
+    }
+    return nearest;
+  }
+}
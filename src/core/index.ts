@@ -5,3 +5,7 @@
 export * from './EmulatorBridge';
 export * from './GameController';
 export * from './MemoryReader';
+export * from './ramDiscovery';
+export * from './movie';
+export * from './MoviePlayer';
+export * from './zip';
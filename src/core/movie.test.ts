@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBk2, encodeBk2, Movie } from './movie';
+import { createZip, readZip } from './zip';
+
+const movie: Movie = {
+  gameName: 'SonicTheHedgehog2-Genesis',
+  core: 'genesis_plus_gx',
+  startState: new Uint8Array([1, 2, 3, 4]),
+  frames: [[], ['right'], ['right', 'y'], ['b', 'a', 'start']],
+};
+
+/** Read a text file from a .bk2 */
+async function readText(bk2: Uint8Array, name: string): Promise<string> {
+  const entry = (await readZip(bk2)).find(file => file.name === name);
+  return new TextDecoder().decode(entry?.data);
+}
+
+describe('encodeBk2', () => {
+  it('writes Genesis buttons in BizHawk\'s column order', async () => {
+    const inputLog = await readText(encodeBk2(movie), 'Input Log.txt');
+    expect(inputLog.split('\n')).toEqual([
+      '[Input]',
+      'LogKey:#Reset|Power|#P1 Up|P1 Down|P1 Left|P1 Right|P1 A|P1 B|P1 C|P1 Start|P1 X|P1 Y|P1 Z|P1 Mode|',
+      '|..|............|',
+      '|..|...R........|',
+      // RetroPad Y is Genesis A, B is B and A is C, as in genesis_plus_gx
+      '|..|...RA.......|',
+      '|..|.....BCS....|',
+      '[/Input]',
+      '',
+    ]);
+  });
+
+  it('writes the header and start state', async () => {
+    const bk2 = encodeBk2(movie);
+    expect(await readText(bk2, 'Header.txt')).toBe([
+      'MovieVersion BizHawk v2.0',
+      'Platform Genesis',
+      'GameName SonicTheHedgehog2-Genesis',
+      'Core genesis_plus_gx',
+      'StartsFromSavestate 1',
+      '',
+    ].join('\n'));
+    expect((await readZip(bk2)).find(file => file.name === 'Core.bin')?.data).toEqual(movie.startState);
+  });
+
+  it('drops buttons the console does not have', async () => {
+    const decoded = await decodeBk2(encodeBk2({ ...movie, frames: [['l2', 'right']] }));
+    expect(decoded.frames).toEqual([['right']]);
+  });
+});
+
+describe('decodeBk2', () => {
+  it('reads back what encodeBk2 writes', async () => {
+    await expect(decodeBk2(encodeBk2(movie))).resolves.toEqual(movie);
+  });
+
+  it('reads movies without a start state', async () => {
+    const decoded = await decodeBk2(encodeBk2({ ...movie, core: 'snes9x', startState: null }));
+    expect(decoded.startState).toBeNull();
+    // Buttons come back in the SNES column order
+    expect(decoded.frames).toEqual([[], ['right'], ['right', 'y'], ['start', 'b', 'a']]);
+  });
+
+  it('matches columns by log key', async () => {
+    const inputLog = ['[Input]', 'LogKey:#P1 Start|P1 C|P1 Right|', '|S.R|', '|.C.|', '[/Input]'].join('\n');
+    const bk2 = createZip([
+      { name: 'Header.txt', data: new TextEncoder().encode('Platform Genesis\n') },
+      { name: 'Input Log.txt', data: new TextEncoder().encode(inputLog) },
+    ]);
+    expect((await decodeBk2(bk2)).frames).toEqual([['start', 'right'], ['a']]);
+  });
+
+  it('rejects files without an input log', async () => {
+    const bk2 = createZip([{ name: 'Header.txt', data: new Uint8Array(0) }]);
+    await expect(decodeBk2(bk2)).rejects.toThrow('Invalid .bk2 file: missing "Input Log.txt"');
+  });
+});
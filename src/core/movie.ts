@@ -0,0 +1,227 @@
+/**
+ * Input movies - Per-frame input recordings and .bk2 files
+ *
+ * A movie is a starting save state plus the buttons held on every frame.
+ * Replaying it through GameController.replay() reproduces the run exactly.
+ * Movies are saved as BizHawk/Stable Retro style .bk2 files: a ZIP holding
+ * Header.txt, "Input Log.txt" and the starting state as Core.bin.
+ */
+
+import type { Button } from './GameController';
+import { CORE_CONSOLES } from './ramDiscovery';
+import { createZip, readZip, ZipEntry } from './zip';
+
+/**
+ * A recorded run
+ */
+export interface Movie {
+  /** Game identifier (e.g., "SonicTheHedgehog2-Genesis") */
+  gameName: string;
+
+  /** EmulatorJS core the movie was recorded with */
+  core: string;
+
+  /** Save state the recording starts from (null: started from power-on state) */
+  startState: Uint8Array | null;
+
+  /** Buttons held during each frame */
+  frames: Button[][];
+}
+
+/**
+ * A .bk2 input column: the button, its log key and its mnemonic
+ */
+type Bk2Column = [button: Button, key: string, mnemonic: string];
+
+/**
+ * Controller layouts per console, in BizHawk's column order.
+ * RetroPad names map to console buttons as in the libretro cores.
+ */
+const BK2_LAYOUTS: Record<string, { platform: string; columns: Bk2Column[] }> = {
+  genesis: {
+    platform: 'Genesis',
+    columns: [
+      ['up', 'P1 Up', 'U'],
+      ['down', 'P1 Down', 'D'],
+      ['left', 'P1 Left', 'L'],
+      ['right', 'P1 Right', 'R'],
+      ['y', 'P1 A', 'A'],
+      ['b', 'P1 B', 'B'],
+      ['a', 'P1 C', 'C'],
+      ['start', 'P1 Start', 'S'],
+      ['l', 'P1 X', 'X'],
+      ['x', 'P1 Y', 'Y'],
+      ['r', 'P1 Z', 'Z'],
+      ['select', 'P1 Mode', 'M'],
+    ],
+  },
+  nes: {
+    platform: 'NES',
+    columns: [
+      ['up', 'P1 Up', 'U'],
+      ['down', 'P1 Down', 'D'],
+      ['left', 'P1 Left', 'L'],
+      ['right', 'P1 Right', 'R'],
+      ['start', 'P1 Start', 'S'],
+      ['select', 'P1 Select', 's'],
+      ['b', 'P1 B', 'B'],
+      ['a', 'P1 A', 'A'],
+    ],
+  },
+  snes: {
+    platform: 'SNES',
+    columns: [
+      ['up', 'P1 Up', 'U'],
+      ['down', 'P1 Down', 'D'],
+      ['left', 'P1 Left', 'L'],
+      ['right', 'P1 Right', 'R'],
+      ['select', 'P1 Select', 's'],
+      ['start', 'P1 Start', 'S'],
+      ['y', 'P1 Y', 'Y'],
+      ['b', 'P1 B', 'B'],
+      ['x', 'P1 X', 'X'],
+      ['a', 'P1 A', 'A'],
+      ['l', 'P1 L', 'l'],
+      ['r', 'P1 R', 'r'],
+    ],
+  },
+};
+
+/**
+ * Fallback layout for other consoles: the full RetroPad
+ */
+const RETROPAD_LAYOUT = {
+  platform: 'RetroPad',
+  columns: ([
+    ['up', 'U'], ['down', 'D'], ['left', 'L'], ['right', 'R'],
+    ['b', 'B'], ['y', 'Y'], ['select', 's'], ['start', 'S'],
+    ['a', 'A'], ['x', 'X'], ['l', 'l'], ['r', 'r'],
+    ['l2', 'e'], ['r2', 'f'], ['l3', 'g'], ['r3', 'h'],
+  ] as [Button, string][]).map(([button, mnemonic]): Bk2Column => [
+    button,
+    `P1 ${button.toUpperCase()}`,
+    mnemonic,
+  ]),
+};
+
+/** Console-level buttons that precede the controller columns */
+const CONSOLE_KEYS = ['Reset', 'Power'];
+
+const HEADER_FILE = 'Header.txt';
+const INPUT_LOG_FILE = 'Input Log.txt';
+const STATE_FILE = 'Core.bin';
+
+/**
+ * Get the .bk2 layout for a core
+ */
+function getLayout(core: string) {
+  return BK2_LAYOUTS[CORE_CONSOLES[core] ?? core] ?? RETROPAD_LAYOUT;
+}
+
+/**
+ * Encode a movie as a .bk2 file
+ *
+ * Buttons the console doesn't have (e.g., 'l2' on Genesis) are dropped.
+ *
+ * @example
+ * const movie = controller.stopRecording();
+ * const blob = new Blob([encodeBk2(movie)], { type: 'application/zip' });
+ */
+export function encodeBk2(movie: Movie): Uint8Array {
+  const { platform, columns } = getLayout(movie.core);
+  const encoder = new TextEncoder();
+
+  const header = [
+    'MovieVersion BizHawk v2.0',
+    `Platform ${platform}`,
+    `GameName ${movie.gameName}`,
+    `Core ${movie.core}`,
+    `StartsFromSavestate ${movie.startState ? 1 : 0}`,
+  ].join('\n');
+
+  const logKey = `LogKey:#${CONSOLE_KEYS.join('|')}|#${columns.map(([, key]) => key).join('|')}|`;
+  const consoleSection = '.'.repeat(CONSOLE_KEYS.length);
+  const frameLines = movie.frames.map((held) => {
+    const buttons = columns
+      .map(([button, , mnemonic]) => (held.includes(button) ? mnemonic : '.'))
+      .join('');
+    return `|${consoleSection}|${buttons}|`;
+  });
+  const inputLog = ['[Input]', logKey, ...frameLines, '[/Input]', ''].join('\n');
+
+  const entries: ZipEntry[] = [
+    { name: HEADER_FILE, data: encoder.encode(header + '\n') },
+    { name: INPUT_LOG_FILE, data: encoder.encode(inputLog) },
+  ];
+  if (movie.startState) {
+    entries.push({ name: STATE_FILE, data: movie.startState });
+  }
+  return createZip(entries);
+}
+
+/**
+ * Decode a .bk2 file
+ *
+ * Columns are matched by log key, so files from other tools load as long
+ * as their keys match the console's layout; unknown keys are ignored.
+ *
+ * @throws If the file is not a ZIP or has no input log
+ */
+export async function decodeBk2(data: Uint8Array): Promise<Movie> {
+  const entries = await readZip(data);
+  const decoder = new TextDecoder();
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+
+  const header: Record<string, string> = {};
+  const headerData = files.get(HEADER_FILE);
+  if (headerData) {
+    for (const line of decoder.decode(headerData).split(/\r?\n/)) {
+      const space = line.indexOf(' ');
+      if (space > 0) {
+        header[line.slice(0, space)] = line.slice(space + 1).trim();
+      }
+    }
+  }
+
+  const inputData = files.get(INPUT_LOG_FILE);
+  if (!inputData) {
+    throw new Error(`Invalid .bk2 file: missing "${INPUT_LOG_FILE}"`);
+  }
+
+  const core = header.Core ?? '';
+  const layout =
+    Object.values(BK2_LAYOUTS).find(({ platform }) => platform === header.Platform) ??
+    getLayout(core);
+  const buttonsByKey = new Map(layout.columns.map(([button, key]) => [key, button]));
+
+  let keys: string[] = [];
+  const frames: Button[][] = [];
+  for (const line of decoder.decode(inputData).split(/\r?\n/)) {
+    if (line.startsWith('LogKey:')) {
+      keys = line
+        .slice('LogKey:'.length)
+        .split('|')
+        .map(key => key.replace(/^#/, ''))
+        .filter(key => key.length > 0);
+    } else if (line.startsWith('|')) {
+      const columns = line.split('|').join('');
+      const held: Button[] = [];
+      keys.forEach((key, index) => {
+        const button = buttonsByKey.get(key);
+        const value = columns[index];
+        if (button && value !== undefined && value !== '.' && value !== ' ') {
+          held.push(button);
+        }
+      });
+      frames.push(held);
+    }
+  }
+
+  const startState = files.get(STATE_FILE);
+  return {
+    gameName: header.GameName ?? '',
+    core,
+    startState: startState ?? null,
+    frames,
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { CORE_CONSOLES, RAM_DISCOVERY_STRATEGIES, getRamDiscoveryStrategy } from './ramDiscovery';
+
+describe('RAM discovery strategies', () => {
+  it('format cheats for the system address of a work RAM offset', () => {
+    const cheat = (consoleName: string, offset: number) =>
+      getRamDiscoveryStrategy(consoleName).formatCheat(offset, 0x09);
+
+    expect(cheat('genesis', 0xFE12)).toBe('FFFE12:09');
+    expect(cheat('sms', 0x1000)).toBe('D000:09');
+    expect(cheat('nes', 0x07F0)).toBe('07F0:09');
+    expect(cheat('snes', 0x0DBE)).toBe('7E0DBE09');
+    expect(cheat('snes', 0x1F000)).toBe('7FF00009');
+    expect(cheat('gb', 0x11A1)).toBe('0109A1D1');
+    expect(cheat('gbc', 0x0000)).toBe('010900C0');
+    expect(cheat('gba', 0x3F000)).toBe('3203F000 0009');
+  });
+
+  it('cover each console\'s work RAM', () => {
+    const ranges = Object.fromEntries(
+      Object.entries(RAM_DISCOVERY_STRATEGIES).map(([name, { ramStart, ramSize }]) => [name, [ramStart, ramSize]])
+    );
+    expect(ranges).toEqual({
+      genesis: [0xFF0000, 0x10000],
+      segaMD: [0xFF0000, 0x10000],
+      sms: [0xC000, 0x2000],
+      segaMS: [0xC000, 0x2000],
+      nes: [0x0000, 0x800],
+      snes: [0x7E0000, 0x20000],
+      gb: [0xC000, 0x2000],
+      gbc: [0xC000, 0x2000],
+      gba: [0x02000000, 0x40000],
+    });
+  });
+
+  it('probe inside work RAM', () => {
+    for (const strategy of Object.values(RAM_DISCOVERY_STRATEGIES)) {
+      expect(strategy.probeOffset).toBeGreaterThanOrEqual(0);
+      expect(strategy.probeOffset).toBeLessThan(strategy.ramSize);
+    }
+  });
+
+  it('are found by console or core name', () => {
+    for (const [core, consoleName] of Object.entries(CORE_CONSOLES)) {
+      expect(getRamDiscoveryStrategy(core)).toBe(getRamDiscoveryStrategy(consoleName));
+    }
+    expect(() => getRamDiscoveryStrategy('n64')).toThrow('No RAM discovery strategy for "n64"');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Work RAM discovery strategies
+ *
+ * Most libretro cores allocate the emulated console's work RAM somewhere
+ * inside the Emscripten heap. EmulatorBridge.discoverWorkRamBase() finds it
+ * by writing marker values through the core's cheat system and scanning
+ * HEAPU8. Each console needs its own cheat format, RAM size and address
+ * space, described here as a RamDiscoveryStrategy.
+ */
+
+/**
+ * Console-specific parameters for work RAM discovery
+ */
+export interface RamDiscoveryStrategy {
+  /** Console name (e.g., "genesis", "nes") */
+  console: string;
+
+  /**
+   * System address where work RAM starts.
+   * data.json addresses are relative to this: heapAddr = base + (addr - ramStart)
+   */
+  ramStart: number;
+
+  /** Size of the work RAM window in bytes */
+  ramSize: number;
+
+  /** Offset within work RAM where marker values are written */
+  probeOffset: number;
+
+  /**
+   * Build a cheat code that writes a byte to work RAM.
+   * @param offset - Offset from ramStart
+   * @param value - Byte value to write
+   */
+  formatCheat(offset: number, value: number): string;
+}
+
+/**
+ * Format a number as uppercase hex with a fixed width
+ */
+function hex(value: number, width: number): string {
+  return value.toString(16).toUpperCase().padStart(width, '0');
+}
+
+/**
+ * Genesis: 64KB at 0xFF0000, Action Replay "AAAAAA:VV" codes
+ */
+const GENESIS_STRATEGY: RamDiscoveryStrategy = {
+  console: 'genesis',
+  ramStart: 0xFF0000,
+  ramSize: 0x10000,
+  // Lives counter in Sonic 2; harmless scratch byte in most games
+  probeOffset: 0xFE12,
+  formatCheat: (offset, value) => `${hex(0xFF0000 + offset, 6)}:${hex(value, 2)}`,
+};
+
+/**
+ * Master System: 8KB at 0xC000, raw "AAAA:VV" codes
+ */
+const SMS_STRATEGY: RamDiscoveryStrategy = {
+  console: 'sms',
+  ramStart: 0xC000,
+  ramSize: 0x2000,
+  probeOffset: 0x1000,
+  formatCheat: (offset, value) => `${hex(0xC000 + offset, 4)}:${hex(value, 2)}`,
+};
+
+/**
+ * NES: 2KB at 0x0000, raw "AAAA:VV" codes
+ */
+const NES_STRATEGY: RamDiscoveryStrategy = {
+  console: 'nes',
+  ramStart: 0x0000,
+  ramSize: 0x800,
+  // Avoid zero page and the stack page
+  probeOffset: 0x07F0,
+  formatCheat: (offset, value) => `${hex(offset, 4)}:${hex(value, 2)}`,
+};
+
+/**
+ * SNES: 128KB at 0x7E0000, Pro Action Replay "AAAAAAVV" codes
+ */
+const SNES_STRATEGY: RamDiscoveryStrategy = {
+  console: 'snes',
+  ramStart: 0x7E0000,
+  ramSize: 0x20000,
+  probeOffset: 0x1F000,
+  formatCheat: (offset, value) => `${hex(0x7E0000 + offset, 6)}${hex(value, 2)}`,
+};
+
+/**
+ * Game Boy / Game Boy Color: 8KB at 0xC000 (bank 0 + 1),
+ * GameShark "01VVLLHH" codes (address is little endian)
+ */
+function gameBoyStrategy(consoleName: string): RamDiscoveryStrategy {
+  return {
+    console: consoleName,
+    ramStart: 0xC000,
+    ramSize: 0x2000,
+    probeOffset: 0x1000,
+    formatCheat: (offset, value) => {
+      const address = 0xC000 + offset;
+      return `01${hex(value, 2)}${hex(address & 0xFF, 2)}${hex(address >> 8, 2)}`;
+    },
+  };
+}
+
+/**
+ * GBA: 256KB EWRAM at 0x02000000, CodeBreaker "3AAAAAAA 00VV" codes
+ */
+const GBA_STRATEGY: RamDiscoveryStrategy = {
+  console: 'gba',
+  ramStart: 0x02000000,
+  ramSize: 0x40000,
+  probeOffset: 0x3F000,
+  formatCheat: (offset, value) => `3${hex(0x02000000 + offset, 7)} 00${hex(value, 2)}`,
+};
+
+/**
+ * Discovery strategies by console name
+ */
+export const RAM_DISCOVERY_STRATEGIES: Record<string, RamDiscoveryStrategy> = {
+  genesis: GENESIS_STRATEGY,
+  segaMD: GENESIS_STRATEGY,
+  sms: SMS_STRATEGY,
+  segaMS: SMS_STRATEGY,
+  nes: NES_STRATEGY,
+  snes: SNES_STRATEGY,
+  gb: gameBoyStrategy('gb'),
+  gbc: gameBoyStrategy('gbc'),
+  gba: GBA_STRATEGY,
+};
+
+/**
+ * Default console for each EmulatorJS core
+ */
+export const CORE_CONSOLES: Record<string, string> = {
+  genesis_plus_gx: 'genesis',
+  picodrive: 'genesis',
+  smsplus: 'sms',
+  fceumm: 'nes',
+  nestopia: 'nes',
+  snes9x: 'snes',
+  gambatte: 'gb',
+  mgba: 'gba',
+};
+
+/**
+ * Look up the discovery strategy for a console name or core name
+ *
+ * @param consoleOrCore - Console (e.g., "nes") or core (e.g., "fceumm")
+ * @throws If no strategy is available
+ *
+ * @example
+ * getRamDiscoveryStrategy('snes9x').console // 'snes'
+ * getRamDiscoveryStrategy('gbc').ramStart   // 0xC000
+ */
+export function getRamDiscoveryStrategy(consoleOrCore: string): RamDiscoveryStrategy {
+  const strategy =
+    RAM_DISCOVERY_STRATEGIES[consoleOrCore] ??
+    RAM_DISCOVERY_STRATEGIES[CORE_CONSOLES[consoleOrCore]];
+  if (!strategy) {
+    const available = Object.keys(RAM_DISCOVERY_STRATEGIES).join(', ');
+    throw new Error(
+      `No RAM discovery strategy for "${consoleOrCore}". Available: ${available}`
+    );
+  }
+  return strategy;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, readZip } from './zip';
+
+/** A ZIP with one deflated entry, Header.txt = "Platform Genesis\n" x 4 (written by Python's zipfile) */
+const DEFLATED_ZIP =
+  'UEsDBBQAAAAIAGyfU124nr6cFgAAAEQAAAAKAAAASGVhZGVyLnR4dAvISSxJyy/KVXBPzUstzizmCiBdAABQSwECFAMUAAAACABsn1Nd' +
+  'uJ6+nBYAAABEAAAACgAAAAAAAAAAAAAAgAEAAAAASGVhZGVyLnR4dFBLBQYAAAAAAQABADgAAAA+AAAAAAA=';
+
+describe('createZip', () => {
+  it('stores entries that read back unchanged', async () => {
+    const entries = [
+      { name: 'Header.txt', data: new TextEncoder().encode('Platform Genesis\n') },
+      { name: 'Input Log.txt', data: new Uint8Array(0) },
+      { name: 'Core.bin', data: Uint8Array.from({ length: 300 }, (_, i) => i & 0xFF) },
+    ];
+    await expect(readZip(createZip(entries))).resolves.toEqual(entries);
+  });
+
+  it('writes the CRC-32 of each entry', () => {
+    const zip = createZip([{ name: 'a', data: new TextEncoder().encode('abc') }]);
+    expect(new DataView(zip.buffer).getUint32(14, true)).toBe(0x352441C2);
+  });
+});
+
+describe('readZip', () => {
+  it('inflates deflated entries', async () => {
+    const zip = Uint8Array.from(atob(DEFLATED_ZIP), char => char.charCodeAt(0));
+    const [entry] = await readZip(zip);
+    expect(entry.name).toBe('Header.txt');
+    expect(new TextDecoder().decode(entry.data)).toBe('Platform Genesis\n'.repeat(4));
+  });
+
+  it('rejects data that is not a ZIP archive', async () => {
+    await expect(readZip(new Uint8Array(64))).rejects.toThrow('Not a ZIP archive');
+  });
+});
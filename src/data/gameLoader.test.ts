@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { loadGameDataIndex, loadGameDirectory } from './gameLoader';
+import { loadDataJson, loadMetadataJson, loadScenarioJson, unregisterGameData } from './parser';
+import { getDefaultState, loadState } from './stateLoader';
+import sonicData from './games/SonicTheHedgehog2-Genesis/data.json';
+import sonicScenario from './games/SonicTheHedgehog2-Genesis/scenario.json';
+import sonicMetadata from './games/SonicTheHedgehog2-Genesis/metadata.json';
+import airstrikerData from './games/Airstriker-Genesis/data.json';
+
+/** Files served by the stubbed fetch, by URL: JSON values or ArrayBuffers */
+let files: Record<string, unknown>;
+
+/** Games registered by a test, unregistered after it */
+const loadedGames = ['LoadedSonic-Genesis', 'LoadedAirstriker-Genesis'];
+
+beforeEach(() => {
+  files = {};
+  vi.stubGlobal('fetch', async (url: string) => {
+    if (!(url in files)) {
+      return new Response(null, { status: 404 });
+    }
+    const body = files[url];
+    return body instanceof ArrayBuffer
+      ? new Response(body)
+      : new Response(JSON.stringify(body));
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  loadedGames.forEach(unregisterGameData);
+});
+
+describe('loadGameDirectory', () => {
+  it('registers data.json, scenario.json and metadata.json', async () => {
+    files = {
+      '/games/sonic/data.json': sonicData,
+      '/games/sonic/scenario.json': sonicScenario,
+      '/games/sonic/metadata.json': sonicMetadata,
+    };
+
+    const gameData = await loadGameDirectory('/games/sonic/', 'LoadedSonic-Genesis');
+
+    expect(loadDataJson('LoadedSonic-Genesis')).toEqual(sonicData);
+    expect(loadScenarioJson('LoadedSonic-Genesis')).toEqual(sonicScenario);
+    expect(loadMetadataJson('LoadedSonic-Genesis')).toEqual(sonicMetadata);
+    expect(gameData.states).toEqual({
+      'EmeraldHillZone.Act1': '/games/sonic/states/EmeraldHillZone.Act1.state',
+    });
+    expect(getDefaultState('LoadedSonic-Genesis')).toBe('EmeraldHillZone.Act1');
+  });
+
+  it('loads a game without scenario.json or metadata.json', async () => {
+    files = { '/games/airstriker/data.json': airstrikerData };
+
+    const gameData = await loadGameDirectory('/games/airstriker', 'LoadedAirstriker-Genesis', ['Level1']);
+
+    expect(loadDataJson('LoadedAirstriker-Genesis')).toEqual(airstrikerData);
+    expect(gameData.scenario).toBeUndefined();
+    expect(gameData.metadata).toBeUndefined();
+    expect(getDefaultState('LoadedAirstriker-Genesis')).toBe('Level1');
+  });
+
+  it('requires data.json', async () => {
+    files = { '/games/sonic/scenario.json': sonicScenario };
+    await expect(loadGameDirectory('/games/sonic', 'LoadedSonic-Genesis'))
+      .rejects.toThrow('Failed to fetch /games/sonic/data.json: 404');
+  });
+
+  it('rejects an invalid data.json', async () => {
+    files = { '/games/sonic/data.json': { info: { x: { type: '>u2' } } } };
+    await expect(loadGameDirectory('/games/sonic', 'LoadedSonic-Genesis'))
+      .rejects.toThrow('LoadedSonic-Genesis/data.json: variable "x" has no numeric address');
+  });
+});
+
+describe('loadGameDataIndex', () => {
+  it('loads each game relative to the index', async () => {
+    files = {
+      '/games/games.json': {
+        games: [
+          { id: 'LoadedSonic-Genesis', path: 'sonic' },
+          { id: 'LoadedAirstriker-Genesis', path: 'airstriker' },
+        ],
+      },
+      '/games/sonic/data.json': sonicData,
+      '/games/airstriker/data.json': airstrikerData,
+    };
+
+    await expect(loadGameDataIndex('/games/games.json'))
+      .resolves.toEqual(['LoadedSonic-Genesis', 'LoadedAirstriker-Genesis']);
+    expect(loadDataJson('LoadedAirstriker-Genesis')).toEqual(airstrikerData);
+  });
+
+  it('rejects an index without a games list', async () => {
+    files = { '/games/games.json': {} };
+    await expect(loadGameDataIndex('/games/games.json'))
+      .rejects.toThrow('/games/games.json: missing "games" list');
+  });
+});
+
+describe('loadState', () => {
+  beforeEach(async () => {
+    files = { '/games/sonic/data.json': sonicData };
+    await loadGameDirectory('/games/sonic', 'LoadedSonic-Genesis', ['Start']);
+  });
+
+  it('fetches a registered state', async () => {
+    files['/games/sonic/states/Start.state'] = new Uint8Array([1, 2, 3]).buffer;
+    await expect(loadState('LoadedSonic-Genesis', 'Start')).resolves.toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('rejects a state file that is missing from the directory', async () => {
+    await expect(loadState('LoadedSonic-Genesis', 'Start'))
+      .rejects.toThrow('Failed to load state "Start" for LoadedSonic-Genesis: Error: Failed to fetch state: 404');
+  });
+
+  it('rejects a state name that was not registered', async () => {
+    await expect(loadState('LoadedSonic-Genesis', 'Missing'))
+      .rejects.toThrow('State "Missing" not found for LoadedSonic-Genesis. Available: Start');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Game Loader - Register Stable Retro game directories at runtime
+ *
+ * Fetches data.json, scenario.json, metadata.json and states/ from a
+ * directory laid out like a Stable Retro integration, so new games can be
+ * added without editing source.
+ */
+
+import {
+  GameData,
+  GameDataIndex,
+  GameId,
+  MetadataJson,
+  ScenarioJson,
+} from './types';
+import { registerGameData, validateDataJson } from './parser';
+
+/**
+ * Join a base URL and a relative path with a single slash
+ */
+function joinUrl(base: string, path: string): string {
+  if (!base) {
+    return path;
+  }
+  return `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Fetch and parse a JSON file
+ *
+ * @param optional - Return undefined instead of throwing on 404
+ */
+async function fetchJson<T>(url: string, optional: boolean): Promise<T | undefined> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    if (optional && response.status === 404) {
+      return undefined;
+    }
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+  try {
+    return await response.json() as T;
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${url}: ${error}`);
+  }
+}
+
+/**
+ * Load a Stable Retro game directory and register it
+ *
+ * data.json is required; scenario.json and metadata.json are optional.
+ * States are not discoverable over HTTP, so their names must be listed.
+ * metadata.json's default_state is always included.
+ *
+ * @param directoryUrl - URL of the game directory
+ * @param gameId - Game identifier like "SonicTheHedgehog-Genesis"
+ * @param stateNames - State names in the directory's states/ folder
+ * @returns The registered game data
+ *
+ * @example
+ * await loadGameDirectory('/games/SonicTheHedgehog-Genesis', 'SonicTheHedgehog-Genesis', [
+ *   'GreenHillZone.Act1',
+ * ]);
+ */
+export async function loadGameDirectory(
+  directoryUrl: string,
+  gameId: GameId,
+  stateNames: string[] = []
+): Promise<GameData> {
+  const [data, scenario, metadata] = await Promise.all([
+    fetchJson<unknown>(joinUrl(directoryUrl, 'data.json'), false),
+    fetchJson<ScenarioJson>(joinUrl(directoryUrl, 'scenario.json'), true),
+    fetchJson<MetadataJson>(joinUrl(directoryUrl, 'metadata.json'), true),
+  ]);
+
+  const names = new Set(stateNames);
+  if (metadata?.default_state) {
+    names.add(metadata.default_state);
+  }
+
+  const states: Record<string, string> = {};
+  for (const name of names) {
+    states[name] = joinUrl(directoryUrl, `states/${name}.state`);
+  }
+
+  const gameData: GameData = {
+    gameName: gameId,
+    data: validateDataJson(data, `${gameId}/data.json`),
+    scenario,
+    metadata,
+    states,
+  };
+
+  registerGameData(gameData);
+  return gameData;
+}
+
+/**
+ * Load every game listed in a game-data index file
+ *
+ * Game directories are resolved relative to the index file's location.
+ *
+ * @param indexUrl - URL of the index file (e.g. "/games/games.json")
+ * @returns IDs of the registered games
+ * @throws If the index is malformed or any game fails to load
+ */
+export async function loadGameDataIndex(indexUrl: string): Promise<GameId[]> {
+  const index = await fetchJson<GameDataIndex>(indexUrl, false);
+  if (!index || !Array.isArray(index.games)) {
+    throw new Error(`${indexUrl}: missing "games" list`);
+  }
+
+  const baseUrl = indexUrl.slice(0, indexUrl.lastIndexOf('/') + 1);
+  const loaded = await Promise.all(
+    index.games.map(async (entry) => {
+      if (!entry.id) {
+        throw new Error(`${indexUrl}: game entry is missing "id"`);
+      }
+      const directoryUrl = joinUrl(baseUrl, entry.path ?? entry.id);
+      await loadGameDirectory(directoryUrl, entry.id, entry.states);
+      return entry.id;
+    })
+  );
+
+  return loaded;
+}
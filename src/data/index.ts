@@ -4,4 +4,6 @@
 
 export * from './types';
 export * from './parser';
+export * from './gameLoader';
 export * from './stateLoader';
+export * from './scenario';
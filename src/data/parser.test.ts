@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getAvailableGames, loadDataJson, parseTypeSpec, validateDataJson } from './parser';
+
+describe('parseTypeSpec', () => {
+  it('parses endianness', () => {
+    expect(parseTypeSpec('>u2').endian).toBe('big');
+    expect(parseTypeSpec('<u2').endian).toBe('little');
+    expect(parseTypeSpec('|u1').endian).toBe('native');
+  });
+
+  it('parses signed, unsigned and BCD types', () => {
+    expect(parseTypeSpec('>u4')).toEqual({ endian: 'big', signed: false, bcd: false, bytes: 4 });
+    expect(parseTypeSpec('<i4')).toEqual({ endian: 'little', signed: true, bcd: false, bytes: 4 });
+    expect(parseTypeSpec('>n3')).toEqual({ endian: 'big', signed: false, bcd: true, bytes: 3 });
+  });
+
+  it('accepts widths from 1 to 8 bytes', () => {
+    expect(parseTypeSpec('>u1').bytes).toBe(1);
+    expect(parseTypeSpec('<i8').bytes).toBe(8);
+  });
+
+  it('rejects malformed specs', () => {
+    expect(() => parseTypeSpec('u2')).toThrow('Invalid type spec');
+    expect(() => parseTypeSpec('=u2')).toThrow('Invalid endian character');
+    expect(() => parseTypeSpec('>f4')).toThrow('Invalid signed character');
+    expect(() => parseTypeSpec('>u0')).toThrow('Invalid byte count');
+    expect(() => parseTypeSpec('>u9')).toThrow('Invalid byte count');
+    expect(() => parseTypeSpec('>ux')).toThrow('Invalid byte count');
+  });
+});
+
+describe('data.json', () => {
+  it('has a valid type for every built-in variable', () => {
+    for (const gameId of getAvailableGames()) {
+      for (const mapping of Object.values(loadDataJson(gameId).info)) {
+        expect(() => parseTypeSpec(mapping.type)).not.toThrow();
+      }
+    }
+  });
+
+  it('rejects variables without an address', () => {
+    expect(() => validateDataJson({ info: { x: { type: '>u2' } } }))
+      .toThrow('variable "x" has no numeric address');
+  });
+});
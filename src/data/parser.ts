@@ -8,24 +8,31 @@ import {
   DataJson,
   GameData,
   GameId,
+  MetadataJson,
   ParsedMemoryType,
+  ScenarioJson,
   StableRetroTypeSpec,
   VariableInfo,
   VariableMapping,
 } from './types';
 
-// Import game data files
+// Import built-in game data files
 // These are statically imported to work with bundlers
 import sonicData from './games/SonicTheHedgehog2-Genesis/data.json';
+import sonicScenario from './games/SonicTheHedgehog2-Genesis/scenario.json';
+import sonicMetadata from './games/SonicTheHedgehog2-Genesis/metadata.json';
 import airstrikerData from './games/Airstriker-Genesis/data.json';
+import airstrikerScenario from './games/Airstriker-Genesis/scenario.json';
 
 /**
- * Registry of available game data
+ * URL path where built-in game directories are served from
  */
-const GAME_DATA_REGISTRY: Record<GameId, DataJson> = {
-  'SonicTheHedgehog2-Genesis': sonicData as DataJson,
-  'Airstriker-Genesis': airstrikerData as DataJson,
-};
+const BUILTIN_GAMES_PATH = '/src/data/games';
+
+/**
+ * Registry of available game data, keyed by game ID
+ */
+const GAME_DATA_REGISTRY: Map<GameId, GameData> = new Map();
 
 /**
  * Parse a Stable Retro type specification string
@@ -34,9 +41,10 @@ const GAME_DATA_REGISTRY: Record<GameId, DataJson> = {
  * @returns Parsed type information
  *
  * @example
- * parseTypeSpec(">u2") // { endian: 'big', signed: false, bytes: 2 }
- * parseTypeSpec("|u1") // { endian: 'native', signed: false, bytes: 1 }
- * parseTypeSpec("<i4") // { endian: 'little', signed: true, bytes: 4 }
+ * parseTypeSpec(">u2") // { endian: 'big', signed: false, bcd: false, bytes: 2 }
+ * parseTypeSpec("|u1") // { endian: 'native', signed: false, bcd: false, bytes: 1 }
+ * parseTypeSpec("<i4") // { endian: 'little', signed: true, bcd: false, bytes: 4 }
+ * parseTypeSpec(">n3") // { endian: 'big', signed: false, bcd: true, bytes: 3 }
  */
 export function parseTypeSpec(typeSpec: StableRetroTypeSpec): ParsedMemoryType {
   if (typeSpec.length < 3) {
@@ -63,6 +71,7 @@ export function parseTypeSpec(typeSpec: StableRetroTypeSpec): ParsedMemoryType {
   }
 
   let signed: boolean;
+  let bcd = false;
   switch (signedChar) {
     case 'u':
       signed = false;
@@ -70,6 +79,10 @@ export function parseTypeSpec(typeSpec: StableRetroTypeSpec): ParsedMemoryType {
     case 'i':
       signed = true;
       break;
+    case 'n':
+      signed = false;
+      bcd = true;
+      break;
     default:
       throw new Error(`Invalid signed character: ${signedChar}`);
   }
@@ -79,7 +92,7 @@ export function parseTypeSpec(typeSpec: StableRetroTypeSpec): ParsedMemoryType {
     throw new Error(`Invalid byte count: ${bytesStr}`);
   }
 
-  return { endian, signed, bytes };
+  return { endian, signed, bcd, bytes };
 }
 
 /**
@@ -94,18 +107,77 @@ export function toMemoryType(typeSpec: StableRetroTypeSpec): string {
   return typeSpec;
 }
 
+/**
+ * Validate the structure of a data.json object
+ *
+ * @throws If the info section is missing or a variable has an invalid
+ *         address or type spec
+ */
+export function validateDataJson(data: unknown, source: string = 'data.json'): DataJson {
+  const info = (data as DataJson | null)?.info;
+  if (!info || typeof info !== 'object') {
+    throw new Error(`${source}: missing "info" section`);
+  }
+
+  for (const [name, mapping] of Object.entries(info)) {
+    if (!mapping || typeof mapping.address !== 'number') {
+      throw new Error(`${source}: variable "${name}" has no numeric address`);
+    }
+    try {
+      parseTypeSpec(mapping.type);
+    } catch (error) {
+      throw new Error(`${source}: variable "${name}": ${(error as Error).message}`);
+    }
+  }
+
+  return data as DataJson;
+}
+
+/**
+ * Register game data at runtime
+ *
+ * Replaces any game already registered under the same ID.
+ *
+ * @param gameData - data.json plus optional scenario, metadata and state URLs
+ * @throws If data.json is invalid
+ *
+ * @example
+ * registerGameData({
+ *   gameName: 'SonicTheHedgehog-Genesis',
+ *   data: sonic1Data,
+ *   metadata: { default_state: 'GreenHillZone.Act1' },
+ *   states: { 'GreenHillZone.Act1': '/games/Sonic1/states/GreenHillZone.Act1.state' },
+ * });
+ */
+export function registerGameData(gameData: GameData): void {
+  validateDataJson(gameData.data, `${gameData.gameName}/data.json`);
+  if (GAME_DATA_REGISTRY.has(gameData.gameName)) {
+    console.warn(`Game data "${gameData.gameName}" is already registered. Overwriting.`);
+  }
+  GAME_DATA_REGISTRY.set(gameData.gameName, gameData);
+}
+
+/**
+ * Remove a game from the registry
+ *
+ * @returns true if the game was registered
+ */
+export function unregisterGameData(gameId: GameId): boolean {
+  return GAME_DATA_REGISTRY.delete(gameId);
+}
+
 /**
  * Check if a game is available in the registry
  */
 export function isGameAvailable(gameId: GameId): boolean {
-  return gameId in GAME_DATA_REGISTRY;
+  return GAME_DATA_REGISTRY.has(gameId);
 }
 
 /**
  * Get list of available games
  */
 export function getAvailableGames(): GameId[] {
-  return Object.keys(GAME_DATA_REGISTRY);
+  return Array.from(GAME_DATA_REGISTRY.keys());
 }
 
 /**
@@ -120,14 +192,36 @@ export function getAvailableGames(): GameId[] {
  * console.log(data.info.x); // { address: 16756744, type: ">u2" }
  */
 export function loadDataJson(gameId: GameId): DataJson {
-  const data = GAME_DATA_REGISTRY[gameId];
-  if (!data) {
-    const available = getAvailableGames().join(', ');
-    throw new Error(
-      `Game "${gameId}" not found. Available games: ${available}`
-    );
-  }
-  return data;
+  return loadGameData(gameId).data;
+}
+
+/**
+ * Load scenario.json for a specific game
+ *
+ * @param gameId - Game identifier like "SonicTheHedgehog2-Genesis"
+ * @returns Parsed ScenarioJson, or undefined if the game has no scenario
+ */
+export function loadScenarioJson(gameId: GameId): ScenarioJson | undefined {
+  return GAME_DATA_REGISTRY.get(gameId)?.scenario;
+}
+
+/**
+ * Load metadata.json for a specific game
+ *
+ * @param gameId - Game identifier like "SonicTheHedgehog2-Genesis"
+ * @returns Parsed MetadataJson, or undefined if the game has no metadata
+ */
+export function loadMetadataJson(gameId: GameId): MetadataJson | undefined {
+  return GAME_DATA_REGISTRY.get(gameId)?.metadata;
+}
+
+/**
+ * Get the state files registered for a game
+ *
+ * @returns Record of state name to .state file URL (empty if none)
+ */
+export function getGameStates(gameId: GameId): Record<string, string> {
+  return GAME_DATA_REGISTRY.get(gameId)?.states ?? {};
 }
 
 /**
@@ -165,19 +259,18 @@ export function getVariableNames(data: DataJson): string[] {
  * Load complete game data bundle
  *
  * @param gameId - Game identifier
- * @returns GameData with data.json and optionally scenario/metadata
+ * @returns GameData with data.json and optionally scenario/metadata/states
+ * @throws If game is not found
  */
 export function loadGameData(gameId: GameId): GameData {
-  const data = loadDataJson(gameId);
-
-  // For now, we only have data.json
-  // Scenario and metadata will be added as needed
-  return {
-    gameName: gameId,
-    data,
-    scenario: undefined,
-    metadata: undefined,
-  };
+  const gameData = GAME_DATA_REGISTRY.get(gameId);
+  if (!gameData) {
+    const available = getAvailableGames().join(', ');
+    throw new Error(
+      `Game "${gameId}" not found. Available games: ${available}`
+    );
+  }
+  return gameData;
 }
 
 /**
@@ -202,7 +295,25 @@ export function logVariables(gameId: GameId): void {
     console.log(
       `  ${name}: address=0x${mapping.address.toString(16)}, ` +
         `type=${mapping.type} (${parsed.endian} endian, ` +
-        `${parsed.signed ? 'signed' : 'unsigned'}, ${parsed.bytes} bytes)`
+        `${parsed.bcd ? 'BCD' : parsed.signed ? 'signed' : 'unsigned'}, ${parsed.bytes} bytes)`
     );
   }
 }
+
+// ==================== Built-in Games ====================
+
+registerGameData({
+  gameName: 'SonicTheHedgehog2-Genesis',
+  data: sonicData as DataJson,
+  scenario: sonicScenario as ScenarioJson,
+  metadata: sonicMetadata as MetadataJson,
+  states: {
+    'EmeraldHillZone.Act1': `${BUILTIN_GAMES_PATH}/SonicTheHedgehog2-Genesis/states/EmeraldHillZone.Act1.state`,
+  },
+});
+
+registerGameData({
+  gameName: 'Airstriker-Genesis',
+  data: airstrikerData as DataJson,
+  scenario: airstrikerScenario as ScenarioJson,
+});
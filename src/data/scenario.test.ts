@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { applyScenarioOp, calculateReward, isScenarioDone, ScenarioEvaluator } from './scenario';
+import { getAvailableGames, loadDataJson, loadScenarioJson } from './parser';
+import type { ScenarioJson } from './types';
+
+describe('applyScenarioOp', () => {
+  it('compares against the reference', () => {
+    expect(applyScenarioOp('equal', 3, 3)).toBe(true);
+    expect(applyScenarioOp('not-equal', 3, 3)).toBe(false);
+    expect(applyScenarioOp('less-than', 2, 3)).toBe(true);
+    expect(applyScenarioOp('greater-than', 2, 3)).toBe(false);
+    expect(applyScenarioOp('less-or-equal', 3, 3)).toBe(true);
+    expect(applyScenarioOp('greater-or-equal', 2, 3)).toBe(false);
+  });
+
+  it('ignores the reference for unary ops', () => {
+    expect(applyScenarioOp('zero', 0, 5)).toBe(true);
+    expect(applyScenarioOp('nonzero', 0, 5)).toBe(false);
+    expect(applyScenarioOp('positive', 1, 5)).toBe(true);
+    expect(applyScenarioOp('negative', 1, -5)).toBe(false);
+  });
+});
+
+describe('calculateReward', () => {
+  it('measures reward variables as deltas by default', () => {
+    const scenario: ScenarioJson = { reward: { variables: { score: { reward: 1 } } } };
+    expect(calculateReward(scenario, { score: 100 }, { score: 150 })).toBe(50);
+    expect(calculateReward(scenario, { score: 150 }, { score: 150 })).toBe(0);
+  });
+
+  it('measures absolute values when asked', () => {
+    const scenario: ScenarioJson = {
+      reward: { variables: { rings: { reward: 2, measurement: 'absolute' } } },
+    };
+    expect(calculateReward(scenario, { rings: 10 }, { rings: 12 })).toBe(24);
+    expect(calculateReward(
+      { reward: { variables: { rings: { reward: 2, delta: false } } } },
+      { rings: 10 },
+      { rings: 12 }
+    )).toBe(24);
+  });
+
+  it('scales gains by reward and losses by penalty', () => {
+    const scenario: ScenarioJson = { reward: { variables: { x: { reward: 1, penalty: 0.5 } } } };
+    expect(calculateReward(scenario, { x: 100 }, { x: 110 })).toBe(10);
+    expect(calculateReward(scenario, { x: 110 }, { x: 100 })).toBe(-5);
+  });
+
+  it('gives nothing for losses without a penalty', () => {
+    const scenario: ScenarioJson = { reward: { variables: { x: { reward: 1 } } } };
+    expect(calculateReward(scenario, { x: 110 }, { x: 100 })).toBe(0);
+  });
+
+  it('collapses the measurement to 1 or 0 when an op is given', () => {
+    const scenario: ScenarioJson = {
+      reward: { variables: { score: { op: 'greater-than', reference: 10, reward: 5 } } },
+    };
+    // The delta is compared, not the value: +50 passes, +5 does not
+    expect(calculateReward(scenario, { score: 0 }, { score: 50 })).toBe(5);
+    expect(calculateReward(scenario, { score: 100 }, { score: 105 })).toBe(0);
+  });
+
+  it('never applies the penalty to an op result', () => {
+    const scenario: ScenarioJson = {
+      reward: { variables: { lives: { op: 'negative', reward: 0, penalty: 10 } } },
+    };
+    expect(calculateReward(scenario, { lives: 3 }, { lives: 2 })).toBe(0);
+  });
+
+  it('sums every reward variable', () => {
+    const scenario: ScenarioJson = {
+      reward: { variables: { x: { reward: 1 }, rings: { reward: 10 } } },
+    };
+    expect(calculateReward(scenario, { x: 0, rings: 0 }, { x: 30, rings: 2 })).toBe(50);
+  });
+
+  it('resolves string references to other variables', () => {
+    const scenario: ScenarioJson = {
+      reward: {
+        variables: { x: { op: 'greater-or-equal', reference: 'screen_x_end', reward: 100, measurement: 'absolute' } },
+      },
+    };
+    expect(calculateReward(scenario, {}, { x: 900, screen_x_end: 1000 })).toBe(0);
+    expect(calculateReward(scenario, {}, { x: 1000, screen_x_end: 1000 })).toBe(100);
+  });
+
+  it('returns 0 without reward variables', () => {
+    expect(calculateReward({}, { score: 0 }, { score: 10 })).toBe(0);
+  });
+});
+
+describe('isScenarioDone', () => {
+  it('measures done variables as absolute values with a nonzero default op', () => {
+    const scenario: ScenarioJson = { done: { variables: { level_end_bonus: {} } } };
+    expect(isScenarioDone(scenario, { level_end_bonus: 0 }, { level_end_bonus: 0 })).toBe(false);
+    expect(isScenarioDone(scenario, { level_end_bonus: 5 }, { level_end_bonus: 5 })).toBe(true);
+  });
+
+  it('measures deltas when asked', () => {
+    const scenario: ScenarioJson = { done: { variables: { lives: { op: 'negative', delta: true } } } };
+    expect(isScenarioDone(scenario, { lives: 3 }, { lives: 3 })).toBe(false);
+    expect(isScenarioDone(scenario, { lives: 3 }, { lives: 2 })).toBe(true);
+  });
+
+  it('combines conditions with any by default', () => {
+    const scenario: ScenarioJson = {
+      done: { variables: { lives: { op: 'zero' }, level_end_bonus: { op: 'nonzero' } } },
+    };
+    expect(isScenarioDone(scenario, {}, { lives: 2, level_end_bonus: 1 })).toBe(true);
+    expect(isScenarioDone(scenario, {}, { lives: 2, level_end_bonus: 0 })).toBe(false);
+  });
+
+  it('requires every condition with all', () => {
+    const scenario: ScenarioJson = {
+      done: { condition: 'all', variables: { x: { op: 'greater-than', reference: 500 }, y: { op: 'less-than', reference: 100 } } },
+    };
+    expect(isScenarioDone(scenario, {}, { x: 600, y: 200 })).toBe(false);
+    expect(isScenarioDone(scenario, {}, { x: 600, y: 50 })).toBe(true);
+  });
+
+  it('resolves string references to other variables', () => {
+    const scenario: ScenarioJson = {
+      done: { variables: { lives: { op: 'less-than', reference: 'initial_lives' } } },
+    };
+    expect(isScenarioDone(scenario, {}, { lives: 3, initial_lives: 3 })).toBe(false);
+    expect(isScenarioDone(scenario, {}, { lives: 2, initial_lives: 3 })).toBe(true);
+  });
+
+  it('is never done without done variables', () => {
+    expect(isScenarioDone({}, {}, { lives: 0 })).toBe(false);
+    expect(isScenarioDone({ done: { variables: {} } }, {}, { lives: 0 })).toBe(false);
+  });
+});
+
+describe('ScenarioEvaluator', () => {
+  const scenario: ScenarioJson = {
+    done: { variables: { lives: { op: 'zero' } } },
+    reward: { variables: { score: { reward: 1 } } },
+  };
+
+  it('accumulates reward across updates', () => {
+    const evaluator = new ScenarioEvaluator(scenario);
+    evaluator.reset({ score: 0, lives: 3 });
+
+    expect(evaluator.update({ score: 10, lives: 3 })).toEqual({ reward: 10, totalReward: 10, done: false });
+    expect(evaluator.update({ score: 25, lives: 0 })).toEqual({ reward: 15, totalReward: 25, done: true });
+    expect(evaluator.isDone).toBe(true);
+  });
+
+  it('gives no reward for the first snapshot without a reset', () => {
+    const evaluator = new ScenarioEvaluator(scenario);
+    expect(evaluator.update({ score: 100, lives: 3 }).reward).toBe(0);
+  });
+
+  it('clears the total on reset', () => {
+    const evaluator = new ScenarioEvaluator(scenario);
+    evaluator.reset({ score: 0, lives: 3 });
+    evaluator.update({ score: 10, lives: 3 });
+
+    evaluator.reset({ score: 10, lives: 3 });
+    expect(evaluator.totalReward).toBe(0);
+    expect(evaluator.isDone).toBe(false);
+  });
+});
+
+describe('scenario.json', () => {
+  it('only uses variables from data.json and numeric references', () => {
+    for (const gameId of getAvailableGames()) {
+      const scenario = loadScenarioJson(gameId);
+      if (!scenario) continue;
+
+      const info = loadDataJson(gameId).info;
+      const conditions = [
+        ...Object.entries(scenario.reward?.variables ?? {}),
+        ...Object.entries(scenario.done?.variables ?? {}),
+      ];
+      for (const [name, condition] of conditions) {
+        expect(info).toHaveProperty([name]);
+        expect(['number', 'undefined']).toContain(typeof condition.reference);
+      }
+    }
+  });
+});
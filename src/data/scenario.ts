@@ -0,0 +1,252 @@
+/**
+ * Scenario evaluator for Stable Retro scenario.json files
+ *
+ * Computes reward and done status from successive game state snapshots,
+ * following the same rules as Stable Retro so existing scenarios can be
+ * reused for challenges and RL-style exercises.
+ */
+
+import type { GameState } from '../core/MemoryReader';
+import {
+  ScenarioCondition,
+  ScenarioJson,
+  ScenarioMeasurement,
+  ScenarioOp,
+} from './types';
+
+/**
+ * Result of evaluating one state snapshot
+ */
+export interface ScenarioStepResult {
+  /** Reward earned since the previous snapshot */
+  reward: number;
+
+  /** Reward accumulated since the last reset */
+  totalReward: number;
+
+  /** Whether the done condition is met */
+  done: boolean;
+}
+
+/**
+ * Apply a scenario comparison operator
+ *
+ * @param op - Operator name from scenario.json
+ * @param value - Measured value
+ * @param reference - Value to compare against (ignored by unary ops)
+ */
+export function applyScenarioOp(op: ScenarioOp, value: number, reference: number): boolean {
+  switch (op) {
+    case 'equal':
+      return value === reference;
+    case 'not-equal':
+      return value !== reference;
+    case 'less-than':
+      return value < reference;
+    case 'greater-than':
+      return value > reference;
+    case 'less-or-equal':
+      return value <= reference;
+    case 'greater-or-equal':
+      return value >= reference;
+    case 'zero':
+      return value === 0;
+    case 'nonzero':
+      return value !== 0;
+    case 'positive':
+      return value > 0;
+    case 'negative':
+      return value < 0;
+    default:
+      throw new Error(`Unknown scenario op: ${op}`);
+  }
+}
+
+/**
+ * Resolve a condition's reference to a number.
+ * String references name another variable in the current state.
+ */
+function resolveReference(condition: ScenarioCondition, state: GameState): number {
+  const { reference } = condition;
+  if (reference === undefined) {
+    return 0;
+  }
+  if (typeof reference === 'number') {
+    return reference;
+  }
+  if (reference in state) {
+    return state[reference];
+  }
+  const parsed = Number(reference);
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid scenario reference: ${reference}`);
+  }
+  return parsed;
+}
+
+/**
+ * Get the measurement mode for a condition, falling back to a default
+ */
+function getMeasurement(
+  condition: ScenarioCondition,
+  fallback: ScenarioMeasurement
+): ScenarioMeasurement {
+  if (condition.measurement) {
+    return condition.measurement;
+  }
+  if (condition.delta !== undefined) {
+    return condition.delta ? 'delta' : 'absolute';
+  }
+  return fallback;
+}
+
+/**
+ * Measure a variable according to the condition's measurement mode
+ */
+function measure(
+  name: string,
+  measurement: ScenarioMeasurement,
+  previous: GameState,
+  current: GameState
+): number {
+  const value = current[name] ?? 0;
+  if (measurement === 'delta') {
+    return value - (previous[name] ?? value);
+  }
+  return value;
+}
+
+/**
+ * Calculate the reward earned between two snapshots.
+ *
+ * Each reward variable is measured as a delta by default. If an op is given,
+ * the measurement becomes 1 when the op holds and 0 otherwise. Positive
+ * measurements are scaled by `reward`, negative ones by `penalty`.
+ *
+ * @example
+ * // { "score": { "reward": 1.0 } } with score 100 -> 150 yields 50
+ * calculateReward(scenario, { score: 100 }, { score: 150 });
+ */
+export function calculateReward(
+  scenario: ScenarioJson,
+  previous: GameState,
+  current: GameState
+): number {
+  const variables = scenario.reward?.variables;
+  if (!variables) {
+    return 0;
+  }
+
+  let reward = 0;
+  for (const [name, condition] of Object.entries(variables)) {
+    let value = measure(name, getMeasurement(condition, 'delta'), previous, current);
+    if (condition.op) {
+      value = applyScenarioOp(condition.op, value, resolveReference(condition, current)) ? 1 : 0;
+    }
+
+    if (value > 0) {
+      reward += value * (condition.reward ?? 0);
+    } else if (value < 0) {
+      reward += value * (condition.penalty ?? 0);
+    }
+  }
+  return reward;
+}
+
+/**
+ * Check whether the done condition is met.
+ *
+ * Done variables are measured as absolute values by default and combined
+ * with `condition` ('any' unless specified). A scenario without done
+ * variables is never done.
+ */
+export function isScenarioDone(
+  scenario: ScenarioJson,
+  previous: GameState,
+  current: GameState
+): boolean {
+  const variables = scenario.done?.variables;
+  if (!variables) {
+    return false;
+  }
+
+  const entries = Object.entries(variables);
+  if (entries.length === 0) {
+    return false;
+  }
+
+  const results = entries.map(([name, condition]) => {
+    const value = measure(name, getMeasurement(condition, 'absolute'), previous, current);
+    const op = condition.op ?? 'nonzero';
+    return applyScenarioOp(op, value, resolveReference(condition, current));
+  });
+
+  return scenario.done?.condition === 'all'
+    ? results.every(Boolean)
+    : results.some(Boolean);
+}
+
+/**
+ * ScenarioEvaluator tracks successive game states and reports reward
+ * and done status for a scenario.json.
+ *
+ * @example
+ * const evaluator = new ScenarioEvaluator(loadScenarioJson(gameId)!);
+ * evaluator.reset(reader.getState());
+ * // after each frame:
+ * const { reward, done } = evaluator.update(reader.getState());
+ */
+export class ScenarioEvaluator {
+  private scenario: ScenarioJson;
+  private previous: GameState | null = null;
+  private _totalReward: number = 0;
+  private _done: boolean = false;
+
+  constructor(scenario: ScenarioJson) {
+    this.scenario = scenario;
+  }
+
+  /**
+   * Reward accumulated since the last reset
+   */
+  get totalReward(): number {
+    return this._totalReward;
+  }
+
+  /**
+   * Whether the last evaluated state met the done condition
+   */
+  get isDone(): boolean {
+    return this._done;
+  }
+
+  /**
+   * Start a new episode from the given state
+   */
+  reset(initialState: GameState): void {
+    this.previous = { ...initialState };
+    this._totalReward = 0;
+    this._done = false;
+  }
+
+  /**
+   * Evaluate a new state snapshot against the previous one
+   *
+   * The first snapshot after construction is treated as the initial state
+   * and yields no reward.
+   */
+  update(state: GameState): ScenarioStepResult {
+    const previous = this.previous ?? state;
+    const reward = calculateReward(this.scenario, previous, state);
+
+    this._totalReward += reward;
+    this._done = isScenarioDone(this.scenario, previous, state);
+    this.previous = { ...state };
+
+    return {
+      reward,
+      totalReward: this._totalReward,
+      done: this._done,
+    };
+  }
+}
@@ -5,13 +5,7 @@
  */
 
 import { GameId } from './types';
-
-// State file registry - maps state names to their file paths
-const STATE_REGISTRY: Record<string, Record<string, string>> = {
-  'SonicTheHedgehog2-Genesis': {
-    'EmeraldHillZone.Act1': 'EmeraldHillZone.Act1.state',
-  },
-};
+import { getGameStates, loadMetadataJson } from './parser';
 
 /**
  * Decompress gzip data
@@ -37,22 +31,19 @@ export async function loadState(
   gameId: GameId,
   stateName: string
 ): Promise<Uint8Array> {
-  const gameStates = STATE_REGISTRY[gameId];
-  if (!gameStates) {
+  const gameStates = getGameStates(gameId);
+  if (Object.keys(gameStates).length === 0) {
     throw new Error(`No states available for game: ${gameId}`);
   }
 
-  const stateFile = gameStates[stateName];
-  if (!stateFile) {
+  const statePath = gameStates[stateName];
+  if (!statePath) {
     const available = Object.keys(gameStates).join(', ');
     throw new Error(
       `State "${stateName}" not found for ${gameId}. Available: ${available}`
     );
   }
 
-  // Construct the path to the state file
-  const statePath = `/src/data/games/${gameId}/states/${stateFile}`;
-
   try {
     // Fetch the compressed state file
     const response = await fetch(statePath);
@@ -80,22 +71,26 @@ export async function loadState(
  * Get available state names for a game
  */
 export function getAvailableStates(gameId: GameId): string[] {
-  const gameStates = STATE_REGISTRY[gameId];
-  return gameStates ? Object.keys(gameStates) : [];
+  return Object.keys(getGameStates(gameId));
 }
 
 /**
  * Check if a state exists for a game
  */
 export function hasState(gameId: GameId, stateName: string): boolean {
-  const gameStates = STATE_REGISTRY[gameId];
-  return gameStates ? stateName in gameStates : false;
+  return stateName in getGameStates(gameId);
 }
 
 /**
- * Get the default state name for a game (first level)
+ * Get the default state name for a game
+ *
+ * Uses metadata.json's default_state when it is available,
+ * otherwise the first registered state.
  */
 export function getDefaultState(gameId: GameId): string | undefined {
-  const states = getAvailableStates(gameId);
-  return states[0];
+  const defaultState = loadMetadataJson(gameId)?.default_state;
+  if (defaultState && hasState(gameId, defaultState)) {
+    return defaultState;
+  }
+  return getAvailableStates(gameId)[0];
 }
@@ -14,12 +14,14 @@
  * - Second character: signedness
  *   - 'u' = unsigned
  *   - 'i' = signed
+ *   - 'n' = binary-coded decimal (unsigned, two digits per byte)
  * - Remaining characters: byte count ('1', '2', '4', '8')
  *
  * Examples:
  * - "|u1" = unsigned byte (endianness doesn't matter)
  * - ">u2" = big-endian unsigned 16-bit
  * - "<i4" = little-endian signed 32-bit
+ * - ">n2" = big-endian 4-digit BCD
  */
 export type StableRetroTypeSpec = string;
 
@@ -29,6 +31,8 @@ export type StableRetroTypeSpec = string;
 export interface ParsedMemoryType {
   endian: 'big' | 'little' | 'native';
   signed: boolean;
+  /** Whether the value is binary-coded decimal */
+  bcd: boolean;
   bytes: number;
 }
 
@@ -52,15 +56,43 @@ export interface DataJson {
   info: VariableInfo;
 }
 
+/**
+ * Comparison operators supported by scenario.json conditions
+ */
+export type ScenarioOp =
+  | 'equal'
+  | 'not-equal'
+  | 'less-than'
+  | 'greater-than'
+  | 'less-or-equal'
+  | 'greater-or-equal'
+  | 'zero'
+  | 'nonzero'
+  | 'positive'
+  | 'negative';
+
+/**
+ * How a variable is measured before an op is applied:
+ * - 'absolute' = the current value
+ * - 'delta' = the change since the previous snapshot
+ */
+export type ScenarioMeasurement = 'absolute' | 'delta';
+
 /**
  * A single goal condition from scenario.json
  */
 export interface ScenarioCondition {
-  op?: 'equal' | 'not-equal' | 'less-than' | 'greater-than' | 'zero' | 'nonzero';
+  op?: ScenarioOp;
+  /**
+   * Number to compare against. Stable Retro only uses numbers; naming
+   * another variable is an extension for the goal DSL and is not used
+   * in shipped scenario.json files.
+   */
   reference?: number | string;
   reward?: number;
   penalty?: number;
-  measurement?: string;
+  measurement?: ScenarioMeasurement;
+  /** Shorthand for measurement: 'delta' */
   delta?: boolean;
 }
 
@@ -103,6 +135,40 @@ export interface GameData {
   data: DataJson;
   scenario?: ScenarioJson;
   metadata?: MetadataJson;
+  /** State name (e.g. "EmeraldHillZone.Act1") to .state file URL */
+  states?: Record<string, string>;
+}
+
+/**
+ * A game entry in a game-data index file
+ */
+export interface GameDataIndexEntry {
+  /** Game identifier, also the default directory name */
+  id: GameId;
+
+  /** Directory relative to the index file (defaults to id) */
+  path?: string;
+
+  /** State names available in the game's states/ directory */
+  states?: string[];
+}
+
+/**
+ * Game-data index file (e.g. games.json) listing Stable Retro
+ * game directories to load at runtime.
+ *
+ * Each directory follows the Stable Retro layout:
+ * data.json, optional scenario.json and metadata.json, and states/*.state
+ *
+ * @example
+ * {
+ *   "games": [
+ *     { "id": "SonicTheHedgehog-Genesis", "states": ["GreenHillZone.Act1"] }
+ *   ]
+ * }
+ */
+export interface GameDataIndex {
+  games: GameDataIndexEntry[];
 }
 
 /**
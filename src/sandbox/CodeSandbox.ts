@@ -1,8 +1,8 @@
 /**
  * CodeSandbox - Safe execution environment for student code
  *
- * Executes student TypeScript/JavaScript code in a Web Worker with
- * controlled access to game APIs. Provides timeout protection and
+ * Compiles and executes student TypeScript/JavaScript code in a Web Worker
+ * with controlled access to game APIs. Provides timeout protection and
  * error handling.
  */
 
@@ -10,10 +10,18 @@ import { GameController } from '../core/GameController';
 import {
   ToWorkerMessage,
   FromWorkerMessage,
+  SandboxCommand,
+  SandboxCommands,
   SandboxExecutionResult,
+  SandboxRequest,
+  SandboxRequests,
+  StepRequest,
   StepResponse,
   LogEntry,
+  CodeRequirements,
 } from './types';
+import { generateGameApiDeclarations } from './declarations';
+import SandboxWorker from './worker?worker';
 
 /**
  * Options for code execution
@@ -22,11 +30,33 @@ export interface ExecutionOptions {
   /** Maximum frames before timeout */
   maxFrames: number;
 
+  /** Type-check the code before running it (default: false) */
+  typeCheck?: boolean;
+
+  /** Game API declarations to type-check against (default: generated from the loaded game's variables) */
+  declarations?: string;
+
+  /** Structure the code must have; see result.codeCheck */
+  requirements?: CodeRequirements;
+
   /** Callback for console output from student code */
   onLog?: (entry: LogEntry) => void;
 
-  /** Callback for each frame step (for visualization) */
-  onStep?: (frameNumber: number) => void;
+  /**
+   * Callback for each frame step (for visualization)
+   * @param state - Game state after the step (the same snapshot sent to the worker)
+   * @param line - Student code line that requested the step, if known
+   */
+  onStep?: (frameNumber: number, state: Record<string, number>, line?: number) => void;
+
+  /**
+   * Goal checked against the game state at the start and after every
+   * frame; the first frame it holds on is reported as result.goalFrame
+   */
+  goal?: (state: Record<string, number>) => boolean;
+
+  /** End the run as soon as the goal is met (default: false) */
+  stopOnGoal?: boolean;
 }
 
 /**
@@ -42,6 +72,12 @@ export class CodeSandbox {
     resolve: (result: SandboxExecutionResult) => void;
     reject: (error: Error) => void;
     options: ExecutionOptions;
+    /** Frames stepped by this execution */
+    framesExecuted: number;
+    /** Frames stepped when the goal was first met */
+    goalFrame?: number;
+    /** Frames stepped when the goal was last checked */
+    goalCheckFrame?: number;
   } | null = null;
 
   constructor(controller: GameController) {
@@ -63,28 +99,22 @@ export class CodeSandbox {
       return;
     }
 
-    // Create worker from the worker module
-    // Using a blob URL to avoid separate file requirements
-    const workerCode = await this.getWorkerCode();
-    const blob = new Blob([workerCode], { type: 'application/javascript' });
-    const workerUrl = URL.createObjectURL(blob);
-
-    this.worker = new Worker(workerUrl);
+    // Vite bundles worker.ts (and its imports) as a separate worker chunk
+    this.worker = new SandboxWorker();
     this.worker.onmessage = this.handleWorkerMessage.bind(this);
     this.worker.onerror = this.handleWorkerError.bind(this);
 
     // Wait for ready signal
     await new Promise<void>((resolve) => {
       const checkReady = (event: MessageEvent<FromWorkerMessage>) => {
-        if (event.data.event === 'ready') {
+        if ('event' in event.data && event.data.event === 'ready') {
+          this.worker?.removeEventListener('message', checkReady);
           this._isReady = true;
           resolve();
         }
       };
-      this.worker!.addEventListener('message', checkReady, { once: true });
+      this.worker!.addEventListener('message', checkReady);
     });
-
-    URL.revokeObjectURL(workerUrl);
   }
 
   /**
@@ -100,7 +130,7 @@ export class CodeSandbox {
     }
 
     return new Promise((resolve, reject) => {
-      this.currentExecution = { resolve, reject, options };
+      this.currentExecution = { resolve, reject, options, framesExecuted: 0 };
 
       // Get available variables from the loaded game data
       const availableVariables = this.controller.hasGameData
@@ -112,6 +142,9 @@ export class CodeSandbox {
         code,
         maxFrames: options.maxFrames,
         availableVariables,
+        typeCheck: options.typeCheck ?? false,
+        declarations: options.declarations ?? generateGameApiDeclarations(availableVariables),
+        requirements: options.requirements,
       });
     });
   }
@@ -149,50 +182,50 @@ export class CodeSandbox {
   /**
    * Handle messages from the worker
    */
-  private handleWorkerMessage(event: MessageEvent<FromWorkerMessage & { command?: string }>): void {
-    const { id, event: eventType, payload, command } = event.data;
+  private handleWorkerMessage(event: MessageEvent<FromWorkerMessage>): void {
+    const message = event.data;
 
-    // Debug: console.log('Worker message:', { id, event: eventType, command });
-
-    // Handle worker requests (step, getState) - these have 'command' field
-    if (command) {
-      switch (command) {
+    // Handle worker requests (step, getState) - these must be answered by id
+    if ('request' in message) {
+      switch (message.request) {
         case 'step':
-          this.handleStepRequest(id!, payload);
+          this.handleStepRequest(message.id, message.payload);
           return;
         case 'getState':
-          this.handleStateRequest(id!);
+          this.handleStateRequest(message.id);
           return;
       }
     }
 
-    // Handle worker events - these have 'event' field
-    switch (eventType) {
+    // Handle worker events
+    switch (message.event) {
       case 'ready':
         this._isReady = true;
         break;
 
       case 'log':
         if (this.currentExecution?.options.onLog) {
-          this.currentExecution.options.onLog(payload as LogEntry);
+          this.currentExecution.options.onLog(message.payload);
         }
         break;
 
       case 'complete':
         if (this.currentExecution) {
-          this.currentExecution.resolve(payload as SandboxExecutionResult);
+          this.currentExecution.resolve({
+            ...message.payload,
+            goalFrame: this.currentExecution.goalFrame,
+          });
           this.currentExecution = null;
         }
         break;
 
       case 'error':
-        console.error('Worker error:', payload);
+        console.error('Worker error:', message.payload);
         if (this.currentExecution) {
-          const errorPayload = payload as { message: string };
           this.currentExecution.resolve({
             completed: false,
             framesExecuted: 0,
-            error: errorPayload.message,
+            error: message.payload.message,
             consoleOutput: [],
           });
           this.currentExecution = null;
@@ -204,76 +237,105 @@ export class CodeSandbox {
   /**
    * Handle step request from worker
    */
-  private async handleStepRequest(
-    id: number,
-    payload: unknown
-  ): Promise<void> {
-    const { inputs } = payload as {
-      inputs: Array<{ action: string; button?: string }>;
-      heldButtons: string[];
-    };
-
-    // Debug: Log inputs being processed
-    if (inputs.length > 0) {
-      console.log('[CodeSandbox] Processing inputs:', inputs);
-    }
+  private async handleStepRequest(id: number, payload: StepRequest): Promise<void> {
+    const { inputs, line } = payload;
 
     // Apply inputs to the controller
     for (const input of inputs) {
       switch (input.action) {
         case 'press':
           if (input.button) {
-            console.log('[CodeSandbox] Pressing:', input.button);
-            this.controller.press(input.button as Parameters<typeof this.controller.press>[0]);
+            this.controller.press(input.button);
           }
           break;
         case 'release':
           if (input.button) {
-            console.log('[CodeSandbox] Releasing:', input.button);
-            this.controller.release(input.button as Parameters<typeof this.controller.release>[0]);
+            this.controller.release(input.button);
           }
           break;
         case 'releaseAll':
-          console.log('[CodeSandbox] Releasing all');
           this.controller.releaseAll();
           break;
       }
     }
 
-    // Step the game
-    const frameBeforeStep = this.controller.frameNumber;
+    // Step the game. The worker is waiting on this response, so a failed
+    // step has to end the run here.
     try {
       await this.controller.step();
-      console.log('[CodeSandbox] Stepped frame:', frameBeforeStep, '->', this.controller.frameNumber);
     } catch (error) {
       console.error('[CodeSandbox] Step error:', error);
-      throw error;
+      this.failStep(error);
+      return;
     }
 
-    // Notify step callback
-    if (this.currentExecution?.options.onStep) {
-      this.currentExecution.options.onStep(this.controller.frameNumber);
+    if (this.currentExecution) {
+      this.currentExecution.framesExecuted++;
     }
 
-    // Send response back to worker
-    const response: StepResponse = {
-      frameNumber: this.controller.frameNumber,
-      state: this.controller.hasGameData ? this.controller.getState() : {},
-    };
+    // Read the state once per frame, for the goal, the callback and the worker
+    const response = this.getStepResponse();
+    this.currentExecution?.options.onStep?.(response.frameNumber, response.state, line);
 
-    this.respondToWorker(id, response);
+    this.respondToWorker(id, 'step', response);
+  }
+
+  /**
+   * End the current execution after a frame step failed and stop the worker
+   */
+  private failStep(error: unknown): void {
+    if (this.worker) {
+      this.sendToWorker('terminate', {});
+    }
+    if (this.currentExecution) {
+      this.currentExecution.resolve({
+        completed: false,
+        framesExecuted: this.currentExecution.framesExecuted,
+        error: error instanceof Error ? error.message : String(error),
+        consoleOutput: [],
+        goalFrame: this.currentExecution.goalFrame,
+      });
+      this.currentExecution = null;
+    }
   }
 
   /**
    * Handle state request from worker
    */
   private handleStateRequest(id: number): void {
-    const response: StepResponse = {
+    this.respondToWorker(id, 'getState', this.getStepResponse());
+  }
+
+  /**
+   * Snapshot the current frame and game state for the worker, checking
+   * the goal against it
+   */
+  private getStepResponse(): StepResponse {
+    const state = this.controller.hasGameData ? this.controller.getState() : {};
+    const execution = this.currentExecution;
+    let stop = false;
+
+    if (execution?.options.goal) {
+      // Check once per frame, even if the worker also asks for the state.
+      // Keep checking after the goal is met so its progress stays current.
+      if (execution.goalCheckFrame !== execution.framesExecuted) {
+        execution.goalCheckFrame = execution.framesExecuted;
+        try {
+          if (execution.options.goal(state) && execution.goalFrame === undefined) {
+            execution.goalFrame = execution.framesExecuted;
+          }
+        } catch (error) {
+          console.warn('[CodeSandbox] Goal check failed:', error);
+        }
+      }
+      stop = execution.goalFrame !== undefined && execution.options.stopOnGoal === true;
+    }
+
+    return {
       frameNumber: this.controller.frameNumber,
-      state: this.controller.hasGameData ? this.controller.getState() : {},
+      state,
+      stop,
     };
-
-    this.respondToWorker(id, response);
   }
 
   /**
@@ -295,213 +357,25 @@ export class CodeSandbox {
   /**
    * Send a command to the worker
    */
-  private sendToWorker(command: string, payload?: unknown): void {
+  private sendToWorker<K extends SandboxCommand>(command: K, payload: SandboxCommands[K]): void {
     if (!this.worker) {
       throw new Error('Worker not initialized');
     }
     const id = ++this.messageId;
-    const message: ToWorkerMessage = { id, command: command as ToWorkerMessage['command'], payload };
-    this.worker.postMessage(message);
+    this.worker.postMessage({ id, command, payload } as ToWorkerMessage);
   }
 
   /**
    * Send a response to a worker request
    */
-  private respondToWorker(id: number, payload: unknown): void {
+  private respondToWorker<K extends SandboxRequest>(
+    id: number,
+    response: K,
+    payload: SandboxRequests[K]['response']
+  ): void {
     if (!this.worker) {
       return;
     }
-    // Send as a special response message
-    this.worker.postMessage({ id, command: 'step', payload });
-  }
-
-  /**
-   * Get the worker code as a string
-   * This is a simplified version that runs in the same context
-   * For production, this would be a separate bundled worker file
-   */
-  private async getWorkerCode(): Promise<string> {
-    // For now, return inline worker code
-    // In production, this would load from a pre-bundled worker file
-    return `
-const VALID_BUTTONS = ['a', 'b', 'x', 'y', 'l', 'r', 'l2', 'r2', 'select', 'start', 'l3', 'r3', 'up', 'down', 'left', 'right'];
-
-let currentExecution = null;
-let messageId = 0;
-const pendingRequests = new Map();
-
-function sendRequest(command, payload) {
-  return new Promise((resolve) => {
-    const id = ++messageId;
-    pendingRequests.set(id, resolve);
-    self.postMessage({ id, command, payload });
-  });
-}
-
-function sendEvent(event, payload) {
-  self.postMessage({ event, payload });
-}
-
-function sandboxLog(level, ...args) {
-  if (currentExecution) {
-    const message = args.map(arg =>
-      typeof arg === 'object' ? JSON.stringify(arg) : String(arg)
-    ).join(' ');
-    currentExecution.consoleOutput.push('[' + level + '] ' + message);
-  }
-  sendEvent('log', { level, args, timestamp: Date.now() });
-}
-
-async function requestStep() {
-  if (!currentExecution) throw new Error('No execution in progress');
-  // Check relative frames stepped, not absolute emulator frame
-  if (currentExecution.framesExecuted >= currentExecution.maxFrames) {
-    throw new Error('Maximum frames exceeded');
-  }
-
-  const inputs = [...currentExecution.inputQueue];
-  currentExecution.inputQueue = [];
-
-  const response = await sendRequest('step', {
-    inputs,
-    heldButtons: Array.from(currentExecution.heldButtons),
-  });
-
-  currentExecution.frameNumber = response.frameNumber;
-  currentExecution.framesExecuted++;  // Track relative frames
-  currentExecution.currentState = response.state;
-  return response;
-}
-
-function createGameAPI() {
-  return {
-    press(button) {
-      if (!VALID_BUTTONS.includes(button)) {
-        throw new Error('Invalid button: ' + button + '. Valid: ' + VALID_BUTTONS.join(', '));
-      }
-      if (currentExecution) {
-        currentExecution.heldButtons.add(button);
-        currentExecution.inputQueue.push({ action: 'press', button });
-      }
-    },
-    release(button) {
-      if (!VALID_BUTTONS.includes(button)) throw new Error('Invalid button: ' + button);
-      if (currentExecution) {
-        currentExecution.heldButtons.delete(button);
-        currentExecution.inputQueue.push({ action: 'release', button });
-      }
-    },
-    releaseAll() {
-      if (currentExecution) {
-        currentExecution.heldButtons.clear();
-        currentExecution.inputQueue.push({ action: 'releaseAll' });
-      }
-    },
-    async tap(button) {
-      this.press(button);
-      await this.step();
-      this.release(button);
-    },
-    async hold(button, frames) {
-      this.press(button);
-      await this.stepFrames(frames);
-      this.release(button);
-    },
-    async step() { await requestStep(); },
-    async stepFrames(count) { for (let i = 0; i < count; i++) await requestStep(); },
-    async wait(frames) { await this.stepFrames(frames); },
-    getVariable(name) {
-      if (!currentExecution) throw new Error('No execution in progress');
-      const value = currentExecution.currentState[name];
-      if (value === undefined) throw new Error('Variable "' + name + '" not found');
-      return value;
-    },
-    getState() {
-      if (!currentExecution) throw new Error('No execution in progress');
-      return { ...currentExecution.currentState };
-    },
-    get frameNumber() { return currentExecution?.framesExecuted ?? 0; }
-  };
-}
-
-async function executeCode(payload) {
-  const { code, maxFrames } = payload;
-
-  currentExecution = {
-    frameNumber: 0,
-    framesExecuted: 0,  // Track relative frames for maxFrames check
-    maxFrames,
-    consoleOutput: [],
-    currentState: {},
-    heldButtons: new Set(),
-    inputQueue: [],
-  };
-
-  const initialResponse = await sendRequest('getState', {});
-  currentExecution.currentState = initialResponse.state;
-  currentExecution.frameNumber = initialResponse.frameNumber;
-
-  const game = createGameAPI();
-  const console = {
-    log: (...args) => sandboxLog('log', ...args),
-    warn: (...args) => sandboxLog('warn', ...args),
-    error: (...args) => sandboxLog('error', ...args),
-    info: (...args) => sandboxLog('info', ...args),
-  };
-
-  try {
-    const wrappedCode = 'return (async function(game, console) { "use strict"; ' + code + ' })(game, console);';
-    const fn = new Function('game', 'console', 'Math', 'Number', 'String', 'Boolean', 'Array', 'Object', 'JSON', 'Date', 'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'undefined', wrappedCode);
-    await fn(game, console, Math, Number, String, Boolean, Array, Object, JSON, Date, parseInt, parseFloat, isNaN, isFinite, undefined);
-
-    const result = {
-      completed: true,
-      framesExecuted: currentExecution.framesExecuted,
-      consoleOutput: currentExecution.consoleOutput,
-    };
-    currentExecution = null;
-    return result;
-  } catch (error) {
-    const result = {
-      completed: false,
-      framesExecuted: currentExecution?.framesExecuted ?? 0,
-      error: error.message || String(error),
-      errorStack: error.stack,
-      consoleOutput: currentExecution?.consoleOutput ?? [],
-    };
-    currentExecution = null;
-    return result;
-  }
-}
-
-self.onmessage = async (event) => {
-  const { id, command, payload } = event.data;
-  try {
-    switch (command) {
-      case 'execute':
-        const result = await executeCode(payload);
-        sendEvent('complete', result);
-        break;
-      case 'step':
-      case 'getState':
-        if (id !== undefined) {
-          const resolver = pendingRequests.get(id);
-          if (resolver) {
-            pendingRequests.delete(id);
-            resolver(payload);
-          }
-        }
-        break;
-      case 'terminate':
-        currentExecution = null;
-        break;
-    }
-  } catch (error) {
-    sendEvent('error', { message: error.message || String(error) });
-  }
-};
-
-sendEvent('ready', {});
-`;
+    this.worker.postMessage({ id, response, payload } as ToWorkerMessage);
   }
 }
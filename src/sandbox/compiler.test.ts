@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { compileStudentCode, formatDiagnostic } from './compiler';
+
+describe('compileStudentCode', () => {
+  it('reports syntax errors at the student\'s line without emitting code', () => {
+    const { js, diagnostics } = compileStudentCode(`await game.step();\nlet x = 1;\nif (x > 0 {\n}`);
+    expect(js).toBe('');
+    expect(diagnostics[0]).toMatchObject({ line: 3, column: 11, category: 'error', message: "')' expected." });
+  });
+
+  it('reports a missing closing brace on the last line', () => {
+    const { diagnostics } = compileStudentCode(`while (true) {\n  await game.step();`);
+    expect(diagnostics[0]).toMatchObject({ line: 2, category: 'error', message: "'}' expected." });
+  });
+
+  it('reports type errors at the student\'s line when type-checking', () => {
+    const code = `await game.step();\n\nlet x: number = 'five';`;
+    expect(compileStudentCode(code).diagnostics).toEqual([]);
+
+    const { js, diagnostics } = compileStudentCode(code, { typeCheck: true });
+    expect(js).not.toBe('');
+    expect(diagnostics).toEqual([{
+      line: 3,
+      column: 5,
+      length: 1,
+      message: "Type 'string' is not assignable to type 'number'.",
+      code: 2322,
+      category: 'error',
+    }]);
+  });
+
+  it('maps emitted lines to the student\'s lines', () => {
+    const { js, lineMap } = compileStudentCode(
+      `let target: number = 600;\n\nwhile (game.getVariable('x') < target) {\n  await game.step();\n}\nconsole.log('done');`
+    );
+    const emittedLine = (text: string) => js.split('\n').findIndex(line => line.includes(text));
+
+    expect(lineMap[emittedLine('let target')]).toBe(1);
+    expect(lineMap[emittedLine('while (')]).toBe(3);
+    expect(lineMap[emittedLine('game.step()')]).toBe(4);
+    expect(lineMap[emittedLine("console.log('done')")]).toBe(6);
+  });
+});
+
+describe('formatDiagnostic', () => {
+  it('leads with the position', () => {
+    const [diagnostic] = compileStudentCode(`gmae.step();`, { typeCheck: true }).diagnostics;
+    expect(formatDiagnostic(diagnostic)).toBe("Line 1, column 1: Cannot find name 'gmae'.");
+  });
+});
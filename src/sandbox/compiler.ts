@@ -0,0 +1,293 @@
+/**
+ * Student code compiler
+ *
+ * Compiles student TypeScript to JavaScript inside the sandbox worker.
+ * Syntax errors always stop execution; a full type-check against the
+ * game API declarations is optional. Diagnostics are mapped back to
+ * lines and columns in the student's code.
+ *
+ * Only worker.ts should import this module: it pulls in the TypeScript
+ * compiler and the ES library declarations.
+ */
+
+import ts from 'typescript';
+import { CompileDiagnostic, CompileResult } from './types';
+import { GAME_API_DECLARATIONS } from './declarations';
+
+/**
+ * Student code is compiled as the body of this async function so that
+ * top-level `await` and `return` work.
+ */
+export const STUDENT_ENTRY_POINT = '__main';
+
+const WRAPPER_PREFIX = `async function ${STUDENT_ENTRY_POINT}() {\n`;
+const WRAPPER_SUFFIX = '\n}\n';
+const WRAPPER_PREFIX_LINES = 1;
+
+const STUDENT_FILE = 'student.ts';
+const DECLARATIONS_FILE = 'game-api.d.ts';
+const DEFAULT_LIB_FILE = 'lib.es2020.d.ts';
+
+/**
+ * ES library declarations bundled from the typescript package.
+ * No DOM: student code only sees the globals the sandbox provides.
+ */
+const LIB_SOURCES: Map<string, string> = new Map(
+  Object.entries(
+    import.meta.glob<string>(
+      [
+        '/node_modules/typescript/lib/lib.es5.d.ts',
+        '/node_modules/typescript/lib/lib.es20{15,16,17,18,19,20}*.d.ts',
+        '/node_modules/typescript/lib/lib.decorators*.d.ts',
+      ],
+      { query: '?raw', import: 'default', eager: true }
+    )
+  ).map(([path, text]) => [baseName(path), text])
+);
+
+/** Parsed library files, reused across compilations */
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  lib: [DEFAULT_LIB_FILE],
+  strict: true,
+  // Let students leave parameters unannotated in early lessons
+  noImplicitAny: false,
+  noEmit: true,
+  types: [],
+};
+
+/**
+ * Options for compiling student code
+ */
+export interface CompileOptions {
+  /** Run the type-checker (default: false, syntax only) */
+  typeCheck?: boolean;
+
+  /** Game API declarations (default: GAME_API_DECLARATIONS) */
+  declarations?: string;
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Get a parsed library file, or undefined if fileName isn't a library
+ */
+function getLibSourceFile(fileName: string): ts.SourceFile | undefined {
+  const name = baseName(fileName);
+  let sourceFile = libSourceFiles.get(name);
+  if (!sourceFile) {
+    const text = LIB_SOURCES.get(name);
+    if (text === undefined) {
+      return undefined;
+    }
+    sourceFile = ts.createSourceFile(name, text, ts.ScriptTarget.ES2020);
+    libSourceFiles.set(name, sourceFile);
+  }
+  return sourceFile;
+}
+
+/**
+ * Create an in-memory compiler host over the given files and the
+ * bundled library declarations
+ */
+function createCompilerHost(files: Map<string, string>): ts.CompilerHost {
+  return {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = files.get(fileName);
+      if (text !== undefined) {
+        return ts.createSourceFile(fileName, text, languageVersion);
+      }
+      return getLibSourceFile(fileName);
+    },
+    getDefaultLibFileName: () => DEFAULT_LIB_FILE,
+    getDefaultLibLocation: () => '',
+    writeFile: () => {},
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => files.has(fileName) || LIB_SOURCES.has(baseName(fileName)),
+    readFile: (fileName) => files.get(fileName) ?? LIB_SOURCES.get(baseName(fileName)),
+  };
+}
+
+/**
+ * Convert a TypeScript diagnostic to a position in the student's code
+ *
+ * Positions inside the wrapper (e.g., a missing closing brace reported at
+ * the end) are clamped to the student's first or last line.
+ */
+function toCompileDiagnostic(diagnostic: ts.Diagnostic, studentLines: number): CompileDiagnostic {
+  let line = 1;
+  let column = 1;
+
+  if (diagnostic.file?.fileName === STUDENT_FILE && diagnostic.start !== undefined) {
+    const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    line = position.line - WRAPPER_PREFIX_LINES + 1;
+    column = position.character + 1;
+    if (line < 1) {
+      line = 1;
+      column = 1;
+    } else if (line > studentLines) {
+      line = studentLines;
+    }
+  }
+
+  return {
+    line,
+    column,
+    length: diagnostic.length ?? 0,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: diagnostic.code,
+    category: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+  };
+}
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode one base64 VLQ source map segment into its fields
+ */
+function decodeVlqSegment(segment: string): number[] {
+  const fields: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      fields.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Build a map from emitted lines to student code lines
+ *
+ * Each emitted line maps to the source line of its first mapped segment.
+ * Lines without mappings (e.g., "use strict") inherit the previous line's
+ * mapping. Results are clamped to the student's code.
+ */
+function buildLineMap(sourceMapText: string, studentLines: number): number[] {
+  const { mappings } = JSON.parse(sourceMapText) as { mappings: string };
+  const lineMap: number[] = [];
+  let sourceLine = 0;
+  let previous = 1;
+
+  for (const line of mappings.split(';')) {
+    let mapped: number | undefined;
+    for (const segment of line.split(',')) {
+      const fields = segment ? decodeVlqSegment(segment) : [];
+      if (fields.length >= 4) {
+        // Source line is relative to the previous segment's
+        sourceLine += fields[2];
+        mapped ??= sourceLine - WRAPPER_PREFIX_LINES + 1;
+      }
+    }
+    previous = Math.min(Math.max(mapped ?? previous, 1), studentLines);
+    lineMap.push(previous);
+  }
+  return lineMap;
+}
+
+/**
+ * Type-check wrapped student code against the game API declarations
+ */
+function typeCheck(wrappedCode: string, declarations: string): readonly ts.Diagnostic[] {
+  const files = new Map([
+    [STUDENT_FILE, wrappedCode],
+    [DECLARATIONS_FILE, declarations],
+  ]);
+  const program = ts.createProgram({
+    rootNames: [STUDENT_FILE, DECLARATIONS_FILE],
+    options: COMPILER_OPTIONS,
+    host: createCompilerHost(files),
+  });
+  return program.getSemanticDiagnostics(program.getSourceFile(STUDENT_FILE));
+}
+
+/**
+ * Compile student code to JavaScript
+ *
+ * The emitted code declares an async function named STUDENT_ENTRY_POINT
+ * containing the student's code; the caller defines `game` and `console`
+ * and calls it. lineMap maps emitted lines back to the student's code so
+ * runtime stack traces can be reported at the right line.
+ *
+ * @example
+ * const { js, diagnostics } = compileStudentCode('let x: number = "5";', { typeCheck: true });
+ * // diagnostics[0]: { line: 1, column: 5, message: "Type 'string' is not assignable to type 'number'.", ... }
+ */
+export function compileStudentCode(code: string, options: CompileOptions = {}): CompileResult {
+  const wrappedCode = WRAPPER_PREFIX + code + WRAPPER_SUFFIX;
+  const studentLines = code.split('\n').length;
+
+  const output = ts.transpileModule(wrappedCode, {
+    compilerOptions: { ...COMPILER_OPTIONS, noEmit: false, alwaysStrict: true, sourceMap: true },
+    fileName: STUDENT_FILE,
+    reportDiagnostics: true,
+  });
+
+  const syntaxErrors = (output.diagnostics ?? [])
+    .map(diagnostic => toCompileDiagnostic(diagnostic, studentLines));
+  if (syntaxErrors.some(diagnostic => diagnostic.category === 'error')) {
+    return { js: '', lineMap: [], diagnostics: syntaxErrors };
+  }
+
+  const diagnostics = [...syntaxErrors];
+  if (options.typeCheck) {
+    const typeErrors = typeCheck(wrappedCode, options.declarations ?? GAME_API_DECLARATIONS);
+    diagnostics.push(...typeErrors.map(diagnostic => toCompileDiagnostic(diagnostic, studentLines)));
+    diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  // Drop the sourceMappingURL comment; the map is returned as lineMap
+  const js = output.outputText.replace(/\n\/\/# sourceMappingURL=.*\s*$/, '\n');
+  const lineMap = output.sourceMapText ? buildLineMap(output.sourceMapText, studentLines) : [];
+
+  return { js, lineMap, diagnostics };
+}
+
+/**
+ * Parse student code for inspection, wrapped as it is for compiling so
+ * top-level `await` parses
+ *
+ * The student's statements are the wrapper function's body statements;
+ * use getNodeLine() to position nodes in the student's code.
+ */
+export function parseStudentCode(code: string): ts.SourceFile {
+  return ts.createSourceFile(
+    STUDENT_FILE,
+    WRAPPER_PREFIX + code + WRAPPER_SUFFIX,
+    ts.ScriptTarget.ES2020,
+    true
+  );
+}
+
+/**
+ * Get the 1-based line of a node from parseStudentCode() in the student's code
+ */
+export function getNodeLine(sourceFile: ts.SourceFile, node: ts.Node): number {
+  const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return Math.max(line - WRAPPER_PREFIX_LINES + 1, 1);
+}
+
+/**
+ * Format a diagnostic for display
+ *
+ * @example
+ * formatDiagnostic(d) // "Line 3, column 5: Cannot find name 'gmae'."
+ */
+export function formatDiagnostic(diagnostic: CompileDiagnostic): string {
+  return `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { generateGameApiDeclarations } from './declarations';
+import { compileStudentCode } from './compiler';
+import { loadDataJson } from '../data/parser';
+
+describe('generateGameApiDeclarations', () => {
+  const declarations = generateGameApiDeclarations(Object.keys(loadDataJson('SonicTheHedgehog2-Genesis').info));
+  const typeErrors = (code: string) =>
+    compileStudentCode(code, { typeCheck: true, declarations }).diagnostics;
+
+  it('accepts the game\'s variable names', () => {
+    expect(typeErrors(`const rings: number = game.getVariable('rings');\nconst x = game.getState().x;`)).toEqual([]);
+  });
+
+  it('rejects names that are not in data.json', () => {
+    const diagnostics = typeErrors(`await game.step();\nconst rings = game.getVariable('ring');`);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ line: 2, column: 32, code: 2345, category: 'error' });
+    expect(diagnostics[0].message).toMatch(/^Argument of type '"ring"' is not assignable to parameter of type 'keyof GameState'/);
+  });
+
+  it('accepts any name without variable names', () => {
+    const anyGame = generateGameApiDeclarations();
+    expect(compileStudentCode(`game.getVariable('ring');`, { typeCheck: true, declarations: anyGame }).diagnostics)
+      .toEqual([]);
+  });
+});
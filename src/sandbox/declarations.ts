@@ -0,0 +1,95 @@
+/**
+ * Game API declarations
+ *
+ * TypeScript declarations for the globals student code can use. The
+ * sandbox compiler type-checks student code against these and the editor
+ * uses them for autocomplete, so they must stay in sync with the API
+ * built in worker.ts.
+ */
+
+import { VALID_BUTTONS } from './types';
+
+/**
+ * Check whether a name can be written as a bare property name
+ */
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+/**
+ * Generate declarations for the `game` and `console` globals
+ *
+ * With variable names (the keys of a game's data.json), getVariable()
+ * only accepts those names and getState() returns an object with exactly
+ * those properties, so typos like `getVariable('ring')` are compile errors.
+ * Without names, any string is accepted.
+ *
+ * @param variableNames - Game variable names, e.g. Object.keys(data.info)
+ * @returns Declaration file contents
+ *
+ * @example
+ * const dts = generateGameApiDeclarations(Object.keys(loadDataJson('SonicTheHedgehog2-Genesis').info));
+ * // type VariableName = keyof GameState;  // 'act' | 'lives' | 'rings' | ...
+ */
+export function generateGameApiDeclarations(variableNames: readonly string[] = []): string {
+  const stateMembers = variableNames.length > 0
+    ? [...variableNames]
+        .sort()
+        .map(name => `  ${isIdentifier(name) ? name : JSON.stringify(name)}: number;`)
+        .join('\n')
+    : '  [name: string]: number;';
+
+  return `
+type Button = ${VALID_BUTTONS.map(button => `'${button}'`).join(' | ')};
+
+/** Game variables from the game's data.json */
+interface GameState {
+${stateMembers}
+}
+
+type VariableName = ${variableNames.length > 0 ? 'keyof GameState' : 'string'};
+
+interface GameAPI {
+  /** Hold a button down until release() is called */
+  press(button: Button): void;
+  /** Release a held button */
+  release(button: Button): void;
+  /** Release all held buttons */
+  releaseAll(): void;
+  /** Press a button for one frame */
+  tap(button: Button): Promise<void>;
+  /** Hold a button for the given number of frames */
+  hold(button: Button, frames: number): Promise<void>;
+
+  /** Advance one frame */
+  step(): Promise<void>;
+  /** Advance the given number of frames */
+  stepFrames(count: number): Promise<void>;
+  /** Alias for stepFrames() */
+  wait(frames: number): Promise<void>;
+
+  /** Read a game variable by name (e.g., "rings") */
+  getVariable(name: VariableName): number;
+  /** Read all game variables */
+  getState(): GameState;
+
+  /** Frames stepped since the code started */
+  readonly frameNumber: number;
+}
+
+interface SandboxConsole {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+}
+
+declare const game: GameAPI;
+declare const console: SandboxConsole;
+`;
+}
+
+/**
+ * Declarations for games without data.json: any variable name is accepted
+ */
+export const GAME_API_DECLARATIONS = generateGameApiDeclarations();
@@ -0,0 +1,204 @@
+/**
+ * Code requirements checker
+ *
+ * Checks the structure of student code (constructs used, statement count,
+ * identifiers) against a challenge's CodeRequirements by walking its
+ * syntax tree. Runs in the sandbox worker before the code executes.
+ *
+ * Only worker.ts should import this module: it pulls in the TypeScript
+ * compiler.
+ */
+
+import ts from 'typescript';
+import {
+  CODE_CONSTRUCT_LABELS,
+  CodeCheckResult,
+  CodeConstruct,
+  CodeRequirements,
+  RequirementFailure,
+} from './types';
+import { getNodeLine, parseStudentCode } from './compiler';
+
+/** Node kinds counted as statements (blocks are not) */
+const STATEMENT_KINDS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.VariableStatement,
+  ts.SyntaxKind.ExpressionStatement,
+  ts.SyntaxKind.IfStatement,
+  ts.SyntaxKind.WhileStatement,
+  ts.SyntaxKind.DoStatement,
+  ts.SyntaxKind.ForStatement,
+  ts.SyntaxKind.ForOfStatement,
+  ts.SyntaxKind.ForInStatement,
+  ts.SyntaxKind.SwitchStatement,
+  ts.SyntaxKind.ReturnStatement,
+  ts.SyntaxKind.BreakStatement,
+  ts.SyntaxKind.ContinueStatement,
+  ts.SyntaxKind.ThrowStatement,
+  ts.SyntaxKind.TryStatement,
+  ts.SyntaxKind.FunctionDeclaration,
+  ts.SyntaxKind.ClassDeclaration,
+]);
+
+/**
+ * Constructs a node is an instance of ('variable' is handled separately,
+ * since a declaration only counts once the variable is used)
+ */
+function getConstructs(node: ts.Node): CodeConstruct[] {
+  switch (node.kind) {
+    case ts.SyntaxKind.WhileStatement:
+      return ['loop', 'while-loop'];
+    case ts.SyntaxKind.DoStatement:
+      return ['loop', 'do-while-loop'];
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.ForInStatement:
+      return ['loop', 'for-loop'];
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.SwitchStatement:
+      return ['conditional'];
+    case ts.SyntaxKind.FunctionDeclaration:
+    case ts.SyntaxKind.FunctionExpression:
+    case ts.SyntaxKind.ArrowFunction:
+    case ts.SyntaxKind.MethodDeclaration:
+      return ['function'];
+    case ts.SyntaxKind.ArrayLiteralExpression:
+      return ['array'];
+    case ts.SyntaxKind.ObjectLiteralExpression:
+      return ['object'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether an identifier reads a variable, rather than naming a
+ * declaration, a property or an object literal key
+ */
+function isReference(identifier: ts.Identifier): boolean {
+  const parent = identifier.parent;
+  if (ts.isVariableDeclaration(parent) || ts.isParameter(parent) ||
+      ts.isFunctionDeclaration(parent) || ts.isBindingElement(parent)) {
+    return parent.name !== identifier;
+  }
+  if (ts.isPropertyAccessExpression(parent)) {
+    return parent.expression === identifier;
+  }
+  if (ts.isPropertyAssignment(parent)) {
+    return parent.initializer === identifier;
+  }
+  return true;
+}
+
+/**
+ * Whether a node is an argument (or part of one) of a console call, where
+ * reading a variable doesn't change what the code does
+ */
+function isLogged(node: ts.Node): boolean {
+  for (let child = node; child.parent; child = child.parent) {
+    const parent = child.parent;
+    if (ts.isCallExpression(parent) &&
+        parent.arguments.some(argument => argument === child) &&
+        ts.isPropertyAccessExpression(parent.expression) &&
+        ts.isIdentifier(parent.expression.expression) &&
+        parent.expression.expression.text === 'console') {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check student code against a challenge's requirements
+ *
+ * Code that does not parse passes: syntax errors are reported by the
+ * compiler instead.
+ *
+ * @example
+ * checkCodeRequirements('let t = 600;\ngame.press("right");', { required: ['variable'] });
+ * // { passed: false, failures: [{ rule: 'required', message: 'Use a variable (declared and then used)' }] }
+ */
+export function checkCodeRequirements(
+  code: string,
+  requirements: CodeRequirements
+): CodeCheckResult {
+  const sourceFile = parseStudentCode(code);
+  const wrapper = sourceFile.statements.find(ts.isFunctionDeclaration);
+  const statements = wrapper?.body?.statements ?? [];
+
+  // First line each construct appears on
+  const found = new Map<CodeConstruct, number>();
+  const declared = new Map<string, number>();
+  const referenced = new Set<string>();
+  const identifiers = new Set<string>();
+  let statementCount = 0;
+
+  const visit = (node: ts.Node): void => {
+    if (STATEMENT_KINDS.has(node.kind)) {
+      statementCount++;
+    }
+    for (const construct of getConstructs(node)) {
+      if (!found.has(construct)) {
+        found.set(construct, getNodeLine(sourceFile, node));
+      }
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      declared.set(node.name.text, getNodeLine(sourceFile, node));
+    }
+    if (ts.isIdentifier(node)) {
+      identifiers.add(node.text);
+      if (isReference(node) && !isLogged(node)) {
+        referenced.add(node.text);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  statements.forEach(visit);
+
+  // A variable counts once something other than logging reads it
+  for (const [name, line] of declared) {
+    if (referenced.has(name)) {
+      found.set('variable', Math.min(found.get('variable') ?? line, line));
+    }
+  }
+
+  const failures: RequirementFailure[] = [];
+
+  for (const construct of requirements.required ?? []) {
+    if (!found.has(construct)) {
+      failures.push({
+        rule: 'required',
+        message: `Use ${CODE_CONSTRUCT_LABELS[construct]}`,
+      });
+    }
+  }
+
+  for (const construct of requirements.forbidden ?? []) {
+    const line = found.get(construct);
+    if (line !== undefined) {
+      failures.push({
+        rule: 'forbidden',
+        message: `Don't use ${CODE_CONSTRUCT_LABELS[construct]}`,
+        line,
+      });
+    }
+  }
+
+  if (requirements.maxStatements !== undefined && statementCount > requirements.maxStatements) {
+    failures.push({
+      rule: 'max-statements',
+      message: `Use at most ${requirements.maxStatements} statements (you have ${statementCount})`,
+    });
+  }
+
+  for (const name of requirements.requiredIdentifiers ?? []) {
+    if (!identifiers.has(name)) {
+      failures.push({
+        rule: 'required-identifier',
+        message: `Use \`${name}\``,
+      });
+    }
+  }
+
+  return { passed: failures.length === 0, failures };
+}
@@ -5,51 +5,163 @@
  */
 
 /**
- * Commands that can be sent to the sandbox worker
+ * Execute command payload
  */
-export type SandboxCommand =
-  | 'execute'
-  | 'step'
-  | 'getState'
-  | 'terminate';
+export interface ExecutePayload {
+  code: string;
+  maxFrames: number;
+  availableVariables: string[];
+
+  /** Type-check the code before running it (syntax is always checked) */
+  typeCheck: boolean;
+
+  /** Declarations for the game API (defaults to GAME_API_DECLARATIONS) */
+  declarations?: string;
+
+  /** Structure the code must have, checked before it runs */
+  requirements?: CodeRequirements;
+}
 
 /**
- * Events that can be received from the sandbox worker
+ * A compiler diagnostic, positioned in the student's code
  */
-export type SandboxEvent =
-  | 'ready'
-  | 'log'
-  | 'error'
-  | 'stepRequest'
-  | 'inputRequest'
-  | 'stateRequest'
-  | 'complete';
+export interface CompileDiagnostic {
+  /** 1-based line in the student's code */
+  line: number;
+
+  /** 1-based column in the student's code */
+  column: number;
+
+  /** Length of the highlighted span in characters */
+  length: number;
+
+  /** Human-readable message */
+  message: string;
+
+  /** TypeScript error code (e.g., 2322) */
+  code: number;
+
+  category: 'error' | 'warning';
+}
 
 /**
- * Message from main thread to worker
+ * Result of compiling student code
  */
-export interface ToWorkerMessage {
-  id: number;
-  command: SandboxCommand;
-  payload?: unknown;
+export interface CompileResult {
+  /** Emitted JavaScript (empty if there were syntax errors) */
+  js: string;
+
+  /** Student code line (1-based) for each emitted line (0-based) */
+  lineMap: number[];
+
+  diagnostics: CompileDiagnostic[];
 }
 
 /**
- * Message from worker to main thread
+ * Code constructs a challenge can require or forbid
+ */
+export type CodeConstruct =
+  | 'variable'
+  | 'loop'
+  | 'while-loop'
+  | 'do-while-loop'
+  | 'for-loop'
+  | 'conditional'
+  | 'function'
+  | 'array'
+  | 'object';
+
+/**
+ * How each construct is described to students
+ */
+export const CODE_CONSTRUCT_LABELS: Record<CodeConstruct, string> = {
+  'variable': 'a variable (declared and then used)',
+  'loop': 'a loop',
+  'while-loop': 'a while loop',
+  'do-while-loop': 'a do...while loop',
+  'for-loop': 'a for loop',
+  'conditional': 'an if statement or conditional expression',
+  'function': 'a function',
+  'array': 'an array',
+  'object': 'an object literal',
+};
+
+/**
+ * Constraints on the structure of student code
+ *
+ * @example
+ * // "Use a while loop, in at most 5 statements"
+ * const requirements: CodeRequirements = { required: ['while-loop'], maxStatements: 5 };
  */
-export interface FromWorkerMessage {
-  id?: number;
-  event: SandboxEvent;
-  payload?: unknown;
+export interface CodeRequirements {
+  /** Constructs the code must use */
+  required?: CodeConstruct[];
+
+  /** Constructs the code must not use */
+  forbidden?: CodeConstruct[];
+
+  /** Maximum number of statements (blocks are not counted) */
+  maxStatements?: number;
+
+  /** Names that must appear in the code (e.g., 'getVariable' or 'targetX') */
+  requiredIdentifiers?: string[];
 }
 
 /**
- * Execute command payload
+ * Describe code requirements as a list of instructions for students
+ *
+ * @example
+ * describeCodeRequirements({ required: ['while-loop'] }) // ['Use a while loop']
  */
-export interface ExecutePayload {
-  code: string;
-  maxFrames: number;
-  availableVariables: string[];
+export function describeCodeRequirements(requirements: CodeRequirements): string[] {
+  return [
+    ...(requirements.required ?? []).map(c => `Use ${CODE_CONSTRUCT_LABELS[c]}`),
+    ...(requirements.forbidden ?? []).map(c => `Don't use ${CODE_CONSTRUCT_LABELS[c]}`),
+    ...(requirements.maxStatements !== undefined
+      ? [`Use at most ${requirements.maxStatements} statements`]
+      : []),
+    ...(requirements.requiredIdentifiers ?? []).map(name => `Use \`${name}\``),
+  ];
+}
+
+/**
+ * A code requirement the student's code does not meet
+ */
+export interface RequirementFailure {
+  rule: 'required' | 'forbidden' | 'max-statements' | 'required-identifier';
+
+  /** Human-readable explanation */
+  message: string;
+
+  /** 1-based line in the student's code, for forbidden constructs */
+  line?: number;
+}
+
+/**
+ * Result of checking student code against CodeRequirements
+ */
+export interface CodeCheckResult {
+  passed: boolean;
+  failures: RequirementFailure[];
+}
+
+/**
+ * Input request from worker
+ */
+export interface InputRequest {
+  action: 'press' | 'release' | 'releaseAll';
+  button?: SandboxButton;
+}
+
+/**
+ * Step request payload: inputs queued since the last step
+ */
+export interface StepRequest {
+  inputs: InputRequest[];
+  heldButtons: SandboxButton[];
+
+  /** Student code line (1-based) waiting on this step, if known */
+  line?: number;
 }
 
 /**
@@ -58,16 +170,96 @@ export interface ExecutePayload {
 export interface StepResponse {
   frameNumber: number;
   state: Record<string, number>;
+
+  /** The goal was met and the run should end now */
+  stop?: boolean;
 }
 
+// ==================== Message Protocol ====================
+//
+// main -> worker: commands (execute, terminate) and responses to requests
+// worker -> main: events (ready, log, error, complete) and requests
+//                 (step, getState) that the main thread must answer by id
+
 /**
- * Input request from worker
+ * Commands the main thread sends to the worker, with their payloads
  */
-export interface InputRequest {
-  action: 'press' | 'release' | 'releaseAll';
-  button?: string;
+export interface SandboxCommands {
+  execute: ExecutePayload;
+  terminate: Record<string, never>;
 }
 
+/**
+ * Requests the worker sends to the main thread, with payload and response
+ */
+export interface SandboxRequests {
+  step: { payload: StepRequest; response: StepResponse };
+  getState: { payload: Record<string, never>; response: StepResponse };
+}
+
+/**
+ * Events the worker sends to the main thread, with their payloads
+ */
+export interface SandboxEvents {
+  ready: Record<string, never>;
+  log: LogEntry;
+  error: { message: string };
+  complete: SandboxExecutionResult;
+}
+
+/**
+ * Commands that can be sent to the sandbox worker
+ */
+export type SandboxCommand = keyof SandboxCommands;
+
+/**
+ * Requests the sandbox worker can make of the main thread
+ */
+export type SandboxRequest = keyof SandboxRequests;
+
+/**
+ * Events that can be received from the sandbox worker
+ */
+export type SandboxEvent = keyof SandboxEvents;
+
+/**
+ * Command message from main thread to worker
+ */
+export type CommandMessage = {
+  [K in SandboxCommand]: { id: number; command: K; payload: SandboxCommands[K] };
+}[SandboxCommand];
+
+/**
+ * Response message from main thread to worker, matched to a request by id
+ */
+export type ResponseMessage = {
+  [K in SandboxRequest]: { id: number; response: K; payload: SandboxRequests[K]['response'] };
+}[SandboxRequest];
+
+/**
+ * Message from main thread to worker
+ */
+export type ToWorkerMessage = CommandMessage | ResponseMessage;
+
+/**
+ * Request message from worker to main thread
+ */
+export type RequestMessage = {
+  [K in SandboxRequest]: { id: number; request: K; payload: SandboxRequests[K]['payload'] };
+}[SandboxRequest];
+
+/**
+ * Event message from worker to main thread
+ */
+export type EventMessage = {
+  [K in SandboxEvent]: { event: K; payload: SandboxEvents[K] };
+}[SandboxEvent];
+
+/**
+ * Message from worker to main thread
+ */
+export type FromWorkerMessage = RequestMessage | EventMessage;
+
 /**
  * Execution result from worker
  */
@@ -77,6 +269,21 @@ export interface SandboxExecutionResult {
   error?: string;
   errorStack?: string;
   consoleOutput: string[];
+
+  /** Student code line (1-based) where a runtime error was thrown, if known */
+  errorLine?: number;
+
+  /** Compiler diagnostics; execution is skipped if any are errors */
+  diagnostics?: CompileDiagnostic[];
+
+  /** Frames stepped before the goal was first met (0 = already met at the start) */
+  goalFrame?: number;
+
+  /** Execution was ended early because the goal was met */
+  stoppedOnGoal?: boolean;
+
+  /** Result of checking the code's structure (when there were requirements) */
+  codeCheck?: CodeCheckResult;
 }
 
 /**
@@ -90,14 +297,17 @@ export interface LogEntry {
 
 /**
  * API exposed to student code in the sandbox
+ *
+ * Students see a per-game version of this from generateGameApiDeclarations(),
+ * with variable names narrowed to the game's data.json keys.
  */
 export interface SandboxGameAPI {
   // Input
-  press(button: string): void;
-  release(button: string): void;
+  press(button: SandboxButton): void;
+  release(button: SandboxButton): void;
   releaseAll(): void;
-  tap(button: string): Promise<void>;
-  hold(button: string, frames: number): Promise<void>;
+  tap(button: SandboxButton): Promise<void>;
+  hold(button: SandboxButton, frames: number): Promise<void>;
 
   // Frame control
   step(): Promise<void>;
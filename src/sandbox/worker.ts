@@ -1,53 +1,119 @@
 /**
  * CodeSandbox Web Worker
  *
- * Executes student code in an isolated environment with controlled
- * access to game APIs. Communicates with main thread via postMessage.
+ * Compiles student TypeScript and executes it in an isolated environment
+ * with controlled access to game APIs. Communicates with main thread via
+ * postMessage.
+ *
+ * Loaded by CodeSandbox through Vite's `?worker` import, so this file is
+ * the single source of truth for the sandbox side of the protocol.
  */
 
 import {
-  FromWorkerMessage,
-  ToWorkerMessage,
+  EventMessage,
   ExecutePayload,
-  StepResponse,
-  SandboxExecutionResult,
+  FromWorkerMessage,
+  InputRequest,
   LogEntry,
+  SandboxButton,
+  SandboxEvent,
+  SandboxEvents,
+  SandboxExecutionResult,
+  SandboxRequest,
+  SandboxRequests,
+  StepResponse,
+  ToWorkerMessage,
   VALID_BUTTONS,
 } from './types';
+import { compileStudentCode, formatDiagnostic, STUDENT_ENTRY_POINT } from './compiler';
+import { checkCodeRequirements } from './requirements';
 
 // Worker state
 let currentExecution: {
-  resolve: (result: SandboxExecutionResult) => void;
-  reject: (error: Error) => void;
+  /** Absolute emulator frame number from the last response */
   frameNumber: number;
+  /** Frames stepped by this execution (checked against maxFrames) */
+  framesExecuted: number;
   maxFrames: number;
   consoleOutput: string[];
-  pendingSteps: Array<(response: StepResponse) => void>;
   currentState: Record<string, number>;
-  heldButtons: Set<string>;
-  inputQueue: Array<{ action: string; button?: string }>;
+  heldButtons: Set<SandboxButton>;
+  inputQueue: InputRequest[];
+  /** Maps compiled code lines to student code lines */
+  lineMap: number[];
+  /** Student code line of the current frame-advancing call */
+  callLine?: number;
+  /** The main thread asked to end the run (goal met) */
+  stopped: boolean;
 } | null = null;
 
 let messageId = 0;
 const pendingRequests = new Map<number, (response: unknown) => void>();
 
 /**
- * Send a message to the main thread and wait for response
+ * Find the first stack frame inside code created with `new Function`.
+ * V8 reports these as "<anonymous>:line:col", Firefox as "> Function:line:col".
+ */
+function findFunctionLine(stack: string | undefined): number | undefined {
+  const match = stack?.match(/(?:<anonymous>|Function):(\d+):\d+/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Lines `new Function` adds before the body. Measured rather than assumed,
+ * since the header differs between engines.
+ */
+const FUNCTION_HEADER_LINES = (() => {
+  const line = findFunctionLine(new Function('return new Error();')().stack);
+  return line === undefined ? 2 : line - 1;
+})();
+
+/**
+ * Map an error stack to a line in the student's code
  */
-function sendRequest(command: string, payload?: unknown): Promise<unknown> {
+function getStudentLine(stack: string | undefined): number | undefined {
+  const line = findFunctionLine(stack);
+  if (line === undefined || !currentExecution) {
+    return undefined;
+  }
+  return currentExecution.lineMap[line - FUNCTION_HEADER_LINES - 1];
+}
+
+/**
+ * Record which student code line called a frame-advancing API method
+ */
+function markCallLine(): void {
+  if (currentExecution) {
+    currentExecution.callLine = getStudentLine(new Error().stack);
+  }
+}
+
+/**
+ * Post a typed message to the main thread
+ */
+function post(message: FromWorkerMessage): void {
+  self.postMessage(message);
+}
+
+/**
+ * Send a request to the main thread and wait for its response
+ */
+function sendRequest<K extends SandboxRequest>(
+  request: K,
+  payload: SandboxRequests[K]['payload']
+): Promise<SandboxRequests[K]['response']> {
   return new Promise((resolve) => {
     const id = ++messageId;
-    pendingRequests.set(id, resolve);
-    self.postMessage({ id, command, payload });
+    pendingRequests.set(id, resolve as (response: unknown) => void);
+    post({ id, request, payload } as FromWorkerMessage);
   });
 }
 
 /**
- * Send a message to the main thread without waiting
+ * Send an event to the main thread without waiting
  */
-function sendEvent(event: string, payload?: unknown): void {
-  const msg: FromWorkerMessage = { event: event as FromWorkerMessage['event'], payload };
-  self.postMessage(msg);
+function sendEvent<K extends SandboxEvent>(event: K, payload: SandboxEvents[K]): void {
+  post({ event, payload } as EventMessage);
 }
 
 /**
@@ -63,6 +129,15 @@ function sandboxLog(level: LogEntry['level'], ...args: unknown[]): void {
   sendEvent('log', { level, args, timestamp: Date.now() });
 }
 
+/**
+ * Validate a button name from student code
+ */
+function assertButton(button: string): asserts button is SandboxButton {
+  if (!VALID_BUTTONS.includes(button as SandboxButton)) {
+    throw new Error(`Invalid button: ${button}. Valid buttons: ${VALID_BUTTONS.join(', ')}`);
+  }
+}
+
 /**
  * Request a frame step from main thread
  */
@@ -71,7 +146,12 @@ async function requestStep(): Promise<StepResponse> {
     throw new Error('No execution in progress');
   }
 
-  if (currentExecution.frameNumber >= currentExecution.maxFrames) {
+  if (currentExecution.stopped) {
+    throw new Error('Execution stopped: goal achieved');
+  }
+
+  // Check relative frames stepped, not the absolute emulator frame
+  if (currentExecution.framesExecuted >= currentExecution.maxFrames) {
     throw new Error('Maximum frames exceeded');
   }
 
@@ -82,10 +162,20 @@ async function requestStep(): Promise<StepResponse> {
   const response = await sendRequest('step', {
     inputs,
     heldButtons: Array.from(currentExecution.heldButtons),
-  }) as StepResponse;
+    line: currentExecution.callLine,
+  });
 
-  currentExecution.frameNumber = response.frameNumber;
-  currentExecution.currentState = response.state;
+  if (currentExecution) {
+    currentExecution.frameNumber = response.frameNumber;
+    currentExecution.framesExecuted++;
+    currentExecution.currentState = response.state;
+
+    // Unwind the student code; executeCode() reports this as completed
+    if (response.stop) {
+      currentExecution.stopped = true;
+      throw new Error('Execution stopped: goal achieved');
+    }
+  }
 
   return response;
 }
@@ -97,9 +187,7 @@ function createGameAPI() {
   return {
     // Input methods
     press(button: string): void {
-      if (!VALID_BUTTONS.includes(button as typeof VALID_BUTTONS[number])) {
-        throw new Error(`Invalid button: ${button}. Valid buttons: ${VALID_BUTTONS.join(', ')}`);
-      }
+      assertButton(button);
       if (currentExecution) {
         currentExecution.heldButtons.add(button);
         currentExecution.inputQueue.push({ action: 'press', button });
@@ -107,9 +195,7 @@ function createGameAPI() {
     },
 
     release(button: string): void {
-      if (!VALID_BUTTONS.includes(button as typeof VALID_BUTTONS[number])) {
-        throw new Error(`Invalid button: ${button}`);
-      }
+      assertButton(button);
       if (currentExecution) {
         currentExecution.heldButtons.delete(button);
         currentExecution.inputQueue.push({ action: 'release', button });
@@ -124,12 +210,14 @@ function createGameAPI() {
     },
 
     async tap(button: string): Promise<void> {
+      markCallLine();
       this.press(button);
       await this.step();
       this.release(button);
     },
 
     async hold(button: string, frames: number): Promise<void> {
+      markCallLine();
       this.press(button);
       await this.stepFrames(frames);
       this.release(button);
@@ -137,16 +225,19 @@ function createGameAPI() {
 
     // Frame control
     async step(): Promise<void> {
+      markCallLine();
       await requestStep();
     },
 
     async stepFrames(count: number): Promise<void> {
+      markCallLine();
       for (let i = 0; i < count; i++) {
         await requestStep();
       }
     },
 
     async wait(frames: number): Promise<void> {
+      markCallLine();
       await this.stepFrames(frames);
     },
 
@@ -171,7 +262,7 @@ function createGameAPI() {
 
     // Properties
     get frameNumber(): number {
-      return currentExecution?.frameNumber ?? 0;
+      return currentExecution?.framesExecuted ?? 0;
     },
   };
 }
@@ -180,25 +271,54 @@ function createGameAPI() {
  * Execute student code in the sandbox
  */
 async function executeCode(payload: ExecutePayload): Promise<SandboxExecutionResult> {
-  const { code, maxFrames } = payload;
+  const { code, maxFrames, typeCheck, declarations, requirements } = payload;
+
+  // Compile before touching the game so errors cost no frames
+  const { js, lineMap, diagnostics } = compileStudentCode(code, { typeCheck, declarations });
+  const firstError = diagnostics.find(diagnostic => diagnostic.category === 'error');
+  if (firstError) {
+    return {
+      completed: false,
+      framesExecuted: 0,
+      error: formatDiagnostic(firstError),
+      consoleOutput: [],
+      diagnostics,
+    };
+  }
+
+  // Structure is checked up front, but the code still runs so the
+  // student can see what it does
+  const codeCheck = requirements ? checkCodeRequirements(code, requirements) : undefined;
 
   // Initialize execution state
   currentExecution = {
-    resolve: () => {},
-    reject: () => {},
     frameNumber: 0,
+    framesExecuted: 0,
     maxFrames,
     consoleOutput: [],
-    pendingSteps: [],
     currentState: {},
     heldButtons: new Set(),
     inputQueue: [],
+    lineMap,
+    stopped: false,
   };
 
   // Get initial state
-  const initialResponse = await sendRequest('getState', {}) as StepResponse;
+  const initialResponse = await sendRequest('getState', {});
   currentExecution.currentState = initialResponse.state;
   currentExecution.frameNumber = initialResponse.frameNumber;
+  if (initialResponse.stop) {
+    const result: SandboxExecutionResult = {
+      completed: true,
+      framesExecuted: 0,
+      consoleOutput: [],
+      diagnostics,
+      codeCheck,
+      stoppedOnGoal: true,
+    };
+    currentExecution = null;
+    return result;
+  }
 
   const game = createGameAPI();
 
@@ -211,14 +331,9 @@ async function executeCode(payload: ExecutePayload): Promise<SandboxExecutionRes
   };
 
   try {
-    // Wrap code in an async function
-    // The game API is passed as a parameter to avoid scope pollution
-    const wrappedCode = `
-      return (async function(game, console) {
-        "use strict";
-        ${code}
-      })(game, console);
-    `;
+    // The compiled code declares the entry point; game and console are
+    // function parameters to avoid scope pollution
+    const wrappedCode = `${js}\nreturn ${STUDENT_ENTRY_POINT}();`;
 
     // Create function with restricted scope
     // Only expose: game, console, Math, basic globals
@@ -262,23 +377,45 @@ async function executeCode(payload: ExecutePayload): Promise<SandboxExecutionRes
 
     const result: SandboxExecutionResult = {
       completed: true,
-      framesExecuted: currentExecution.frameNumber,
-      consoleOutput: currentExecution.consoleOutput,
+      framesExecuted: currentExecution?.framesExecuted ?? 0,
+      consoleOutput: currentExecution?.consoleOutput ?? [],
+      diagnostics,
+      codeCheck,
+      stoppedOnGoal: currentExecution?.stopped || undefined,
     };
 
     currentExecution = null;
     return result;
 
   } catch (error) {
+    // Ending the run on the goal is a success even if student code
+    // caught and rethrew (or replaced) the stop error
+    if (currentExecution?.stopped) {
+      const result: SandboxExecutionResult = {
+        completed: true,
+        framesExecuted: currentExecution.framesExecuted,
+        consoleOutput: currentExecution.consoleOutput,
+        diagnostics,
+        codeCheck,
+        stoppedOnGoal: true,
+      };
+      currentExecution = null;
+      return result;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error ? error.stack : undefined;
+    const errorLine = getStudentLine(errorStack);
 
     const result: SandboxExecutionResult = {
       completed: false,
-      framesExecuted: currentExecution?.frameNumber ?? 0,
+      framesExecuted: currentExecution?.framesExecuted ?? 0,
       error: errorMessage,
       errorStack,
+      errorLine,
       consoleOutput: currentExecution?.consoleOutput ?? [],
+      diagnostics,
+      codeCheck,
     };
 
     currentExecution = null;
@@ -290,33 +427,28 @@ async function executeCode(payload: ExecutePayload): Promise<SandboxExecutionRes
  * Handle messages from main thread
  */
 self.onmessage = async (event: MessageEvent<ToWorkerMessage>) => {
-  const { id, command, payload } = event.data;
+  const message = event.data;
 
   try {
-    switch (command) {
-      case 'execute': {
-        const result = await executeCode(payload as ExecutePayload);
-        sendEvent('complete', result);
-        break;
+    // Responses to our requests
+    if ('response' in message) {
+      const resolver = pendingRequests.get(message.id);
+      if (resolver) {
+        pendingRequests.delete(message.id);
+        resolver(message.payload);
       }
+      return;
+    }
 
-      case 'step':
-      case 'getState': {
-        // These are responses to our requests
-        if (id !== undefined) {
-          const resolver = pendingRequests.get(id);
-          if (resolver) {
-            pendingRequests.delete(id);
-            resolver(payload);
-          }
-        }
+    switch (message.command) {
+      case 'execute': {
+        const result = await executeCode(message.payload);
+        sendEvent('complete', result);
         break;
       }
 
       case 'terminate': {
-        if (currentExecution) {
-          currentExecution = null;
-        }
+        currentExecution = null;
         break;
       }
     }
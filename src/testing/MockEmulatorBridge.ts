@@ -0,0 +1,424 @@
+/**
+ * MockEmulatorBridge - An in-memory stand-in for EmulatorJS
+ *
+ * Implements the EmulatorBridge surface the rest of the app uses (frame
+ * stepping, input, memory, save states) over a plain byte array, so
+ * GameController and ChallengeEngine can run headlessly in Node. There is
+ * no real game: each frame runs a MockPhysics stub that updates work RAM
+ * from the held buttons, roughly the way the game would, then any frame
+ * scripts and cheats.
+ *
+ * The heap and cheats are also exposed through a stand-in Module and
+ * GameManager, so EmulatorBridge.discoverWorkRamBase() runs unchanged.
+ */
+
+import { EmulatorBridge, EmulatorState } from '../core/EmulatorBridge';
+import { BUTTON_MAP, Button, GameController } from '../core/GameController';
+import { decodeMemoryValue, encodeMemoryValue, MemoryValue } from '../core/MemoryReader';
+import { RamDiscoveryStrategy, getRamDiscoveryStrategy } from '../core/ramDiscovery';
+import { parseTypeSpec } from '../data/parser';
+import type { EmscriptenModule, GameManager } from '../types/emulatorjs';
+
+/** Where work RAM starts in the mock heap (nonzero, like a real core) */
+const HEAP_RAM_BASE = 0x1000;
+
+/** Bytes at the start of a mock save state holding the frame number */
+const STATE_HEADER_SIZE = 4;
+
+/** Button names by BUTTON_MAP index */
+const BUTTONS_BY_INDEX = new Map<number, Button>(
+  (Object.entries(BUTTON_MAP) as [Button, number][]).map(([button, index]) => [index, button])
+);
+
+/**
+ * Console work RAM addressed the way data.json addresses it
+ *
+ * @example
+ * ram.write(0xFFB008, '>u2', 64);
+ * ram.read(0xFFB010, '>i2'); // signed x velocity
+ */
+export class MockRam {
+  /** The RAM contents (a view into the mock heap) */
+  readonly bytes: Uint8Array;
+
+  /**
+   * @param bytes - RAM contents
+   * @param start - System address of the first byte (e.g., 0xFF0000 on Genesis)
+   */
+  constructor(bytes: Uint8Array, readonly start: number) {
+    this.bytes = bytes;
+  }
+
+  /**
+   * Read a value using a Stable Retro type (e.g., ">u2", "<i4", ">n2")
+   *
+   * @param address - System address, as in data.json
+   * @param type - Stable Retro type spec
+   */
+  read(address: number, type: string): number {
+    const parsed = parseTypeSpec(type);
+    const offset = this.toOffset(address, parsed.bytes);
+    return Number(decodeMemoryValue(this.bytes.subarray(offset, offset + parsed.bytes), parsed));
+  }
+
+  /**
+   * Write a value using a Stable Retro type
+   *
+   * @param address - System address, as in data.json
+   * @param type - Stable Retro type spec
+   * @param value - Integer value; must fit in the type
+   */
+  write(address: number, type: string, value: MemoryValue): void {
+    const parsed = parseTypeSpec(type);
+    this.bytes.set(encodeMemoryValue(value, parsed), this.toOffset(address, parsed.bytes));
+  }
+
+  /**
+   * Convert a system address to an offset into the RAM
+   */
+  private toOffset(address: number, length: number): number {
+    const offset = address - this.start;
+    if (offset < 0 || offset + length > this.bytes.length) {
+      throw new Error(`Mock RAM access out of bounds: 0x${address.toString(16)}`);
+    }
+    return offset;
+  }
+}
+
+/**
+ * Game logic run by MockEmulatorBridge
+ *
+ * All game state must live in RAM so save states capture it.
+ */
+export interface MockPhysics {
+  /** Set up RAM as the game would at the start of a level */
+  reset(ram: MockRam): void;
+
+  /**
+   * Advance the game one frame
+   * @param ram - Work RAM
+   * @param held - Buttons held during the frame
+   * @param frame - Frame number being run (1 = first frame)
+   */
+  step(ram: MockRam, held: ReadonlySet<Button>, frame: number): void;
+}
+
+/**
+ * Extra per-frame RAM changes, run after the physics stub
+ *
+ * Lets a test script events the physics doesn't model, e.g. losing a
+ * life on frame 120.
+ */
+export type MockFrameScript = (ram: MockRam, frame: number) => void;
+
+/**
+ * A cheat code format: a pattern and how to read the address and value
+ * from its match
+ */
+interface CheatFormat {
+  pattern: RegExp;
+  decode(match: RegExpExecArray): { address: number; value: number };
+}
+
+/** Raw "AAAAAA:VV" / "AAAA:VV" codes */
+const RAW_CHEAT: CheatFormat = {
+  pattern: /^([0-9A-F]{4,6}):([0-9A-F]{2})$/i,
+  decode: (match) => ({ address: parseInt(match[1], 16), value: parseInt(match[2], 16) }),
+};
+
+/** GameShark "01VVLLHH" codes (address little endian) */
+const GAMESHARK_CHEAT: CheatFormat = {
+  pattern: /^01([0-9A-F]{2})([0-9A-F]{2})([0-9A-F]{2})$/i,
+  decode: (match) => ({ address: parseInt(match[3] + match[2], 16), value: parseInt(match[1], 16) }),
+};
+
+/**
+ * Cheat code format each console's core takes, decoded independently of
+ * the discovery strategies so tests check them rather than repeat them
+ */
+const CHEAT_FORMATS: Record<string, CheatFormat> = {
+  genesis: RAW_CHEAT,
+  sms: RAW_CHEAT,
+  nes: RAW_CHEAT,
+  // Pro Action Replay "AAAAAAVV"
+  snes: {
+    pattern: /^([0-9A-F]{6})([0-9A-F]{2})$/i,
+    decode: (match) => ({ address: parseInt(match[1], 16), value: parseInt(match[2], 16) }),
+  },
+  gb: GAMESHARK_CHEAT,
+  gbc: GAMESHARK_CHEAT,
+  // CodeBreaker 8-bit write "3AAAAAAA 00VV"
+  gba: {
+    pattern: /^3([0-9A-F]{7}) 00([0-9A-F]{2})$/i,
+    decode: (match) => ({ address: parseInt(match[1], 16), value: parseInt(match[2], 16) }),
+  },
+};
+
+/**
+ * Decode a cheat code in the console's format
+ *
+ * @param consoleName - Console whose format to decode (e.g., "snes")
+ * @returns The system address and byte value
+ * @throws For codes not in the console's format
+ */
+function parseCheatCode(consoleName: string, code: string): { address: number; value: number } {
+  const format = CHEAT_FORMATS[consoleName];
+  const match = format?.pattern.exec(code.trim());
+  if (!format || !match) {
+    throw new Error(`Unsupported cheat code for mock bridge: ${code}`);
+  }
+  return format.decode(match);
+}
+
+/**
+ * Options for MockEmulatorBridge
+ */
+export interface MockEmulatorBridgeOptions {
+  /** Core to report; selects the console's RAM layout (default: "genesis_plus_gx") */
+  core?: string;
+
+  /** Game logic to run every frame (default: RAM never changes) */
+  physics?: MockPhysics;
+
+  /** Report save state support, as most cores do (default: true) */
+  supportsStates?: boolean;
+}
+
+/**
+ * MockEmulatorBridge runs a fake game over in-memory RAM.
+ *
+ * @example
+ * const bridge = new MockEmulatorBridge({ physics: sonicPhysics });
+ * const controller = new GameController(bridge);
+ * await controller.discoverMemory();
+ * controller.press('right');
+ * await controller.stepFrames(60);
+ */
+export class MockEmulatorBridge extends EmulatorBridge {
+  /** The console's work RAM layout */
+  readonly strategy: RamDiscoveryStrategy;
+
+  /** Work RAM as seen by the physics stub */
+  readonly ram: MockRam;
+
+  /** The emulated core's whole memory heap (work RAM starts at HEAP_RAM_BASE) */
+  readonly heap: Uint8Array;
+
+  private physics?: MockPhysics;
+  private statesSupported: boolean;
+  private frame: number = 0;
+  private held: Set<Button> = new Set();
+  private scripts: Set<MockFrameScript> = new Set();
+  private cheats: Map<number, { address: number; value: number }> = new Map();
+  private mockState: EmulatorState = 'uninitialized';
+  private mockModule: EmscriptenModule;
+  private mockGameManager: GameManager;
+
+  constructor(options: MockEmulatorBridgeOptions = {}) {
+    const core = options.core ?? 'genesis_plus_gx';
+    super({ containerId: 'mock', gameUrl: 'mock', core });
+
+    this.strategy = getRamDiscoveryStrategy(core);
+    this.heap = new Uint8Array(HEAP_RAM_BASE + this.strategy.ramSize);
+    this.ram = new MockRam(
+      this.heap.subarray(HEAP_RAM_BASE, HEAP_RAM_BASE + this.strategy.ramSize),
+      this.strategy.ramStart
+    );
+    this.physics = options.physics;
+    this.physics?.reset(this.ram);
+    this.statesSupported = options.supportsStates ?? true;
+
+    // Only the parts RAM discovery uses
+    this.mockModule = { HEAPU8: this.heap } as EmscriptenModule;
+    this.mockGameManager = {
+      Module: this.mockModule,
+      setCheat: (index, enabled, code) => this.setCheat(index, enabled !== 0, code),
+      resetCheat: () => this.resetCheat(),
+      supportsStates: () => this.supportsStates(),
+    } as GameManager;
+  }
+
+  override get gameManager(): GameManager | null {
+    return this.isReady ? this.mockGameManager : null;
+  }
+
+  override get module(): EmscriptenModule | null {
+    return this.isReady ? this.mockModule : null;
+  }
+
+  override get state(): EmulatorState {
+    return this.mockState;
+  }
+
+  override get isReady(): boolean {
+    return this.mockState !== 'uninitialized';
+  }
+
+  /**
+   * Buttons currently held
+   */
+  get heldButtons(): ReadonlySet<Button> {
+    return this.held;
+  }
+
+  override async load(): Promise<void> {
+    this.mockState = 'ready';
+  }
+
+  override play(): void {
+    this.mockState = 'running';
+  }
+
+  override pause(): void {
+    this.mockState = 'paused';
+  }
+
+  override async stepFrame(): Promise<number> {
+    return this.runFrames(1);
+  }
+
+  override async stepFrames(count: number): Promise<number> {
+    if (count <= 0) {
+      return this.frame;
+    }
+    return this.runFrames(count);
+  }
+
+  override async runFrames(count: number): Promise<number> {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid frame count: ${count}`);
+    }
+    for (let i = 0; i < count; i++) {
+      this.frame++;
+      this.physics?.step(this.ram, this.held, this.frame);
+      for (const script of this.scripts) {
+        script(this.ram, this.frame);
+      }
+      // Cheats hold their values, overriding the game
+      for (const { address, value } of this.cheats.values()) {
+        this.ram.write(address, '|u1', value);
+      }
+    }
+    // Let other tasks (e.g. worker messages) run, as a real frame would
+    await Promise.resolve();
+    this.mockState = 'paused';
+    return this.frame;
+  }
+
+  override getFrameNumber(): number {
+    return this.frame;
+  }
+
+  override simulateInput(_player: number, buttonIndex: number, pressed: boolean): void {
+    const button = BUTTONS_BY_INDEX.get(buttonIndex);
+    if (!button) {
+      throw new Error(`Unknown button index: ${buttonIndex}`);
+    }
+    if (pressed) {
+      this.held.add(button);
+    } else {
+      this.held.delete(button);
+    }
+  }
+
+  /**
+   * Snapshot the frame number and heap
+   */
+  override saveState(): Uint8Array {
+    const state = new Uint8Array(STATE_HEADER_SIZE + this.heap.length);
+    new DataView(state.buffer).setUint32(0, this.frame);
+    state.set(this.heap, STATE_HEADER_SIZE);
+    return state;
+  }
+
+  override loadState(state: Uint8Array): void {
+    if (state.length !== STATE_HEADER_SIZE + this.heap.length) {
+      throw new Error(`Invalid mock save state (${state.length} bytes)`);
+    }
+    this.frame = new DataView(state.buffer, state.byteOffset).getUint32(0);
+    this.heap.set(state.subarray(STATE_HEADER_SIZE));
+  }
+
+  override async screenshot(): Promise<Uint8Array> {
+    return new Uint8Array(0);
+  }
+
+  override readMemoryBytes(address: number, length: number): Uint8Array {
+    return this.heap.slice(address, address + length);
+  }
+
+  override writeMemoryBytes(address: number, bytes: Uint8Array): void {
+    if (address < 0 || address + bytes.length > this.heap.length) {
+      throw new Error(`Memory write out of bounds: 0x${address.toString(16)}`);
+    }
+    this.heap.set(bytes, address);
+  }
+
+  /**
+   * Run a script after the physics stub on every frame
+   *
+   * @returns A function that removes the script
+   *
+   * @example
+   * // Lose a life on frame 120
+   * bridge.addFrameScript((ram, frame) => {
+   *   if (frame === 120) ram.write(0xFFFE12, '|u1', ram.read(0xFFFE12, '|u1') - 1);
+   * });
+   */
+  addFrameScript(script: MockFrameScript): () => void {
+    this.scripts.add(script);
+    return () => this.scripts.delete(script);
+  }
+
+  /**
+   * Set a cheat in the console's code format, applied at the end of every frame
+   */
+  override setCheat(index: number, enabled: boolean, code: string): void {
+    if (enabled) {
+      this.cheats.set(index, parseCheatCode(this.strategy.console, code));
+    } else {
+      this.cheats.delete(index);
+    }
+  }
+
+  override resetCheat(): void {
+    this.cheats.clear();
+  }
+
+  override supportsStates(): boolean {
+    return this.statesSupported;
+  }
+
+  /**
+   * Clear RAM and start the game over
+   */
+  override restart(): void {
+    this.heap.fill(0);
+    this.frame = 0;
+    this.held.clear();
+    this.cheats.clear();
+    this.physics?.reset(this.ram);
+  }
+
+  override destroy(): void {
+    this.mockState = 'uninitialized';
+  }
+}
+
+/**
+ * Create a GameController over a loaded mock bridge with memory discovered
+ *
+ * @example
+ * const controller = await createMockController({ physics: sonicPhysics });
+ * controller.loadGameData('SonicTheHedgehog2-Genesis');
+ * controller.getVariable('x'); // 64
+ */
+export async function createMockController(
+  options: MockEmulatorBridgeOptions = {}
+): Promise<GameController> {
+  const bridge = new MockEmulatorBridge(options);
+  await bridge.load();
+  const controller = new GameController(bridge);
+  await controller.discoverMemory();
+  return controller;
+}
@@ -0,0 +1,110 @@
+/**
+ * Airstriker physics stub for MockEmulatorBridge
+ *
+ * A simplified shoot-'em-up, not a model of the real game: the ship flies
+ * in the top or bottom half of the screen, and every 64 frames an enemy
+ * wave sweeps one half, chosen by scroll_counter (top while it's below 128,
+ * bottom from 128 up). A wave in the ship's half is shot down for 10 points
+ * if the ship fired in the last 32 frames, and costs a life otherwise.
+ * lives, score and scroll_counter use the data.json addresses; the rest of
+ * the state lives at mock-only addresses.
+ *
+ * The wave pattern, firing window and points are made up so lesson
+ * solutions and starters behave differently here. Lessons must not teach
+ * them as facts about Airstriker.
+ */
+
+import type { Button } from '../core/GameController';
+import { MockPhysics, MockRam } from './MockEmulatorBridge';
+
+// data.json variables
+const LIVES = 0xFF0223;
+const INITIAL_LIVES = 0xFF021D;
+const SCORE = 0xFF0224;
+const SCROLL_COUNTER = 0xFF0293;
+
+// Mock-only state (not the real game's layout)
+const SHIP_Y = 0xFF0400;
+const FIRE_TIMER = 0xFF0402;
+const PREVIOUS_FIRE = 0xFF0403;
+
+const START_LIVES = 3;
+
+/** Ship starts in the top half */
+const START_Y = 56;
+
+const MIN_Y = 16;
+const MAX_Y = 208;
+
+/** Ships above this y are in the top half */
+const HALF_Y = 112;
+
+const SHIP_SPEED = 4;
+
+/** Frames a shot keeps the ship's half clear */
+const FIRE_FRAMES = 32;
+
+/** A wave arrives when (scroll_counter & WAVE_MASK) === WAVE_MASK */
+const WAVE_MASK = 0x3F;
+
+const POINTS_PER_WAVE = 10;
+
+/** Button that fires */
+const FIRE: Button = 'b';
+
+/**
+ * Move the ship up or down with the d-pad
+ */
+function moveShip(ram: MockRam, held: ReadonlySet<Button>): number {
+  let y = ram.read(SHIP_Y, '>u2');
+  if (held.has('up')) y -= SHIP_SPEED;
+  if (held.has('down')) y += SHIP_SPEED;
+  y = Math.min(Math.max(y, MIN_Y), MAX_Y);
+  ram.write(SHIP_Y, '>u2', y);
+  return y;
+}
+
+/**
+ * The ship starts in the top half with 3 lives, no score and
+ * scroll_counter at 0
+ */
+export const airstrikerPhysics: MockPhysics = {
+  reset(ram) {
+    ram.write(LIVES, '|u1', START_LIVES);
+    ram.write(INITIAL_LIVES, '|u1', START_LIVES);
+    ram.write(SCORE, '>u2', 0);
+    ram.write(SCROLL_COUNTER, '|u1', 0);
+    ram.write(SHIP_Y, '>u2', START_Y);
+  },
+
+  step(ram, held) {
+    const scroll = (ram.read(SCROLL_COUNTER, '|u1') + 1) & 0xFF;
+    ram.write(SCROLL_COUNTER, '|u1', scroll);
+
+    const y = moveShip(ram, held);
+
+    // Firing takes a fresh press, not a held button
+    const firing = held.has(FIRE);
+    let fireTimer = ram.read(FIRE_TIMER, '|u1');
+    if (firing && !ram.read(PREVIOUS_FIRE, '|u1')) {
+      fireTimer = FIRE_FRAMES;
+    } else if (fireTimer > 0) {
+      fireTimer--;
+    }
+    ram.write(PREVIOUS_FIRE, '|u1', firing ? 1 : 0);
+    ram.write(FIRE_TIMER, '|u1', fireTimer);
+
+    if ((scroll & WAVE_MASK) !== WAVE_MASK) {
+      return;
+    }
+    const waveInTop = scroll < 0x80;
+    if (waveInTop !== y < HALF_Y) {
+      return;
+    }
+    if (fireTimer > 0) {
+      ram.write(SCORE, '>u2', Math.min(ram.read(SCORE, '>u2') + POINTS_PER_WAVE, 0xFFFF));
+    } else {
+      ram.write(LIVES, '|u1', Math.max(ram.read(LIVES, '|u1') - 1, 0));
+    }
+  },
+};
@@ -0,0 +1,7 @@
+/**
+ * Testing utilities exports
+ */
+
+export * from './MockEmulatorBridge';
+export * from './sonicPhysics';
+export * from './airstrikerPhysics';
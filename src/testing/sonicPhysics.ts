@@ -0,0 +1,153 @@
+/**
+ * Sonic 2 physics stub for MockEmulatorBridge
+ *
+ * A flat stretch of Emerald Hill Zone: Sonic runs and jumps with roughly
+ * the game's acceleration, top speed, jump strength and gravity, using the
+ * same RAM locations as the real game (main character object at 0xFFB000),
+ * so the data.json variables read back believable values.
+ */
+
+import type { Button } from '../core/GameController';
+import { MockPhysics, MockRam } from './MockEmulatorBridge';
+
+// Main character object (positions are 16.16 fixed point, speeds 8.8)
+const X_POS = 0xFFB008;
+const X_SUB = 0xFFB00A;
+const Y_POS = 0xFFB00C;
+const Y_SUB = 0xFFB00E;
+const X_VEL = 0xFFB010;
+const Y_VEL = 0xFFB012;
+const STATUS = 0xFFB022;
+
+// Level and HUD
+const GAME_MODE = 0xFFF600;
+const CTRL_HELD = 0xFFF604;
+const SCREEN_X = 0xFFEE00;
+const SCREEN_Y = 0xFFEE04;
+const ZONE = 0xFFFE10;
+const ACT = 0xFFFE11;
+const LIVES = 0xFFFE12;
+
+/** STATUS bit set while in the air */
+const STATUS_IN_AIR = 0x02;
+
+/** Game mode of a level in progress */
+const MODE_LEVEL = 0x0C;
+
+const START_X = 64;
+const GROUND_Y = 380;
+
+// Speeds in 1/256 pixel per frame
+const ACCELERATION = 0x0C;
+const DECELERATION = 0x80;
+const TOP_SPEED = 0x600;
+const JUMP_SPEED = 0x680;
+const JUMP_RELEASE_SPEED = 0x400;
+const GRAVITY = 0x38;
+
+/**
+ * Bits of the Genesis pad byte (CTRL_HELD), by RetroPad button. RetroPad
+ * Y, B and A are Genesis A, B and C, as in genesis_plus_gx and movie.ts.
+ */
+const PAD_BITS: Partial<Record<Button, number>> = {
+  up: 0x01,
+  down: 0x02,
+  left: 0x04,
+  right: 0x08,
+  b: 0x10,  // Genesis B
+  a: 0x20,  // Genesis C
+  y: 0x40,  // Genesis A
+  start: 0x80,
+};
+
+/** Any of A, B or C jumps */
+const PAD_JUMP = 0x70;
+
+/**
+ * Move a 16.16 fixed point coordinate by a speed in 1/256 pixels
+ */
+function move(ram: MockRam, pixelAddress: number, subAddress: number, speed: number): number {
+  const position = ram.read(pixelAddress, '>u2') * 0x10000 + ram.read(subAddress, '>u2') + speed * 0x100;
+  const pixels = Math.floor(position / 0x10000);
+  ram.write(pixelAddress, '>u2', pixels & 0xFFFF);
+  ram.write(subAddress, '>u2', position - pixels * 0x10000);
+  return pixels;
+}
+
+/**
+ * Change a ground or air speed toward the held direction
+ */
+function accelerate(speed: number, pad: number, acceleration: number): number {
+  if (pad & PAD_BITS.right!) {
+    return speed < 0 ? speed + DECELERATION : Math.min(speed + acceleration, TOP_SPEED);
+  }
+  if (pad & PAD_BITS.left!) {
+    return speed > 0 ? speed - DECELERATION : Math.max(speed - acceleration, -TOP_SPEED);
+  }
+  return speed;
+}
+
+/**
+ * Sonic starts standing at x = 64 on flat ground at y = 380
+ */
+export const sonicPhysics: MockPhysics = {
+  reset(ram) {
+    ram.write(GAME_MODE, '|u1', MODE_LEVEL);
+    ram.write(ZONE, '|u1', 0);
+    ram.write(ACT, '|u1', 0);
+    ram.write(LIVES, '|u1', 3);
+    ram.write(X_POS, '>u2', START_X);
+    ram.write(Y_POS, '>u2', GROUND_Y);
+  },
+
+  step(ram, held) {
+    let pad = 0;
+    for (const button of held) {
+      pad |= PAD_BITS[button] ?? 0;
+    }
+    const pressed = pad & ~ram.read(CTRL_HELD, '|u1');
+    ram.write(CTRL_HELD, '|u1', pad);
+
+    let xVel = ram.read(X_VEL, '>i2');
+    let yVel = ram.read(Y_VEL, '>i2');
+    let status = ram.read(STATUS, '|u1');
+    const inAir = (status & STATUS_IN_AIR) !== 0;
+
+    if (inAir) {
+      xVel = accelerate(xVel, pad, ACCELERATION * 2);
+      // Letting go of jump cuts the jump short
+      if (!(pad & PAD_JUMP) && yVel < -JUMP_RELEASE_SPEED) {
+        yVel = -JUMP_RELEASE_SPEED;
+      }
+    } else {
+      xVel = accelerate(xVel, pad, ACCELERATION);
+      if (!(pad & (PAD_BITS.left! | PAD_BITS.right!))) {
+        // Friction
+        xVel = xVel > 0 ? Math.max(xVel - ACCELERATION, 0) : Math.min(xVel + ACCELERATION, 0);
+      }
+      if (pressed & PAD_JUMP) {
+        yVel = -JUMP_SPEED;
+        status |= STATUS_IN_AIR;
+      }
+    }
+
+    const x = move(ram, X_POS, X_SUB, xVel);
+    if (status & STATUS_IN_AIR) {
+      const y = move(ram, Y_POS, Y_SUB, yVel);
+      yVel += GRAVITY;
+      if (y >= GROUND_Y) {
+        ram.write(Y_POS, '>u2', GROUND_Y);
+        ram.write(Y_SUB, '>u2', 0);
+        yVel = 0;
+        status &= ~STATUS_IN_AIR;
+      }
+    }
+
+    ram.write(X_VEL, '>i2', xVel);
+    ram.write(Y_VEL, '>i2', yVel);
+    ram.write(STATUS, '|u1', status);
+    // Camera keeps Sonic at 160 pixels from the left edge
+    ram.write(SCREEN_X, '>u2', Math.max(0, x - 160));
+    ram.write(SCREEN_Y, '>u2', GROUND_Y - 112);
+  },
+};